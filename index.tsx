@@ -4,9 +4,31 @@
 */
 import React, { useState, useEffect, useCallback, useRef, StrictMode, ReactNode, createContext, useContext, useMemo } from 'react';
 import { createRoot } from 'react-dom/client';
-import { generateCase, createChatForCase, DiagnosticCase, MCQ, generateSoapNoteForCase, generateHint, CaseTags, GenerationFilters, pickSpecialtyForCase, pickBestVideo, Chat } from './services/geminiService';
-import { supabase, signIn, signUp, signOut, getUserProfile, updateUserProfile, getNotifications, markNotificationAsRead as supabaseMarkNotificationAsRead, markAllNotificationsAsRead as supabaseMarkAllNotificationsAsRead, Notification, NotificationType, Profile } from './services/supabaseService';
+import { createSentenceSplitter } from './services/sentenceSplitter';
+import { getSttProvider, RecognitionLanguage, RecognitionSession, RECOGNITION_LANGUAGES, joinTranscript } from './services/stt';
+import { getTtsProvider, PreparedSpeech, SpeechSettings, Utterance, DEFAULT_SPEECH_SETTINGS, SPEECH_SPEEDS } from './services/tts';
+import { reportAvatarCatalogIssues, speakerFor } from './services/avatars';
+import { encounterParticipants, primaryParticipant, Participant, ParticipantId } from './services/encounter';
+import { generateCase, generateQuestions, createEncounterChats, EncounterChats, DiagnosticCase, MCQ, generateSoapNoteForCase, generateHint, CaseTags, GenerationFilters, pickBestVideo, Chat, Vitals, LabPanel } from './services/geminiService';
+import { supabase, signIn, signUp, signOut, getUserProfile, updateUserProfile, getNotifications, countUnreadNotifications, subscribeToNotifications, setNotificationArchived, deleteNotification as supabaseDeleteNotification, NOTIFICATION_PAGE_SIZE, markNotificationAsRead as supabaseMarkNotificationAsRead, markAllNotificationsAsRead as supabaseMarkAllNotificationsAsRead, Notification, NotificationType, Profile, saveCase, getCases, deleteCase, SavedCase, CaseLibraryFilters, saveCaseAttempt, getCaseAttempts, CaseAttempt, addReviewCard, getDueReviewCards, countDueReviewCards, updateReviewSchedule, ReviewCard, saveExamAttempt, getExamPercentile, getQuestionBankItems, saveQuestionBankItem, QuestionBankItem, NewQuestionBankItem, Cohort, CohortInvite, CohortStudent, Assignment, AssignmentAttempt, getFacultyCohorts, createCohort, getCohortStudents, inviteToCohort, getCohortInvites, getPendingInvites, respondToInvite, createAssignment, getCohortAssignments, getStudentAssignments, getAssignmentAttempts, getAssignedCase, getEarnedAchievements, awardAchievements, EarnedAchievement } from './services/supabaseService';
 import { Session, User } from '@supabase/supabase-js';
+import { VITAL_DEFINITIONS, getVitalReferenceRanges, flagValue, flagLabResult, RangeFlag } from './services/clinicalRanges';
+import { PatientState, PerformedIntervention, isDynamicCase, computePatientState, detectInterventions, summarizeInterventions, buildPatientStatusNote, withPatientStatus } from './services/patientState';
+import { toSimulatedMinutes } from './services/simulationClock';
+import { MAX_DIFFERENTIAL_ENTRIES, scoreDifferential } from './services/differential';
+import { CoverageReport, hasHistoryChecklist, trackCoverage } from './services/historyCoverage';
+import { CaseDebrief, buildDebrief } from './services/debrief';
+import { ProgressDimension, ProgressPoint, buildCaseAttempt, summarizeOverview, summarizeProgress } from './services/progress';
+import { CaseRecommendation, recommendCase } from './services/recommender';
+import { COMPETENCY_SUBJECTS, SubjectCoverage, competenciesForSpecialties, formatCompetency, getCompetency, summarizeCompetencyCoverage } from './services/competencyCatalog';
+import { MOCK_EXAM_BLUEPRINT, MockExam, ExamReport, planExamCases, createMockExam, examRemainingMs, isExamOver, lockExamAnswer, submitExam, scoreExam, buildExamAttempt } from './services/mockExam';
+import { BankQuestion, QuestionBankFilters, QuestionBankMode, questionsFromCases, questionFromGenerated, questionFromItem, mergeQuestionPool, filterQuestions, buildPracticeSet, statsFor, recordAnswer, toggleFlag, optimisticItem } from './services/questionBank';
+import { ACHIEVEMENTS, AchievementCategory, evaluateAchievements, newlyEarnedAchievements, buildAchievementNotification, parseAchievementLink } from './services/achievements';
+import { AssignmentPreset, AssignmentStatus, presetToJson, getAssignmentPreset, describeAssignment, assignmentStatus, summarizeAssignment } from './services/cohorts';
+import { REVIEW_GRADES, REVIEW_SESSION_SIZE, ReviewGrade, createReviewCard, scheduleReview } from './services/spacedRepetition';
+import { FORMULARY_DRUGS, FORMULARY_FLUIDS, FORMULARY_PROCEDURES, DRUG_ROUTES, DOSE_FREQUENCIES, DrugRoute, DoseFrequency } from './services/formulary';
+import { TreatmentOrder, NewTreatmentOrder, FluidRate, FLUID_RATES, estimateWeightKg, describeOrder, reviewTreatmentOrders, buildTreatmentNote } from './services/treatmentOrders';
+import { INVESTIGATION_CATALOG, INVESTIGATION_BUDGET, Investigation, InvestigationCategory, InvestigationOrder, getInvestigation, getInvestigationResult, createInvestigationOrder, simulatedMinutesRemaining, summarizeOrdering } from './services/investigations';
 
 
 // --- TYPE DEFINITIONS ---
@@ -14,24 +36,39 @@ type Specialty = 'Internal Medicine' | 'Pediatrics' | 'Surgery' | 'Obstetrics &
 type TrainingPhase = 'Pre-clinical' | 'Para-clinical' | 'Clinical' | 'Internship' | 'NExT/FMGE Prep';
 type CognitiveSkill = 'Recall' | 'Application' | 'Analysis';
 type EPA = 'History-taking' | 'Physical Exam' | 'Diagnosis' | 'Management';
-type Page = 'home' | 'simulation';
+type Page = 'home' | 'simulation' | 'review' | 'exam' | 'questionBank' | 'faculty' | 'achievements' | 'notifications';
 type Theme = 'light' | 'dark';
-type ActiveTab = 'chat' | 'diagnosis' | 'questions' | 'case';
+type ActiveTab = 'chat' | 'diagnosis' | 'questions' | 'investigations' | 'treatment' | 'case';
 type HomeTab = 'home' | 'case' | 'profile';
 
 
 export interface ChatMessage {
-    sender: 'user' | 'patient' | 'system';
+    sender: 'user' | 'system' | ParticipantId;
+    addressee?: ParticipantId;
     text: string;
     timestamp: string;
+    isHint?: boolean;
+}
+
+// The answer to the latest question, as it streams in.
+interface PatientReply {
+    id: number; // a new id means a new question: speech for the previous reply stops
+    speaker: ParticipantId;
+    text: string;
+    sentences: string[]; // complete sentences so far, ready to be spoken
+    isStreaming: boolean;
+    isCancelled: boolean;
 }
 
 // --- CONSTANTS & SEED DATA ---
 const ALL_SPECIALTIES: Specialty[] = ['Internal Medicine', 'Pediatrics', 'Surgery', 'Obstetrics & Gynecology', 'Psychiatry', 'Cardiology', 'Neurology', 'Dermatology', 'Emergency Medicine'];
 const ALL_TRAINING_PHASES: TrainingPhase[] = ['Pre-clinical', 'Para-clinical', 'Clinical', 'Internship', 'NExT/FMGE Prep'];
 const ALL_EPAS: EPA[] = ['History-taking', 'Physical Exam', 'Diagnosis', 'Management'];
+const ALL_COGNITIVE_SKILLS: CognitiveSkill[] = ['Recall', 'Application', 'Analysis'];
 const MAX_HINTS = 10;
 const HINT_STORAGE_KEY = 'medanna_hintUsage_v2';
+const SPEECH_SETTINGS_STORAGE_KEY = 'medanna_speechSettings';
+const RECOGNITION_LANGUAGE_STORAGE_KEY = 'medanna_recognitionLanguage';
 
 const MEDICAL_FUN_FACTS: Record<Specialty | 'General', string[]> = {
     'General': [
@@ -113,6 +150,12 @@ const IconFileText = () => <svg xmlns="http://www.w3.org/2000/svg" width="24" he
 const IconBell = () => <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M6 8a6 6 0 0 1 12 0c0 7 3 9 3 9H3s3-2 3-9"/><path d="M10.3 21a1.94 1.94 0 0 0 3.4 0"/></svg>;
 const IconAward = () => <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><circle cx="12" cy="8" r="7"/><polyline points="8.21 13.89 7 23 12 17 17 23 15.79 13.88"/></svg>;
 const IconMail = () => <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M4 4h16c1.1 0 2 .9 2 2v12c0 1.1-.9 2-2 2H4c-1.1 0-2-.9-2-2V6c0-1.1.9-2 2-2z"></path><polyline points="22,6 12,13 2,6"></polyline></svg>;
+const IconFlag = () => <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M4 15s1-1 4-1 5 2 8 2 4-1 4-1V3s-1 1-4 1-5-2-8-2-4 1-4 1z"></path><line x1="4" y1="22" x2="4" y2="15"></line></svg>;
+const IconArchive = () => <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="21 8 21 21 3 21 3 8"></polyline><rect x="1" y="3" width="22" height="5"></rect><line x1="10" y1="12" x2="14" y2="12"></line></svg>;
+const IconStop = () => <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="currentColor" stroke="none"><rect x="6" y="6" width="12" height="12" rx="2"></rect></svg>;
+const IconVolume = () => <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polygon points="11 5 6 9 2 9 2 15 6 15 11 19 11 5"></polygon><path d="M15.54 8.46a5 5 0 0 1 0 7.07"></path><path d="M19.07 4.93a10 10 0 0 1 0 14.14"></path></svg>;
+const IconVolumeOff = () => <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polygon points="11 5 6 9 2 9 2 15 6 15 11 19 11 5"></polygon><line x1="23" y1="9" x2="17" y2="15"></line><line x1="17" y1="9" x2="23" y2="15"></line></svg>;
+const IconMic = () => <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M12 1a3 3 0 0 0-3 3v8a3 3 0 0 0 6 0V4a3 3 0 0 0-3-3z"></path><path d="M19 10v2a7 7 0 0 1-14 0v-2"></path><line x1="12" y1="19" x2="12" y2="23"></line><line x1="8" y1="23" x2="16" y2="23"></line></svg>;
 const IconChevronLeft = () => <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="15 18 9 12 15 6"></polyline></svg>;
 const IconSettings = () => <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M12.22 2h-.44a2 2 0 0 0-2 2v.18a2 2 0 0 1-1 1.73l-.43.25a2 2 0 0 1-2 0l-.15-.08a2 2 0 0 0-2.73.73l-.22.38a2 2 0 0 0 .73 2.73l.15.1a2 2 0 0 1 0 2l-.15.08a2 2 0 0 0-.73 2.73l.22.38a2 2 0 0 0 2.73.73l.15-.08a2 2 0 0 1 2 0l.43.25a2 2 0 0 1 1 1.73V20a2 2 0 0 0 2 2h.44a2 2 0 0 0 2-2v-.18a2 2 0 0 1 1-1.73l.43-.25a2 2 0 0 1 2 0l.15.08a2 2 0 0 0 2.73-.73l-.22-.38a2 2 0 0 0-.73-2.73l-.15-.08a2 2 0 0 1 0 2l.15.08a2 2 0 0 0 .73-2.73l-.22-.38a2 2 0 0 0-2.73-.73l-.15.08a2 2 0 0 1-2 0l-.43-.25a2 2 0 0 1-1-1.73V4a2 2 0 0 0-2-2z"/><circle cx="12" cy="12" r="3"/></svg>;
 const IconGift = () => <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><polyline points="20 12 20 22 4 22 4 12"/><rect x="2" y="7" width="20" height="5"/><line x1="12" y1="22" x2="12" y2="7"/><path d="M12 7H7.5a2.5 2.5 0 0 1 0-5C11 2 12 7 12 7z"/><path d="M12 7h4.5a2.5 2.5 0 0 0 0-5C13 2 12 7 12 7z"/></svg>;
@@ -147,6 +190,8 @@ interface AppContextType {
     setHomeTab: (tab: HomeTab) => void;
     theme: Theme;
     toggleTheme: () => void;
+    speechSettings: SpeechSettings;
+    updateSpeechSettings: (changes: Partial<SpeechSettings>) => void;
     isMobile: boolean;
     isMobileMenuOpen: boolean;
     setIsMobileMenuOpen: (isOpen: boolean) => void;
@@ -156,9 +201,11 @@ interface AppContextType {
     generationError: string | null;
     generationFilters: GenerationFilters | null;
     currentCase: DiagnosticCase | null;
-    handleStartNewCase: (caseData: DiagnosticCase) => void;
-    handleGenerateAndStart: (filters: GenerationFilters) => Promise<void>;
+    activeAssignmentId: string | null; // set when the current case was launched from an assignment
+    handleStartNewCase: (caseData: DiagnosticCase, assignmentId?: string | null) => void;
+    handleGenerateAndStart: (filters: GenerationFilters, assignmentId?: string | null) => Promise<void>;
     handleRegenerateCase: () => Promise<void>;
+    handleLaunchSavedCase: (caseData: DiagnosticCase, assignmentId?: string | null) => Promise<void>;
     
     // SOAP Note
     soapNote: string | null;
@@ -179,6 +226,14 @@ interface AppContextType {
     unreadCount: number;
     markNotificationAsRead: (notificationId: number) => Promise<void>;
     markAllNotificationsAsRead: () => Promise<void>;
+    archiveNotification: (notification: Notification, archived: boolean) => Promise<boolean>;
+    deleteNotification: (notification: Notification) => Promise<boolean>;
+    openNotificationLink: (link: string) => void;
+
+    // Achievements
+    focusedAchievementId: string | null;
+    openAchievements: (achievementId?: string | null) => void;
+    checkAchievements: () => Promise<void>;
 }
 
 const AppContext = createContext<AppContextType | null>(null);
@@ -224,6 +279,7 @@ const AppContextProvider = ({ children }: { children: ReactNode }) => {
     const [page, setPage] = useState<Page>('home');
     const [homeTab, setHomeTab] = useState<HomeTab>('home');
     const [theme, setTheme] = useState<Theme>('light');
+    const [speechSettings, setSpeechSettings] = useState<SpeechSettings>(DEFAULT_SPEECH_SETTINGS);
     const [isMobile, setIsMobile] = useState(window.innerWidth <= 800);
     const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
     
@@ -232,6 +288,7 @@ const AppContextProvider = ({ children }: { children: ReactNode }) => {
     const [generationError, setGenerationError] = useState<string | null>(null);
     const [generationFilters, setGenerationFilters] = useState<GenerationFilters | null>(null);
     const [currentCase, setCurrentCase] = useState<DiagnosticCase | null>(null);
+    const [activeAssignmentId, setActiveAssignmentId] = useState<string | null>(null);
     
     // SOAP Note State
     const [soapNote, setSoapNote] = useState<string | null>(null);
@@ -249,9 +306,20 @@ const AppContextProvider = ({ children }: { children: ReactNode }) => {
     const [notifications, setNotifications] = useState<Notification[]>([]);
     const [unreadCount, setUnreadCount] = useState(0);
 
+    // Achievement State
+    const [focusedAchievementId, setFocusedAchievementId] = useState<string | null>(null);
+
     const toggleTheme = () => {
         setTheme(prev => (prev === 'light' ? 'dark' : 'light'));
     };
+
+    const updateSpeechSettings = (changes: Partial<SpeechSettings>) => {
+        setSpeechSettings(prev => {
+            const next = { ...prev, ...changes };
+            localStorage.setItem(SPEECH_SETTINGS_STORAGE_KEY, JSON.stringify(next));
+            return next;
+        });
+    };
     
     const getHintCount = useCallback(() => {
         try {
@@ -268,9 +336,10 @@ const AppContextProvider = ({ children }: { children: ReactNode }) => {
     const fetchAllUserData = async (user: User) => {
         try {
             const userId = user.id;
-            const [profileData, notificationsData] = await Promise.all([
+            const [profileData, notificationsData, unread] = await Promise.all([
                 getUserProfile(userId),
                 getNotifications(userId),
+                countUnreadNotifications(userId),
             ]);
 
             if (profileData) {
@@ -284,7 +353,7 @@ const AppContextProvider = ({ children }: { children: ReactNode }) => {
             }
             
             setNotifications(notificationsData);
-            setUnreadCount(notificationsData.filter(n => !n.is_read).length);
+            setUnreadCount(unread);
         } catch (error) {
             console.error("Failed to fetch user data", error);
             setAuthError("Could not load your profile data.");
@@ -332,9 +401,13 @@ const AppContextProvider = ({ children }: { children: ReactNode }) => {
             setIsAuthLoading(false);
         });
 
-        // Load Theme & Hint Count
+        // Load Theme, Speech Settings & Hint Count
         const savedTheme = localStorage.getItem('theme') as Theme;
         if (savedTheme) setTheme(savedTheme);
+        try {
+            const savedSpeechSettings = localStorage.getItem(SPEECH_SETTINGS_STORAGE_KEY);
+            if (savedSpeechSettings) setSpeechSettings({ ...DEFAULT_SPEECH_SETTINGS, ...JSON.parse(savedSpeechSettings) });
+        } catch (error) { console.error("Failed to load speech settings", error); }
         setHintCount(getHintCount());
 
         return () => {
@@ -343,6 +416,36 @@ const AppContextProvider = ({ children }: { children: ReactNode }) => {
         }
     }, [getHintCount]);
 
+    // Live notifications. The menu holds the newest page, so inserts go on top and archived or
+    // deleted rows drop out; the unread count is re-read from the server rather than adjusted,
+    // since the list doesn't hold every unread row.
+    const userId = session?.user?.id;
+    const refreshUnreadCount = useCallback(() => {
+        if (userId) countUnreadNotifications(userId).then(setUnreadCount);
+    }, [userId]);
+
+    useEffect(() => {
+        if (!userId) return;
+        return subscribeToNotifications(userId, {
+            onInsert: notification => {
+                if (!notification.archived_at) {
+                    setNotifications(prev => prev.some(n => n.id === notification.id) ? prev : [notification, ...prev]);
+                }
+                refreshUnreadCount();
+            },
+            onUpdate: notification => {
+                setNotifications(prev => notification.archived_at
+                    ? prev.filter(n => n.id !== notification.id)
+                    : prev.map(n => n.id === notification.id ? notification : n));
+                refreshUnreadCount();
+            },
+            onDelete: notificationId => {
+                setNotifications(prev => prev.filter(n => n.id !== notificationId));
+                refreshUnreadCount();
+            },
+        });
+    }, [userId, refreshUnreadCount]);
+
     useEffect(() => {
         document.documentElement.setAttribute('data-theme', theme);
         localStorage.setItem('theme', theme);
@@ -402,9 +505,65 @@ const AppContextProvider = ({ children }: { children: ReactNode }) => {
         }
     };
 
+    const archiveNotification = async (notification: Notification, archived: boolean) => {
+        if (!session?.user) return false;
+        const originalNotifications = notifications;
+        if (archived) setNotifications(prev => prev.filter(n => n.id !== notification.id));
+
+        const success = await setNotificationArchived(notification.id, session.user.id, archived);
+        if (!success) setNotifications(originalNotifications);
+        refreshUnreadCount();
+        return success;
+    };
+
+    const deleteNotification = async (notification: Notification) => {
+        if (!session?.user) return false;
+        const originalNotifications = notifications;
+        setNotifications(prev => prev.filter(n => n.id !== notification.id));
+
+        const success = await supabaseDeleteNotification(notification.id, session.user.id);
+        if (!success) setNotifications(originalNotifications);
+        refreshUnreadCount();
+        return success;
+    };
+
+    // In-app links are '#'-prefixed: '#achievements/<id>' opens a badge, anything else names a home tab.
+    const openNotificationLink = (link: string) => {
+        const achievementId = parseAchievementLink(link);
+        if (achievementId !== null) {
+            openAchievements(achievementId || null);
+        } else if (link.startsWith('#')) {
+            setPage('home');
+            setHomeTab(link.substring(1) as HomeTab);
+        } else {
+            window.open(link, '_blank');
+        }
+    };
+
+    const openAchievements = (achievementId: string | null = null) => {
+        setFocusedAchievementId(achievementId);
+        setPage('achievements');
+    };
+
+    // Re-runs the achievement rules over the learner's full history after a case is saved.
+    const checkAchievements = async () => {
+        if (!session?.user) return;
+        const userId = session.user.id;
+        const [attempts, earned] = await Promise.all([getCaseAttempts(userId), getEarnedAchievements(userId)]);
+        const achievements = newlyEarnedAchievements(attempts, earned.map(e => e.achievement_id));
+        const awarded = await awardAchievements(userId, achievements.map(achievement => ({
+            achievementId: achievement.id,
+            notification: buildAchievementNotification(achievement),
+        })));
+        if (awarded.length === 0) return;
+        // The realtime channel may have delivered some of these already.
+        setNotifications(prev => [...awarded.filter(a => !prev.some(n => n.id === a.id)), ...prev]);
+        refreshUnreadCount();
+    };
+
     const loadPatientVideos = async (profile: DiagnosticCase['patientProfile']) => {
         try {
-            // Use LLM to pick the best avatar. This returns a pair of guaranteed-to-match video IDs.
+            // Returns an idle/talking pair of the same person, or null IDs when nothing fits.
             const videoData = await pickBestVideo(profile);
             
             if (!videoData.idle || !videoData.talking) {
@@ -419,36 +578,41 @@ const AppContextProvider = ({ children }: { children: ReactNode }) => {
         }
     };
 
-    const handleStartNewCase = useCallback((caseData: DiagnosticCase) => {
+    const handleStartNewCase = useCallback((caseData: DiagnosticCase, assignmentId: string | null = null) => {
         if (!caseData?.title) {
             console.error("handleStartNewCase was called with invalid data.");
             return;
         }
         setCurrentCase(caseData);
+        setActiveAssignmentId(assignmentId);
         setSoapNote(null);
         setHintCount(getHintCount()); // Reset hint count for new case from storage
         setPage('simulation');
     }, [getHintCount]);
     
-    const handleGenerateAndStart = async (filters: GenerationFilters) => {
+    const handleGenerateAndStart = async (filters: GenerationFilters, assignmentId: string | null = null) => {
         setGenerationFilters(filters);
         setIsGenerating(true);
         setGenerationError(null);
         try {
             let filtersForGeneration = { ...filters };
 
-            // If no specialty is selected by the user, have the AI pick one.
+            // If no specialty is selected by the user, let the recommender pick one from their past attempts.
             // This ensures the fun facts are relevant even for random cases.
             if (!filtersForGeneration.specialties || filtersForGeneration.specialties.length === 0) {
-                const pickedSpecialty = await pickSpecialtyForCase(filters.trainingPhase);
-                filtersForGeneration.specialties = [pickedSpecialty];
+                const attempts = session?.user ? await getCaseAttempts(session.user.id) : [];
+                filtersForGeneration.specialties = [recommendCase(attempts).specialty];
                 // Update the context again so the splash screen can react and show specialty-specific facts.
                 setGenerationFilters(filtersForGeneration);
             }
             
             const newCase = await generateCase(filtersForGeneration);
+            if (session?.user) {
+                // Save to the case library in the background; a failed save shouldn't block the simulation.
+                saveCase(session.user.id, newCase).catch(error => console.error("Failed to save case to library:", error));
+            }
             await loadPatientVideos(newCase.patientProfile);
-            handleStartNewCase(newCase);
+            handleStartNewCase(newCase, assignmentId);
         } catch (error) {
             console.error("Case generation failed:", error);
             setGenerationError(`Failed to prepare the simulation. ${error instanceof Error ? error.message : "An unknown error occurred."}`);
@@ -457,6 +621,11 @@ const AppContextProvider = ({ children }: { children: ReactNode }) => {
         }
     };
 
+    const handleLaunchSavedCase = async (caseData: DiagnosticCase, assignmentId: string | null = null) => {
+        await loadPatientVideos(caseData.patientProfile);
+        handleStartNewCase(caseData, assignmentId);
+    };
+
     const handleRegenerateCase = async () => {
         if (currentCase?.tags) {
             await handleGenerateAndStart({
@@ -489,12 +658,13 @@ const AppContextProvider = ({ children }: { children: ReactNode }) => {
 
     const value = {
         session, profile, isAuthLoading, authError, setProfile, handleSignOut, updateUserTrainingPhase,
-        page, setPage, homeTab, setHomeTab, theme, toggleTheme, isMobile, isMobileMenuOpen, setIsMobileMenuOpen,
-        isGenerating, generationError, generationFilters, currentCase, handleStartNewCase, handleGenerateAndStart, handleRegenerateCase,
+        page, setPage, homeTab, setHomeTab, theme, toggleTheme, speechSettings, updateSpeechSettings, isMobile, isMobileMenuOpen, setIsMobileMenuOpen,
+        isGenerating, generationError, generationFilters, currentCase, activeAssignmentId, handleStartNewCase, handleGenerateAndStart, handleRegenerateCase, handleLaunchSavedCase,
         soapNote, isGeneratingSoapNote, soapNoteError, handleGenerateSoapNote,
         hintCount, getHintCount, updateHintCount,
         patientVideos,
-        notifications, unreadCount, markNotificationAsRead, markAllNotificationsAsRead
+        notifications, unreadCount, markNotificationAsRead, markAllNotificationsAsRead, archiveNotification, deleteNotification, openNotificationLink,
+        focusedAchievementId, openAchievements, checkAchievements
     };
 
     return <AppContext.Provider value={value}>{children}</AppContext.Provider>;
@@ -513,7 +683,7 @@ const NotificationIcon = ({ type }: { type: NotificationType }) => {
 const NotificationMenu = () => {
     const { 
         notifications, unreadCount, markNotificationAsRead, markAllNotificationsAsRead, 
-        setPage, setHomeTab 
+        setPage, openNotificationLink
     } = useAppContext();
     const [isOpen, setIsOpen] = useState(false);
     const menuRef = useRef<HTMLDivElement>(null);
@@ -534,16 +704,15 @@ const NotificationMenu = () => {
         }
         
         if (notification.link) {
-            if (notification.link.startsWith('#')) {
-                const tab = notification.link.substring(1) as HomeTab;
-                setPage('home');
-                setHomeTab(tab);
-                setIsOpen(false);
-            } else {
-                window.open(notification.link, '_blank');
-            }
+            openNotificationLink(notification.link);
+            setIsOpen(false);
         }
     };
+
+    const handleViewAll = () => {
+        setPage('notifications');
+        setIsOpen(false);
+    };
     
     return (
         <div className="notification-menu" ref={menuRef}>
@@ -575,13 +744,14 @@ const NotificationMenu = () => {
                         <div className="notification-empty">You have no new notifications.</div>
                     )}
                 </div>
+                <button className="notification-view-all" onClick={handleViewAll}>View all notifications</button>
             </div>
         </div>
     );
 };
 
 const ProfileMenu = () => {
-    const { profile, theme, toggleTheme, handleSignOut } = useAppContext();
+    const { profile, theme, toggleTheme, handleSignOut, openAchievements } = useAppContext();
     const [isOpen, setIsOpen] = useState(false);
     const menuRef = useRef<HTMLDivElement>(null);
 
@@ -607,6 +777,10 @@ const ProfileMenu = () => {
                     <h4>{profile.full_name || 'User'}</h4>
                     <p>{profile.email}</p>
                 </div>
+                <button role="menuitem" className="dropdown-item" onClick={() => { openAchievements(); setIsOpen(false); }}>
+                    <IconAward />
+                    <span>Achievements</span>
+                </button>
                 <button role="menuitem" className="dropdown-item theme-toggle-item" onClick={toggleTheme}>
                     <div className="theme-switch">
                         {theme === 'light' ? <IconMoon /> : <IconSun />}
@@ -624,7 +798,7 @@ const ProfileMenu = () => {
 }
 
 const MobileProfileMenu = ({ onClose }: { onClose: () => void }) => {
-    const { profile, theme, toggleTheme, handleSignOut, setHomeTab } = useAppContext();
+    const { profile, theme, toggleTheme, handleSignOut, setHomeTab, openAchievements } = useAppContext();
 
     if (!profile) return null;
 
@@ -638,6 +812,10 @@ const MobileProfileMenu = ({ onClose }: { onClose: () => void }) => {
                 </div>
                 <div className="mobile-menu-body">
                      <div className="mobile-menu-section">
+                        <button className="mobile-menu-item" onClick={() => { openAchievements(); onClose(); }}>
+                            <IconAward />
+                            <span>Achievements</span>
+                        </button>
                         <button className="mobile-menu-item" onClick={() => { toggleTheme(); onClose(); }}>
                             {theme === 'light' ? <IconMoon /> : <IconSun />}
                             <span>Switch to {theme === 'light' ? 'Dark' : 'Light'} Theme</span>
@@ -814,6 +992,37 @@ const AuthPage = () => {
     );
 };
 
+// Drops chosen competencies that no longer belong to any of the chosen specialties.
+const withCompatibleCompetencies = (filters: Partial<GenerationFilters>): Partial<GenerationFilters> => {
+    if (!filters.competencies?.length) return filters;
+    const available = competenciesForSpecialties(filters.specialties).map(c => c.code);
+    return { ...filters, competencies: filters.competencies.filter(c => available.includes(c)) };
+};
+
+const CompetencySelect = ({ value, onChange, specialties, placeholder = 'Any competency', className = '' }: {
+    value: string,
+    onChange: (code: string) => void,
+    specialties?: Specialty[],
+    placeholder?: string,
+    className?: string
+}) => {
+    const competencies = competenciesForSpecialties(specialties);
+    return (
+        <select className={`input-field competency-select ${className}`} value={value} onChange={e => onChange(e.target.value)} aria-label="NMC competency">
+            <option value="">{placeholder}</option>
+            {COMPETENCY_SUBJECTS.map(subject => {
+                const entries = competencies.filter(c => c.subject === subject);
+                if (entries.length === 0) return null;
+                return (
+                    <optgroup key={subject} label={subject}>
+                        {entries.map(c => <option key={c.code} value={c.code} title={c.description}>{c.code}: {c.description}</option>)}
+                    </optgroup>
+                );
+            })}
+        </select>
+    );
+};
+
 const FilterSidebar = ({ filters, onFilterChange, hideTitle = false, className = '' }: {
     filters: Partial<GenerationFilters>,
     onFilterChange: React.Dispatch<React.SetStateAction<Partial<GenerationFilters>>>,
@@ -832,7 +1041,7 @@ const FilterSidebar = ({ filters, onFilterChange, hideTitle = false, className =
             const newValues = currentValues.includes(value)
                 ? currentValues.filter(v => v !== value)
                 : [...currentValues, value];
-            return { ...prev, [filterKey]: newValues };
+            return withCompatibleCompetencies({ ...prev, [filterKey]: newValues });
         });
     };
 
@@ -864,6 +1073,13 @@ const FilterSidebar = ({ filters, onFilterChange, hideTitle = false, className =
                     {ALL_EPAS.map(e => <label key={e}><input type="checkbox" checked={filters.epas?.includes(e)} onChange={() => handleMultiSelectChange('epas', e)} />{e.replace('-', ' ')}</label>)}
                 </div>
             </AccordionSectionFilter>
+            <AccordionSectionFilter title="NMC Competency">
+                <CompetencySelect
+                    value={filters.competencies?.[0] ?? ''}
+                    specialties={filters.specialties}
+                    onChange={code => onFilterChange(p => ({ ...p, competencies: code ? [code] : [] }))}
+                />
+            </AccordionSectionFilter>
             <div className="filter-group challenge-mode">
                 <label>
                     <input type="checkbox" checked={filters.challengeMode} onChange={e => onFilterChange(p => ({...p, challengeMode: e.target.checked}))} />
@@ -875,11 +1091,12 @@ const FilterSidebar = ({ filters, onFilterChange, hideTitle = false, className =
     );
 };
 
-const CustomCaseSummary = ({ filters, onRemoveFilter }: { filters: Partial<GenerationFilters>, onRemoveFilter: (filterKey: 'specialties' | 'epas', value: string) => void }) => {
-    const { specialties = [], epas = [] } = filters;
+const CustomCaseSummary = ({ filters, onRemoveFilter }: { filters: Partial<GenerationFilters>, onRemoveFilter: (filterKey: 'specialties' | 'epas' | 'competencies', value: string) => void }) => {
+    const { specialties = [], epas = [], competencies = [] } = filters;
     const allFilters = [
         ...specialties.map(s => ({ key: 'specialties' as const, value: s })),
         ...epas.map(e => ({ key: 'epas' as const, value: e })),
+        ...competencies.map(c => ({ key: 'competencies' as const, value: c })),
     ];
 
     const hasFilters = allFilters.length > 0;
@@ -890,7 +1107,7 @@ const CustomCaseSummary = ({ filters, onRemoveFilter }: { filters: Partial<Gener
             <p>
                 {hasFilters ? (
                     <>
-                        You will be seeing a patient from <strong>{specialties.length > 0 ? specialties.join(', ') : 'any specialty'}</strong> with a focus on <strong>{epas.length > 0 ? epas.join(', ') : 'any EPA'}</strong>.
+                        You will be seeing a patient from <strong>{specialties.length > 0 ? specialties.join(', ') : 'any specialty'}</strong> with a focus on <strong>{epas.length > 0 ? epas.join(', ') : 'any EPA'}</strong>{competencies.length > 0 && <>, covering <strong>{competencies.map(formatCompetency).join('; ')}</strong></>}.
                     </>
                 ) : (
                     "You will be seeing a random patient based on your profile. Use the filters to customize."
@@ -899,7 +1116,7 @@ const CustomCaseSummary = ({ filters, onRemoveFilter }: { filters: Partial<Gener
             {hasFilters && (
                 <div className="filter-pills-container">
                     {allFilters.map(({ key, value }) => (
-                        <span key={`${key}-${value}`} className="filter-pill">
+                        <span key={`${key}-${value}`} className="filter-pill" title={key === 'competencies' ? formatCompetency(value) : undefined}>
                             {value}
                             <button onClick={() => onRemoveFilter(key, value)}><IconX className="filter-pill-remove" /></button>
                         </span>
@@ -977,12 +1194,59 @@ const SelectionList = ({ items, selectedItems, onSelect }: { items: { id: string
     );
 };
 
+const RecommendedCaseCard = () => {
+    const { session, profile, handleGenerateAndStart, isGenerating } = useAppContext();
+    const [recommendation, setRecommendation] = useState<CaseRecommendation | null>(null);
+
+    useEffect(() => {
+        if (!session?.user) return;
+        let isMounted = true;
+        getCaseAttempts(session.user.id).then(attempts => {
+            if (isMounted) setRecommendation(recommendCase(attempts));
+        });
+        return () => { isMounted = false; };
+    }, [session]);
+
+    if (!recommendation) return null;
+
+    const handleStart = () => {
+        if (!profile?.training_phase) return;
+        handleGenerateAndStart({
+            trainingPhase: profile.training_phase as TrainingPhase,
+            specialties: [recommendation.specialty],
+            epas: recommendation.epas,
+            challengeMode: recommendation.challengeMode,
+        });
+    };
+
+    return (
+        <div className="recommended-case">
+            <div className="recommended-case-header">
+                <IconSparkles />
+                <h3>Recommended for you</h3>
+            </div>
+            <div className="case-tags">
+                <span className="tag-badge tag-specialty">{recommendation.specialty}</span>
+                {recommendation.epas.map(epa => <span key={epa} className="tag-badge tag-epa">{epa}</span>)}
+                {recommendation.challengeMode && <span className="tag-badge tag-skill">Challenge Mode</span>}
+            </div>
+            <ul className="recommended-case-reasons">
+                {recommendation.reasons.map(reason => <li key={reason}>{reason}</li>)}
+            </ul>
+            <button className="button button-outline" onClick={handleStart} disabled={isGenerating || !profile?.training_phase}>
+                Start Recommended Case
+            </button>
+        </div>
+    );
+};
+
 const NewCaseTab = () => {
     const { profile, handleGenerateAndStart, isGenerating, generationError, isMobile, setHomeTab } = useAppContext();
     const [filters, setFilters] = useState<Partial<GenerationFilters>>({
         trainingPhase: profile?.training_phase || undefined,
         specialties: [],
         epas: [],
+        competencies: [],
         challengeMode: false,
     });
     const [simSetupTab, setSimSetupTab] = useState<'Phase' | 'Specialty' | 'EPA'>('Phase');
@@ -993,13 +1257,13 @@ const NewCaseTab = () => {
         }
     }, [profile]);
 
-    const handleMultiSelectChange = (filterKey: 'specialties' | 'epas', value: string) => {
+    const handleMultiSelectChange = (filterKey: 'specialties' | 'epas' | 'competencies', value: string) => {
         setFilters(prev => {
             const currentValues = (prev[filterKey] as string[]) || [];
             const newValues = currentValues.includes(value)
                 ? currentValues.filter(v => v !== value)
                 : [...currentValues, value];
-            return { ...prev, [filterKey]: newValues };
+            return withCompatibleCompetencies({ ...prev, [filterKey]: newValues });
         });
     };
 
@@ -1028,6 +1292,7 @@ const NewCaseTab = () => {
             trainingPhase: profile.training_phase as TrainingPhase,
             specialties: filters.specialties,
             epas: filters.epas,
+            competencies: filters.competencies,
             challengeMode: filters.challengeMode,
         });
     };
@@ -1073,6 +1338,7 @@ const NewCaseTab = () => {
                     )}
                     {simSetupTab === 'Specialty' && (
                         <div className="specialty-section mobile">
+                            <RecommendedCaseCard />
                             <h2>Choose your Specialty</h2>
                             <SelectionList items={specialtyItems} selectedItems={filters.specialties || []} onSelect={(id) => handleMultiSelectChange('specialties', id)} />
                         </div>
@@ -1082,6 +1348,13 @@ const NewCaseTab = () => {
                             <h2>EPA Focus</h2>
                             <SelectionList items={epaItems} selectedItems={filters.epas || []} onSelect={(id) => handleMultiSelectChange('epas', id)} />
 
+                            <h2>NMC Competency</h2>
+                            <CompetencySelect
+                                value={filters.competencies?.[0] ?? ''}
+                                specialties={filters.specialties}
+                                onChange={code => setFilters(p => ({ ...p, competencies: code ? [code] : [] }))}
+                            />
+
                             <div className="challenge-mode-mobile">
                                 <div className="challenge-mode-text">
                                     <h3>Challenge mode</h3>
@@ -1126,6 +1399,8 @@ const NewCaseTab = () => {
                 <div className="custom-case-generation">
                     <h2>2. Configure & Start Simulation</h2>
                     
+                    <RecommendedCaseCard />
+
                     <CustomCaseSummary filters={filters} onRemoveFilter={(key, val) => handleMultiSelectChange(key, val)} />
 
                     <button
@@ -1205,12 +1480,454 @@ const StartSimCard = ({ onStart }: { onStart: () => void }) => (
     </div>
 );
 
+const ReviewDeckCard = () => {
+    const { session, setPage } = useAppContext();
+    const [dueCount, setDueCount] = useState<number | null>(null);
+
+    useEffect(() => {
+        if (!session?.user) return;
+        let isMounted = true;
+        countDueReviewCards(session.user.id).then(count => {
+            if (isMounted) setDueCount(count);
+        });
+        return () => { isMounted = false; };
+    }, [session]);
+
+    if (dueCount === null) return null;
+
+    return (
+        <div className="review-deck-card">
+            <div>
+                <h3>Daily Review</h3>
+                <p>{dueCount > 0
+                    ? `${dueCount} question${dueCount === 1 ? '' : 's'} you missed or guessed ${dueCount === 1 ? 'is' : 'are'} due for review.`
+                    : 'Nothing due today. Questions you miss or guess are scheduled here.'}</p>
+            </div>
+            <button className="button button-primary" onClick={() => setPage('review')} disabled={dueCount === 0}>
+                Start Review
+            </button>
+        </div>
+    );
+};
+
+// The exam in progress is kept in localStorage, so the clock and locked answers survive a reload.
+const mockExamStorageKey = (userId: string) => `mockExam_${userId}`;
+
+const loadStoredExam = (userId: string): MockExam | null => {
+    try {
+        const saved = localStorage.getItem(mockExamStorageKey(userId));
+        return saved ? JSON.parse(saved) : null;
+    } catch (error) {
+        console.error("Failed to parse the stored mock exam. Clearing it.", error);
+        localStorage.removeItem(mockExamStorageKey(userId));
+        return null;
+    }
+};
+
+const formatClock = (ms: number) => {
+    const totalSeconds = Math.ceil(ms / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    return `${minutes}:${String(totalSeconds % 60).padStart(2, '0')}`;
+};
+
+const examQuestionCount = () => {
+    const cases = MOCK_EXAM_BLUEPRINT.entries.reduce((sum, e) => sum + e.cases, 0) + (MOCK_EXAM_BLUEPRINT.electives.length > 0 ? 1 : 0);
+    return { cases, questions: cases * 4 }; // a diagnosis question and three MCQs per case
+};
+
+const MockExamCard = () => {
+    const { session, setPage } = useAppContext();
+    const storedExam = session?.user ? loadStoredExam(session.user.id) : null;
+    const isInProgress = storedExam !== null && !isExamOver(storedExam);
+    const { cases, questions } = examQuestionCount();
+
+    return (
+        <div className="review-deck-card mock-exam-card">
+            <div>
+                <h3>NExT/FMGE Mock Exam</h3>
+                <p>{isInProgress
+                    ? `You have an exam in progress with ${formatClock(examRemainingMs(storedExam))} left on the clock.`
+                    : `${cases} cases and about ${questions} questions across the major subjects, timed, with no hints.`}</p>
+            </div>
+            <button className="button button-primary" onClick={() => setPage('exam')}>
+                {isInProgress ? 'Resume Exam' : storedExam ? 'View Results' : 'Take Mock Exam'}
+            </button>
+        </div>
+    );
+};
+
+const QuestionBankCard = () => {
+    const { setPage } = useAppContext();
+    return (
+        <div className="review-deck-card">
+            <div>
+                <h3>Question Bank</h3>
+                <p>Just the MCQs: practise questions from your cases, or generate new ones, in tutor or test mode.</p>
+            </div>
+            <button className="button button-primary" onClick={() => setPage('questionBank')}>Practise MCQs</button>
+        </div>
+    );
+};
+
+const ASSIGNMENT_STATUS_LABELS: Record<AssignmentStatus, string> = {
+    completed: 'Completed',
+    late: 'Completed late',
+    pending: 'Due',
+    overdue: 'Overdue',
+};
+
+const formatDueDate = (isoDate: string) => new Date(isoDate).toLocaleString(undefined, { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+// Invitations to join a cohort, and the cases faculty have assigned to the student's cohorts.
+const MyAssignmentsCard = () => {
+    const { session, profile, handleLaunchSavedCase, handleGenerateAndStart, isGenerating } = useAppContext();
+    const [invites, setInvites] = useState<CohortInvite[]>([]);
+    const [assignments, setAssignments] = useState<Assignment[]>([]);
+    const [attempts, setAttempts] = useState<AssignmentAttempt[]>([]);
+    const [startingId, setStartingId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const loadAssignments = useCallback((userId: string) => Promise.all([getStudentAssignments(userId), getCaseAttempts(userId)]), []);
+
+    useEffect(() => {
+        if (!session?.user || !profile?.email) return;
+        let isMounted = true;
+        Promise.all([getPendingInvites(profile.email), loadAssignments(session.user.id)]).then(([inviteData, [assignmentData, attemptData]]) => {
+            if (!isMounted) return;
+            setInvites(inviteData);
+            setAssignments(assignmentData);
+            setAttempts(attemptData);
+        });
+        return () => { isMounted = false; };
+    }, [session, profile?.email, loadAssignments]);
+
+    if (invites.length === 0 && assignments.length === 0) return null;
+
+    const handleRespond = async (invite: CohortInvite, accept: boolean) => {
+        if (!session?.user) return;
+        const success = await respondToInvite(invite, session.user.id, accept);
+        if (!success) return;
+        setInvites(prev => prev.filter(i => i.id !== invite.id));
+        if (accept) {
+            const [assignmentData, attemptData] = await loadAssignments(session.user.id);
+            setAssignments(assignmentData);
+            setAttempts(attemptData);
+        }
+    };
+
+    const handleStart = async (assignment: Assignment) => {
+        if (startingId || !profile?.training_phase) return;
+        setStartingId(assignment.id);
+        setError(null);
+        const preset = getAssignmentPreset(assignment);
+        if (assignment.case_id) {
+            const assignedCase = await getAssignedCase(assignment.case_id);
+            if (assignedCase) {
+                await handleLaunchSavedCase(assignedCase, assignment.id);
+            } else {
+                setError("This case couldn't be loaded. Ask your faculty to check the assignment.");
+            }
+        } else {
+            await handleGenerateAndStart({ trainingPhase: profile.training_phase as TrainingPhase, ...preset }, assignment.id);
+        }
+        setStartingId(null);
+    };
+
+    return (
+        <div className="assignments-card">
+            <h3>My Assignments</h3>
+            {invites.map(invite => (
+                <div key={invite.id} className="assignment-item assignment-invite">
+                    <div>
+                        <strong>Invitation to join {invite.cohort_name}</strong>
+                        <p>Joining lets your faculty assign cases to you and see your scores on them.</p>
+                    </div>
+                    <div className="assignment-actions">
+                        <button className="button button-outline" onClick={() => handleRespond(invite, false)}>Decline</button>
+                        <button className="button button-primary" onClick={() => handleRespond(invite, true)}>Join</button>
+                    </div>
+                </div>
+            ))}
+            {assignments.map(assignment => {
+                const status = assignmentStatus(assignment, attempts);
+                return (
+                    <div key={assignment.id} className="assignment-item">
+                        <div>
+                            <strong>{assignment.title}</strong>
+                            <p>{describeAssignment(assignment)} &middot; due {formatDueDate(assignment.due_at)}</p>
+                            {assignment.instructions && <p className="assignment-instructions">{assignment.instructions}</p>}
+                        </div>
+                        <div className="assignment-actions">
+                            <span className={`assignment-status ${status}`}>{ASSIGNMENT_STATUS_LABELS[status]}</span>
+                            <button className="button button-primary" onClick={() => handleStart(assignment)} disabled={isGenerating || startingId !== null || !profile?.training_phase}>
+                                {startingId === assignment.id && <div className="loading-spinner"></div>}
+                                {status === 'completed' || status === 'late' ? 'Try Again' : 'Start'}
+                            </button>
+                        </div>
+                    </div>
+                );
+            })}
+            {error && <p className="alert alert-error">{error}</p>}
+        </div>
+    );
+};
+
+const FacultyCard = () => {
+    const { profile, setPage } = useAppContext();
+    if (profile?.role !== 'faculty') return null;
+    return (
+        <div className="review-deck-card">
+            <div>
+                <h3>Faculty</h3>
+                <p>Manage your cohorts, assign cases and follow each student's completion and scores.</p>
+            </div>
+            <button className="button button-primary" onClick={() => setPage('faculty')}>Open Faculty View</button>
+        </div>
+    );
+};
+
 const AivanaFooter = () => (
     <div className="aivana-footer">
         from <strong>Aivana</strong>
     </div>
 );
 
+const CaseLibrary = () => {
+    const { session, handleLaunchSavedCase, isGenerating } = useAppContext();
+    const [cases, setCases] = useState<SavedCase[]>([]);
+    const [filters, setFilters] = useState<CaseLibraryFilters>({});
+    const [isLoading, setIsLoading] = useState(true);
+    const [launchingCaseId, setLaunchingCaseId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!session?.user) return;
+        let isMounted = true;
+        setIsLoading(true);
+        getCases(session.user.id, filters).then(data => {
+            if (!isMounted) return;
+            setCases(data);
+            setIsLoading(false);
+        });
+        return () => { isMounted = false; };
+    }, [session, filters]);
+
+    // Each dropdown narrows one CaseTags field; an empty value clears that filter.
+    const handleFilterChange = (filterKey: keyof CaseLibraryFilters, value: string) => {
+        setFilters(prev => ({ ...prev, [filterKey]: value ? [value] : undefined }));
+    };
+
+    const handleLaunch = async (savedCase: SavedCase) => {
+        if (launchingCaseId) return;
+        setLaunchingCaseId(savedCase.id);
+        setError(null);
+        try {
+            await handleLaunchSavedCase(savedCase);
+        } catch (error) {
+            console.error("Failed to relaunch case:", error);
+            setError(`Failed to relaunch the case. ${error instanceof Error ? error.message : "An unknown error occurred."}`);
+        } finally {
+            setLaunchingCaseId(null);
+        }
+    };
+
+    const handleDelete = async (caseId: string) => {
+        if (!session?.user) return;
+        // Optimistically update UI
+        const originalCases = cases;
+        setCases(prev => prev.filter(c => c.id !== caseId));
+        const success = await deleteCase(caseId, session.user.id);
+        if (!success) {
+            // Revert on failure
+            setCases(originalCases);
+        }
+    };
+
+    const filterOptions: { key: keyof CaseLibraryFilters; label: string; options: string[] }[] = [
+        { key: 'specialties', label: 'All specialties', options: ALL_SPECIALTIES },
+        { key: 'trainingPhases', label: 'All phases', options: ALL_TRAINING_PHASES },
+        { key: 'cognitiveSkills', label: 'All skills', options: ALL_COGNITIVE_SKILLS },
+        { key: 'epas', label: 'All EPAs', options: ALL_EPAS },
+    ];
+
+    return (
+        <div className="case-library">
+            <div className="case-library-header">
+                <h2>My Cases</h2>
+                <p>Revisit cases you've generated before.</p>
+            </div>
+            <div className="case-library-filters">
+                {filterOptions.map(({ key, label, options }) => (
+                    <select key={key} className="input-field" value={filters[key]?.[0] ?? ''} onChange={e => handleFilterChange(key, e.target.value)} aria-label={label}>
+                        <option value="">{label}</option>
+                        {options.map(option => <option key={option} value={option}>{option}</option>)}
+                    </select>
+                ))}
+                <CompetencySelect value={filters.competencies?.[0] ?? ''} onChange={code => handleFilterChange('competencies', code)} placeholder="All competencies" />
+            </div>
+            {error && <p className="alert alert-error">{error}</p>}
+            {isLoading ? (
+                <div className="case-library-loading"><div className="loading-spinner"></div></div>
+            ) : cases.length > 0 ? (
+                <div className="case-library-list">
+                    {cases.map(savedCase => (
+                        <div key={savedCase.id} className="case-library-item">
+                            <div className="case-library-item-content">
+                                <strong>{savedCase.title}</strong>
+                                <p>{savedCase.patientProfile.name}, {savedCase.patientProfile.age}, {savedCase.patientProfile.gender} &middot; {timeAgo(savedCase.created_at)}</p>
+                                <div className="case-tags">
+                                    <span className="tag-badge tag-specialty">{savedCase.tags.specialty}</span>
+                                    <span className="tag-badge tag-phase">{savedCase.tags.trainingPhase}</span>
+                                    <span className="tag-badge tag-skill">{savedCase.tags.cognitiveSkill}</span>
+                                    {savedCase.tags.epas.map(epa => <span key={epa} className="tag-badge tag-epa">{epa}</span>)}
+                                </div>
+                            </div>
+                            <div className="case-library-item-actions">
+                                <button className="button button-primary" onClick={() => handleLaunch(savedCase)} disabled={isGenerating || launchingCaseId !== null}>
+                                    {launchingCaseId === savedCase.id && <div className="loading-spinner"></div>}
+                                    Relaunch
+                                </button>
+                                <button className="icon-button" onClick={() => handleDelete(savedCase.id)} aria-label="Delete case">
+                                    <IconX />
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            ) : (
+                <div className="empty-state">No saved cases yet. Cases you generate will appear here.</div>
+            )}
+        </div>
+    );
+};
+
+const TrendChart = ({ trend }: { trend: ProgressPoint[] }) => {
+    const width = 120;
+    const height = 32;
+    if (trend.length < 2) {
+        return <span className="trend-chart-empty">{trend.length === 1 ? 'One week so far' : ''}</span>;
+    }
+    const points = trend.map((point, index) => {
+        const x = (index / (trend.length - 1)) * width;
+        const y = height - (point.accuracy / 100) * height;
+        return `${x.toFixed(1)},${y.toFixed(1)}`;
+    });
+    return (
+        <svg className="trend-chart" viewBox={`-2 -2 ${width + 4} ${height + 4}`} role="img" aria-label={`Weekly accuracy: ${trend.map(p => `${p.accuracy}%`).join(', ')}`}>
+            <polyline points={points.join(' ')} fill="none" stroke="currentColor" strokeWidth="2" strokeLinejoin="round" strokeLinecap="round" />
+        </svg>
+    );
+};
+
+const PROGRESS_DIMENSIONS: { key: ProgressDimension; label: string }[] = [
+    { key: 'specialty', label: 'Specialty' },
+    { key: 'epa', label: 'EPA' },
+    { key: 'trainingPhase', label: 'Phase' },
+    { key: 'competency', label: 'Competency' },
+];
+
+const CompetencyCoverageReport = ({ coverage }: { coverage: SubjectCoverage[] }) => (
+    <div className="competency-coverage">
+        <h3>Competency Coverage</h3>
+        {coverage.map(({ subject, practised, remaining }) => {
+            const total = practised.length + remaining.length;
+            return (
+                <div key={subject} className="competency-coverage-subject">
+                    <div className="progress-group-label">
+                        <strong>{subject}</strong>
+                        <span>{practised.length} of {total} practised</span>
+                    </div>
+                    <div className="debrief-bar"><div className="debrief-bar-fill" style={{ width: `${Math.round((practised.length / total) * 100)}%` }}></div></div>
+                    {practised.length > 0 && (
+                        <div className="competency-codes">
+                            {practised.map(c => <span key={c.code} className="competency-code practised" title={c.description}>{c.code}</span>)}
+                        </div>
+                    )}
+                    {remaining.length > 0 && (
+                        <details className="competency-remaining">
+                            <summary>{remaining.length} not yet practised</summary>
+                            <div className="competency-codes">
+                                {remaining.map(c => <span key={c.code} className="competency-code" title={c.description}>{c.code}</span>)}
+                            </div>
+                        </details>
+                    )}
+                </div>
+            );
+        })}
+    </div>
+);
+
+const ProgressDashboard = () => {
+    const { session } = useAppContext();
+    const [attempts, setAttempts] = useState<CaseAttempt[]>([]);
+    const [dimension, setDimension] = useState<ProgressDimension>('specialty');
+    const [isLoading, setIsLoading] = useState(true);
+
+    useEffect(() => {
+        if (!session?.user) return;
+        let isMounted = true;
+        setIsLoading(true);
+        getCaseAttempts(session.user.id).then(data => {
+            if (!isMounted) return;
+            setAttempts(data);
+            setIsLoading(false);
+        });
+        return () => { isMounted = false; };
+    }, [session]);
+
+    const overview = useMemo(() => summarizeOverview(attempts), [attempts]);
+    const groups = useMemo(() => summarizeProgress(attempts, dimension), [attempts, dimension]);
+    const competencyCoverage = useMemo(() => summarizeCompetencyCoverage(attempts.map(a => a.competency)), [attempts]);
+
+    return (
+        <div className="progress-dashboard">
+            <div className="case-library-header">
+                <h2>My Progress</h2>
+                <p>Accuracy across your finished cases, week by week.</p>
+            </div>
+            {isLoading ? (
+                <div className="case-library-loading"><div className="loading-spinner"></div></div>
+            ) : !overview ? (
+                <div className="empty-state">Finish a case to start tracking your progress.</div>
+            ) : (
+                <>
+                    <div className="progress-overview">
+                        <div className="progress-stat"><span>{overview.attempts}</span>Cases finished</div>
+                        <div className="progress-stat"><span>{overview.averageScore}%</span>Average score</div>
+                        <div className="progress-stat"><span>{overview.diagnosisAccuracy}%</span>Correct diagnoses</div>
+                        <div className="progress-stat progress-stat-trend"><TrendChart trend={overview.trend} />Overall trend</div>
+                    </div>
+                    <div className="treatment-kind-toggle">
+                        {PROGRESS_DIMENSIONS.map(({ key, label }) => (
+                            <button key={key} type="button" className={dimension === key ? 'active' : ''} onClick={() => setDimension(key)}>{label}</button>
+                        ))}
+                    </div>
+                    {groups.length > 0 ? (
+                        <div className="progress-groups">
+                            {groups.map(group => (
+                                <div key={group.label} className="progress-group">
+                                    <div className="progress-group-label">
+                                        <strong title={dimension === 'competency' ? formatCompetency(group.label) : group.label}>{group.label}</strong>
+                                        <span>{group.attempts} attempt{group.attempts === 1 ? '' : 's'}</span>
+                                    </div>
+                                    <div className="progress-group-accuracy">
+                                        <div className="debrief-bar"><div className="debrief-bar-fill" style={{ width: `${group.accuracy}%` }}></div></div>
+                                        <span>{group.accuracy}%</span>
+                                    </div>
+                                    <TrendChart trend={group.trend} />
+                                </div>
+                            ))}
+                        </div>
+                    ) : (
+                        <div className="empty-state">None of your finished cases assessed this yet.</div>
+                    )}
+                    {dimension === 'competency' && <CompetencyCoverageReport coverage={competencyCoverage} />}
+                </>
+            )}
+        </div>
+    );
+};
+
 const HomePage = () => {
     const { profile, homeTab, setHomeTab, isMobile } = useAppContext();
 
@@ -1223,6 +1940,13 @@ const HomePage = () => {
                     <div className="home-dashboard">
                         <PromoBanner />
                         <StartSimCard onStart={() => setHomeTab('case')} />
+                        <FacultyCard />
+                        <MyAssignmentsCard />
+                        <ReviewDeckCard />
+                        <MockExamCard />
+                        <QuestionBankCard />
+                        <ProgressDashboard />
+                        <CaseLibrary />
                         <AivanaFooter />
                     </div>
                 );
@@ -1249,9 +1973,20 @@ const HomePage = () => {
             
             <div className="home-page-layout">
                 <div className="home-page-main">
+                    <FacultyCard />
+                    <MyAssignmentsCard />
+                    <ReviewDeckCard />
+                    <MockExamCard />
+                    <QuestionBankCard />
                     <div className="home-content">
                        <NewCaseTab />
                     </div>
+                    <div className="home-content">
+                       <ProgressDashboard />
+                    </div>
+                    <div className="home-content">
+                       <CaseLibrary />
+                    </div>
                 </div>
             </div>
         </main>
@@ -1386,47 +2121,315 @@ const CaseTagsDisplay = ({ tags }: { tags: CaseTags | undefined }) => {
             </div>
             {curriculum && (
                 <div className="competency-display">
-                    <strong>Competency:</strong> {curriculum.competency}
+                    <strong>Competency:</strong> {formatCompetency(curriculum.competency)}
+                    {getCompetency(curriculum.competency) && <span className="competency-subject">{getCompetency(curriculum.competency).subject}</span>}
                 </div>
             )}
         </>
     );
 };
 
-const CaseInfoPanel = ({ currentCase }: { currentCase: DiagnosticCase | null }) => {
-    const { isMobile } = useAppContext();
+const RangeFlagBadge = ({ flag }: { flag: RangeFlag }) => {
+    if (flag === 'normal') return null;
+    return <span className={`range-flag range-flag-${flag}`} aria-label={flag === 'high' ? 'Above range' : 'Below range'}>{flag === 'high' ? 'H' : 'L'}</span>;
+};
 
-    if (!currentCase) {
-        return <div className="panel case-info-panel"><p>Loading case...</p></div>;
-    }
-    
+const VitalsTable = ({ vitals, age }: { vitals: Vitals, age: number }) => {
+    const ranges = getVitalReferenceRanges(age);
     return (
-        <div className="panel case-info-panel">
-             <div className="panel-header">
-                <h2>{currentCase.title}</h2>
-                <CaseTagsDisplay tags={currentCase.tags} />
-                <p className="case-subtitle">{currentCase.patientProfile.name}, {currentCase.patientProfile.age}, {currentCase.patientProfile.gender}</p>
-            </div>
-            <div className="panel-content">
+        <table className="findings-table">
+            <thead>
+                <tr><th>Vital</th><th>Value</th><th>Normal</th></tr>
+            </thead>
+            <tbody>
+                {VITAL_DEFINITIONS.map(({ key, label, unit }) => {
+                    const flag = flagValue(vitals[key], ranges[key]);
+                    return (
+                        <tr key={key} className={flag !== 'normal' ? 'abnormal' : ''}>
+                            <td>{label}</td>
+                            <td className="findings-value">{vitals[key]} {unit} <RangeFlagBadge flag={flag} /></td>
+                            <td className="findings-range">{ranges[key].low === ranges[key].high ? ranges[key].low : `${ranges[key].low}–${ranges[key].high}`}</td>
+                        </tr>
+                    );
+                })}
+            </tbody>
+        </table>
+    );
+};
+
+const LabPanelsTable = ({ labPanels }: { labPanels: LabPanel[] }) => (
+    <>
+        {labPanels.map((panel, panelIndex) => (
+            <table key={`${panel.name}-${panelIndex}`} className="findings-table">
+                <thead>
+                    <tr><th colSpan={3}>{panel.name}</th></tr>
+                </thead>
+                <tbody>
+                    {panel.results.map((result, index) => {
+                        const flag = flagLabResult(result);
+                        return (
+                            <tr key={`${panel.name}-${index}`} className={flag !== 'normal' ? 'abnormal' : ''}>
+                                <td>{result.test}</td>
+                                <td className="findings-value">{result.value} {result.unit} <RangeFlagBadge flag={flag} /></td>
+                                <td className="findings-range">{result.referenceLow}–{result.referenceHigh}</td>
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+        ))}
+    </>
+);
+
+// Structured tables when the case has them, with the free-text fields kept for older cases.
+// Time-evolving cases pass the patient's current vitals in place of those at presentation.
+const PhysicalExamFindings = ({ currentCase, liveVitals }: { currentCase: DiagnosticCase, liveVitals?: Vitals }) => (
+    <>
+        {currentCase.vitals && <VitalsTable vitals={liveVitals ?? currentCase.vitals} age={currentCase.patientProfile.age} />}
+        <p style={{ whiteSpace: 'pre-wrap' }}>{currentCase.physicalExam}</p>
+    </>
+);
+
+const LabFindings = ({ currentCase }: { currentCase: DiagnosticCase }) => (
+    <>
+        {currentCase.labPanels && currentCase.labPanels.length > 0 && <LabPanelsTable labPanels={currentCase.labPanels} />}
+        <p style={{ whiteSpace: 'pre-wrap' }}>{currentCase.labResults}</p>
+    </>
+);
+
+const PATIENT_STATUS_LABELS: Record<PatientState['status'], string> = {
+    stable: 'Stable',
+    deteriorating: 'Deteriorating',
+    improving: 'Improving',
+    stabilised: 'Stabilised',
+};
+
+const PatientMonitor = ({ patientState, age }: { patientState: PatientState, age: number }) => {
+    const ranges = getVitalReferenceRanges(age);
+    const { vitals } = patientState;
+    const vitalClass = (key: keyof Vitals) => flagValue(vitals[key], ranges[key]) !== 'normal' ? 'abnormal' : '';
+    return (
+        <div className="patient-monitor" aria-live="polite">
+            <span className={`patient-status-badge patient-status-${patientState.status}`}>{PATIENT_STATUS_LABELS[patientState.status]}</span>
+            <span className="patient-monitor-clock">T+{Math.floor(patientState.minute)} min</span>
+            <span className={vitalClass('heartRate')}>HR {vitals.heartRate}</span>
+            <span className={vitalClass('systolicBP')}>BP {vitals.systolicBP}/{vitals.diastolicBP}</span>
+            <span className={vitalClass('respiratoryRate')}>RR {vitals.respiratoryRate}</span>
+            <span className={vitalClass('spo2')}>SpO₂ {vitals.spo2}%</span>
+            <span className={vitalClass('gcs')}>GCS {vitals.gcs}</span>
+        </div>
+    );
+};
+
+const INVESTIGATION_CATEGORIES: InvestigationCategory[] = ['Bedside', 'Laboratory', 'Imaging'];
+
+const formatInr = (amount: number) => `₹${amount.toLocaleString('en-IN')}`;
+
+const formatTurnaround = (minutes: number) => {
+    if (minutes < 60) return `${minutes} min`;
+    if (minutes < 1440) return `${Math.round(minutes / 60)} h`;
+    return `${Math.round(minutes / 1440)} d`;
+};
+
+const InvestigationResultView = ({ currentCase, investigation }: { currentCase: DiagnosticCase, investigation: Investigation }) => {
+    const { panels, findings } = getInvestigationResult(currentCase, investigation);
+    if (panels.length === 0 && findings.length === 0) {
+        return <p className="investigation-unremarkable">No significant abnormality detected.</p>;
+    }
+    return (
+        <>
+            {panels.length > 0 && <LabPanelsTable labPanels={panels} />}
+            {findings.map(finding => <p key={finding}>{finding}</p>)}
+        </>
+    );
+};
+
+// Until a diagnosis is committed, only the results of completed orders are shown.
+const OrderedLabFindings = ({ currentCase, investigationOrders, now, isRevealed }: {
+    currentCase: DiagnosticCase;
+    investigationOrders: InvestigationOrder[];
+    now: number;
+    isRevealed: boolean;
+}) => {
+    if (isRevealed) return <LabFindings currentCase={currentCase} />;
+
+    const completed = investigationOrders.filter(order => order.readyAt <= now);
+    if (completed.length === 0) {
+        return <p className="investigation-unremarkable">No results yet. Order investigations to see them here.</p>;
+    }
+    return (
+        <>
+            {completed.map(order => {
+                const investigation = getInvestigation(order.investigationId);
+                if (!investigation) return null;
+                return (
+                    <div key={order.investigationId} className="investigation-result">
+                        <h4>{investigation.name}</h4>
+                        <InvestigationResultView currentCase={currentCase} investigation={investigation} />
+                    </div>
+                );
+            })}
+        </>
+    );
+};
+
+const CaseInfoPanel = ({ currentCase, investigationOrders, now, isRevealed, patientState }: {
+    currentCase: DiagnosticCase | null;
+    investigationOrders: InvestigationOrder[];
+    now: number;
+    isRevealed: boolean;
+    patientState: PatientState | null;
+}) => {
+    const { isMobile } = useAppContext();
+
+    if (!currentCase) {
+        return <div className="panel case-info-panel"><p>Loading case...</p></div>;
+    }
+    
+    return (
+        <div className="panel case-info-panel">
+             <div className="panel-header">
+                <h2>{currentCase.title}</h2>
+                <CaseTagsDisplay tags={currentCase.tags} />
+                <p className="case-subtitle">{currentCase.patientProfile.name}, {currentCase.patientProfile.age}, {currentCase.patientProfile.gender}</p>
+            </div>
+            <div className="panel-content">
                 <AccordionSection title="Chief Complaint" defaultOpen={true}>
                     <p className="chief-complaint-text">"{currentCase.chiefComplaint}"</p>
                 </AccordionSection>
                 <AccordionSection title="History of Present Illness" defaultOpen={!isMobile}>
                     <p>{currentCase.historyOfPresentIllness}</p>
                 </AccordionSection>
-                <AccordionSection title="Physical Exam" defaultOpen={!isMobile}><p style={{ whiteSpace: 'pre-wrap' }}>{currentCase.physicalExam}</p></AccordionSection>
-                <AccordionSection title="Lab Results" defaultOpen={!isMobile}><p style={{ whiteSpace: 'pre-wrap' }}>{currentCase.labResults}</p></AccordionSection>
+                <AccordionSection title="Physical Exam" defaultOpen={!isMobile}><PhysicalExamFindings currentCase={currentCase} liveVitals={patientState?.vitals} /></AccordionSection>
+                <AccordionSection title="Lab Results" defaultOpen={!isMobile}>
+                    <OrderedLabFindings currentCase={currentCase} investigationOrders={investigationOrders} now={now} isRevealed={isRevealed} />
+                </AccordionSection>
             </div>
         </div>
     )
 }
 
+const DifferentialBuilder = ({
+    entries,
+    onChangeEntries,
+    onSubmit
+}: {
+    entries: string[];
+    onChangeEntries: (entries: string[]) => void;
+    onSubmit: () => void;
+}) => {
+    const [draft, setDraft] = useState('');
+    const isFull = entries.length >= MAX_DIFFERENTIAL_ENTRIES;
+
+    const handleAdd = (e: React.FormEvent) => {
+        e.preventDefault();
+        const entry = draft.trim();
+        if (!entry || isFull) return;
+        onChangeEntries([...entries, entry]);
+        setDraft('');
+    };
+
+    const moveEntry = (index: number, offset: number) => {
+        const reordered = [...entries];
+        [reordered[index], reordered[index + offset]] = [reordered[index + offset], reordered[index]];
+        onChangeEntries(reordered);
+    };
+
+    return (
+        <div className="differential-builder">
+            <ol className="differential-list">
+                {entries.map((entry, index) => (
+                    <li key={`${index}-${entry}`} className="differential-entry">
+                        <span className="differential-rank">{index + 1}</span>
+                        <span className="differential-text">{entry}</span>
+                        <button className="icon-button" onClick={() => moveEntry(index, -1)} disabled={index === 0} aria-label="Move up">
+                            <IconChevronDown className="differential-move-up" />
+                        </button>
+                        <button className="icon-button" onClick={() => moveEntry(index, 1)} disabled={index === entries.length - 1} aria-label="Move down">
+                            <IconChevronDown />
+                        </button>
+                        <button className="icon-button" onClick={() => onChangeEntries(entries.filter((_, i) => i !== index))} aria-label="Remove">
+                            <IconX />
+                        </button>
+                    </li>
+                ))}
+            </ol>
+            <form className="differential-input" onSubmit={handleAdd}>
+                <input
+                    className="input-field"
+                    value={draft}
+                    onChange={e => setDraft(e.target.value)}
+                    placeholder={isFull ? `Up to ${MAX_DIFFERENTIAL_ENTRIES} diagnoses` : 'e.g. Myocardial infarction'}
+                    disabled={isFull}
+                    aria-label="Add a diagnosis"
+                />
+                <button type="submit" className="button button-outline" disabled={!draft.trim() || isFull}>Add</button>
+            </form>
+            <button className="button button-primary differential-submit" onClick={onSubmit} disabled={entries.length === 0}>
+                Submit Differential
+            </button>
+            <button className="differential-skip" onClick={onSubmit}>Skip and choose from the options</button>
+        </div>
+    );
+};
+
+const DifferentialResult = ({ currentCase, entries, isRevealed }: { currentCase: DiagnosticCase, entries: string[], isRevealed: boolean }) => {
+    if (entries.length === 0) return null;
+    // The score gives the answer away, so it waits until a diagnosis has been picked.
+    if (!isRevealed) {
+        return (
+            <div className="differential-summary">
+                <h4>Your Differential</h4>
+                <ol className="differential-list">
+                    {entries.map((entry, index) => (
+                        <li key={index} className="differential-entry">
+                            <span className="differential-rank">{index + 1}</span>
+                            <span className="differential-text">{entry}</span>
+                        </li>
+                    ))}
+                </ol>
+            </div>
+        );
+    }
+
+    const { score, correctRank, entries: results, dangerousOmissions } = scoreDifferential(currentCase, entries);
+    return (
+        <div className="differential-summary">
+            <h4>Your Differential: {score}/100</h4>
+            <ol className="differential-list">
+                {results.map((result, index) => (
+                    <li key={index} className={`differential-entry ${result.isCorrect ? 'correct' : ''}`}>
+                        <span className="differential-rank">{index + 1}</span>
+                        <span className="differential-text">
+                            {result.entry}
+                            {result.matchedDiagnosis && result.matchedDiagnosis !== result.entry && <small> ({result.matchedDiagnosis})</small>}
+                        </span>
+                        {result.isCorrect && <IconCheck />}
+                    </li>
+                ))}
+            </ol>
+            <p>{correctRank ? `You ranked the correct diagnosis #${correctRank}.` : 'The correct diagnosis was not on your differential.'}</p>
+            {dangerousOmissions.length > 0 && (
+                <p className="differential-omissions"><strong>Dangerous diagnoses you didn't consider:</strong> {dangerousOmissions.join(', ')}</p>
+            )}
+        </div>
+    );
+};
+
 const DiagnosisPanel = ({
     selectedDiagnosis,
-    onSelectDiagnosis
+    onSelectDiagnosis,
+    differentialEntries,
+    onChangeDifferential,
+    isDifferentialSubmitted,
+    onSubmitDifferential
 }: {
     selectedDiagnosis: string | null;
     onSelectDiagnosis: (diagnosis: string) => void;
+    differentialEntries: string[];
+    onChangeDifferential: (entries: string[]) => void;
+    isDifferentialSubmitted: boolean;
+    onSubmitDifferential: () => void;
 }) => {
     const { currentCase } = useAppContext();
     if (!currentCase) return <div className="panel actions-panel"><p>Loading...</p></div>;
@@ -1434,6 +2437,20 @@ const DiagnosisPanel = ({
     const { potentialDiagnoses, correctDiagnosisExplanation } = currentCase;
     const isRevealed = !!selectedDiagnosis;
 
+    if (!isDifferentialSubmitted) {
+        return (
+            <div className="panel actions-panel">
+                <div className="panel-header">
+                    <h3>Differential Diagnosis</h3>
+                    <p>List up to {MAX_DIFFERENTIAL_ENTRIES} diagnoses, most likely first. The options appear once you submit.</p>
+                </div>
+                <div className="panel-content">
+                    <DifferentialBuilder entries={differentialEntries} onChangeEntries={onChangeDifferential} onSubmit={onSubmitDifferential} />
+                </div>
+            </div>
+        );
+    }
+
     return (
         <div className="panel actions-panel">
             <div className="panel-header">
@@ -1441,6 +2458,7 @@ const DiagnosisPanel = ({
                 <p>Select what you believe is the correct diagnosis.</p>
             </div>
             <div className="panel-content">
+                <DifferentialResult currentCase={currentCase} entries={differentialEntries} isRevealed={isRevealed} />
                 <div className="choice-options">
                     {potentialDiagnoses.map(({ diagnosis, isCorrect }) => {
                         const isSelected = selectedDiagnosis === diagnosis;
@@ -1465,18 +2483,466 @@ const DiagnosisPanel = ({
     );
 };
 
+const InvestigationsPanel = ({
+    investigationOrders,
+    onOrderInvestigation,
+    now
+}: {
+    investigationOrders: InvestigationOrder[];
+    onOrderInvestigation: (investigationId: string) => void;
+    now: number;
+}) => {
+    const { currentCase } = useAppContext();
+    if (!currentCase) return <div className="panel actions-panel"><p>Loading...</p></div>;
+
+    const orderedIds = new Set(investigationOrders.map(order => order.investigationId));
+    const totalCost = investigationOrders.reduce((sum, order) => sum + (getInvestigation(order.investigationId)?.cost ?? 0), 0);
+
+    return (
+        <div className="panel actions-panel">
+            <div className="panel-header">
+                <h3>Order Investigations</h3>
+                <p>Results arrive after each test's turnaround time.</p>
+                <div className={`investigation-budget ${totalCost > INVESTIGATION_BUDGET ? 'over-budget' : ''}`}>
+                    Spent {formatInr(totalCost)} of {formatInr(INVESTIGATION_BUDGET)} budget
+                </div>
+            </div>
+            <div className="panel-content">
+                {investigationOrders.length > 0 && (
+                    <AccordionSection title="Results" defaultOpen={true}>
+                        {investigationOrders.map(order => {
+                            const investigation = getInvestigation(order.investigationId);
+                            if (!investigation) return null;
+                            return (
+                                <div key={order.investigationId} className="investigation-result">
+                                    <h4>{investigation.name}</h4>
+                                    {order.readyAt > now ? (
+                                        <p className="investigation-pending">
+                                            <span className="loading-spinner-inline"></span>
+                                            Pending, ready in about {formatTurnaround(simulatedMinutesRemaining(order, now))}
+                                        </p>
+                                    ) : (
+                                        <InvestigationResultView currentCase={currentCase} investigation={investigation} />
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </AccordionSection>
+                )}
+                {INVESTIGATION_CATEGORIES.map(category => (
+                    <React.Fragment key={category}>
+                        <AccordionSection title={category} defaultOpen={true}>
+                            <ul className="investigation-list">
+                                {INVESTIGATION_CATALOG.filter(investigation => investigation.category === category).map(investigation => {
+                                    const isOrdered = orderedIds.has(investigation.id);
+                                    return (
+                                        <li key={investigation.id} className="investigation-item">
+                                            <div className="investigation-item-info">
+                                                <span className="investigation-item-name">{investigation.name}</span>
+                                                <span className="investigation-item-meta">{formatTurnaround(investigation.turnaroundMinutes)} · {formatInr(investigation.cost)}</span>
+                                            </div>
+                                            <button className="button button-outline" onClick={() => onOrderInvestigation(investigation.id)} disabled={isOrdered}>
+                                                {isOrdered ? 'Ordered' : 'Order'}
+                                            </button>
+                                        </li>
+                                    );
+                                })}
+                            </ul>
+                        </AccordionSection>
+                    </React.Fragment>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+const TreatmentPanel = ({
+    treatmentOrders,
+    onPlaceOrder
+}: {
+    treatmentOrders: TreatmentOrder[];
+    onPlaceOrder: (order: NewTreatmentOrder) => void;
+}) => {
+    const { currentCase } = useAppContext();
+    const [kind, setKind] = useState<TreatmentOrder['kind']>('drug');
+    const [drugId, setDrugId] = useState(FORMULARY_DRUGS[0].id);
+    const [dose, setDose] = useState('');
+    const [route, setRoute] = useState<DrugRoute>('Oral');
+    const [frequency, setFrequency] = useState<DoseFrequency>('Once');
+    const [fluidId, setFluidId] = useState(FORMULARY_FLUIDS[0].id);
+    const [volumeMl, setVolumeMl] = useState('');
+    const [rate, setRate] = useState<FluidRate>('Bolus');
+    const [procedureId, setProcedureId] = useState(FORMULARY_PROCEDURES[0].id);
+
+    if (!currentCase) return <div className="panel actions-panel"><p>Loading...</p></div>;
+
+    const drug = FORMULARY_DRUGS.find(d => d.id === drugId);
+    const canOrder = kind === 'procedure'
+        || (kind === 'drug' && Number(dose) > 0)
+        || (kind === 'fluid' && Number(volumeMl) > 0);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!canOrder) return;
+        if (kind === 'drug') {
+            onPlaceOrder({ kind, itemId: drugId, dose: Number(dose), route, frequency });
+            setDose('');
+        } else if (kind === 'fluid') {
+            onPlaceOrder({ kind, itemId: fluidId, volumeMl: Number(volumeMl), rate });
+            setVolumeMl('');
+        } else {
+            onPlaceOrder({ kind, itemId: procedureId });
+        }
+    };
+
+    return (
+        <div className="panel actions-panel">
+            <div className="panel-header">
+                <h3>Treatment Orders</h3>
+                <p>Estimated weight: ~{estimateWeightKg(currentCase.patientProfile.age)} kg. Orders take effect immediately and cannot be cancelled.</p>
+            </div>
+            <div className="panel-content">
+                <form className="treatment-order-form" onSubmit={handleSubmit}>
+                    <div className="treatment-kind-toggle">
+                        {(['drug', 'fluid', 'procedure'] as const).map(k => (
+                            <button key={k} type="button" className={kind === k ? 'active' : ''} onClick={() => setKind(k)}>
+                                {k === 'drug' ? 'Drug' : k === 'fluid' ? 'Fluid' : 'Procedure'}
+                            </button>
+                        ))}
+                    </div>
+                    {kind === 'drug' && (
+                        <>
+                            <div className="form-group">
+                                <label htmlFor="order-drug">Drug</label>
+                                <select id="order-drug" className="input-field" value={drugId} onChange={e => setDrugId(e.target.value)}>
+                                    {FORMULARY_DRUGS.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                                </select>
+                            </div>
+                            <div className="treatment-order-row">
+                                <div className="form-group">
+                                    <label htmlFor="order-dose">Dose ({drug?.unit})</label>
+                                    <input id="order-dose" className="input-field" type="number" min="0" step="any" value={dose} onChange={e => setDose(e.target.value)} />
+                                </div>
+                                <div className="form-group">
+                                    <label htmlFor="order-route">Route</label>
+                                    <select id="order-route" className="input-field" value={route} onChange={e => setRoute(e.target.value as DrugRoute)}>
+                                        {DRUG_ROUTES.map(r => <option key={r} value={r}>{r}</option>)}
+                                    </select>
+                                </div>
+                                <div className="form-group">
+                                    <label htmlFor="order-frequency">Frequency</label>
+                                    <select id="order-frequency" className="input-field" value={frequency} onChange={e => setFrequency(e.target.value as DoseFrequency)}>
+                                        {DOSE_FREQUENCIES.map(f => <option key={f} value={f}>{f}</option>)}
+                                    </select>
+                                </div>
+                            </div>
+                        </>
+                    )}
+                    {kind === 'fluid' && (
+                        <>
+                            <div className="form-group">
+                                <label htmlFor="order-fluid">Fluid</label>
+                                <select id="order-fluid" className="input-field" value={fluidId} onChange={e => setFluidId(e.target.value)}>
+                                    {FORMULARY_FLUIDS.map(f => <option key={f.id} value={f.id}>{f.name}</option>)}
+                                </select>
+                            </div>
+                            <div className="treatment-order-row">
+                                <div className="form-group">
+                                    <label htmlFor="order-volume">Volume (mL)</label>
+                                    <input id="order-volume" className="input-field" type="number" min="0" step="any" value={volumeMl} onChange={e => setVolumeMl(e.target.value)} />
+                                </div>
+                                <div className="form-group">
+                                    <label htmlFor="order-rate">Rate</label>
+                                    <select id="order-rate" className="input-field" value={rate} onChange={e => setRate(e.target.value as FluidRate)}>
+                                        {FLUID_RATES.map(r => <option key={r} value={r}>{r}</option>)}
+                                    </select>
+                                </div>
+                            </div>
+                        </>
+                    )}
+                    {kind === 'procedure' && (
+                        <div className="form-group">
+                            <label htmlFor="order-procedure">Procedure</label>
+                            <select id="order-procedure" className="input-field" value={procedureId} onChange={e => setProcedureId(e.target.value)}>
+                                {FORMULARY_PROCEDURES.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                            </select>
+                        </div>
+                    )}
+                    <button type="submit" className="button button-primary" disabled={!canOrder}>Place Order</button>
+                </form>
+
+                {treatmentOrders.length > 0 && (
+                    <AccordionSection title="Orders Given" defaultOpen={true}>
+                        <ul className="treatment-order-list">
+                            {treatmentOrders.map((order, index) => (
+                                <li key={index}>
+                                    <span className="treatment-order-time">T+{Math.floor(order.atMinute)} min</span>
+                                    {describeOrder(order)}
+                                </li>
+                            ))}
+                        </ul>
+                    </AccordionSection>
+                )}
+            </div>
+        </div>
+    );
+};
+
+const TreatmentReview = ({ currentCase, treatmentOrders }: { currentCase: DiagnosticCase, treatmentOrders: TreatmentOrder[] }) => {
+    const reviewed = reviewTreatmentOrders(currentCase, treatmentOrders);
+    if (reviewed.length === 0) {
+        return <p>You did not order any treatment for this case.</p>;
+    }
+    const issueCount = reviewed.reduce((count, r) => count + r.issues.length, 0);
+    return (
+        <div className="investigation-review">
+            <p>{issueCount === 0 ? 'No safety concerns were found in your orders.' : `${issueCount} safety concern${issueCount === 1 ? '' : 's'} found against the formulary.`}</p>
+            <ul className="treatment-order-list">
+                {reviewed.map(({ description, issues }, index) => (
+                    <li key={index}>
+                        {description}
+                        {issues.map(issue => <span key={issue.message} className={`treatment-issue treatment-issue-${issue.severity}`}>{issue.message}</span>)}
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+const InvestigationReview = ({ currentCase, investigationOrders }: { currentCase: DiagnosticCase, investigationOrders: InvestigationOrder[] }) => {
+    const { totalCost, budget, informative, lowYield, missedPanels } = summarizeOrdering(currentCase, investigationOrders);
+    return (
+        <div className="investigation-review">
+            {investigationOrders.length === 0 ? (
+                <p>You did not order any investigations for this case.</p>
+            ) : (
+                <p>You spent {formatInr(totalCost)} of the {formatInr(budget)} budget{totalCost > budget ? ', which is over budget' : ''}.</p>
+            )}
+            {informative.length > 0 && <p><strong>Contributed to the diagnosis:</strong> {informative.join(', ')}</p>}
+            {lowYield.length > 0 && <p><strong>Low yield:</strong> {lowYield.join(', ')}</p>}
+            {missedPanels.length > 0 && <p><strong>Relevant results you did not order:</strong> {missedPanels.join(', ')}</p>}
+        </div>
+    );
+};
+
+const InterventionReview = ({ currentCase, performedInterventions }: { currentCase: DiagnosticCase, performedInterventions: PerformedIntervention[] }) => {
+    const { timely, late, missed } = summarizeInterventions(currentCase, performedInterventions);
+    return (
+        <div className="investigation-review">
+            {missed.length === 0 && late.length === 0 && <p>You gave every time-critical treatment in time and the patient stabilised.</p>}
+            {timely.length > 0 && <p><strong>Given in time:</strong> {timely.join(', ')}</p>}
+            {late.length > 0 && <p><strong>Given too late:</strong> {late.join(', ')}</p>}
+            {missed.length > 0 && <p><strong>Never given:</strong> {missed.join(', ')}</p>}
+        </div>
+    );
+};
+
+const HistoryCoverageReport = ({ coverage }: { coverage: CoverageReport }) => {
+    const { asked, missed, score } = coverage;
+    return (
+        <div className="coverage-report">
+            <p className="coverage-score">You covered {asked.length} of {asked.length + missed.length} key history and examination points ({score}%).</p>
+            {asked.length > 0 && (
+                <>
+                    <h4>Covered</h4>
+                    <ul className="coverage-list">
+                        {asked.map(({ item, question }) => (
+                            <li key={item.item} className="coverage-item covered">
+                                <IconCheck />
+                                <div>
+                                    <strong>{item.item}</strong> <span className="coverage-category">{item.category}</span>
+                                    <p>You asked: "{question}"</p>
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                </>
+            )}
+            {missed.length > 0 && (
+                <>
+                    <h4>Missed</h4>
+                    <ul className="coverage-list">
+                        {missed.map(item => (
+                            <li key={item.item} className="coverage-item missed">
+                                <IconX />
+                                <div>
+                                    <strong>{item.item}</strong> <span className="coverage-category">{item.category}</span>
+                                    <p>{item.rationale}</p>
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                </>
+            )}
+        </div>
+    );
+};
+
+const formatDuration = (ms: number) => {
+    const minutes = Math.floor(ms / 60000);
+    const seconds = Math.floor((ms % 60000) / 1000);
+    return minutes > 0 ? `${minutes} min ${seconds} s` : `${seconds} s`;
+};
+
+const scoreClass = (score: number) => (score >= 70 ? 'good' : score >= 40 ? 'fair' : 'poor');
+
+const CaseDebriefView = ({ currentCase, debrief, coverage, onDone, isFinishing }: {
+    currentCase: DiagnosticCase;
+    debrief: CaseDebrief;
+    coverage: CoverageReport | null;
+    onDone: () => void;
+    isFinishing: boolean;
+}) => {
+    const { diagnosisCorrect, correctDiagnosis, mcqCorrect, mcqTotal, hintsUsed, elapsedMs, chatTurns, epaResults, cognitiveSkill, overallScore, suggestions } = debrief;
+    return (
+        <main className="app-container debrief-page">
+            <div className="debrief-header">
+                <div>
+                    <h1>Case Debrief</h1>
+                    <p>{currentCase.title}</p>
+                </div>
+                <div className={`debrief-overall ${scoreClass(overallScore)}`}>
+                    <span>{overallScore}</span>
+                    <small>/ 100</small>
+                </div>
+            </div>
+
+            <div className="debrief-stats">
+                <div className="debrief-stat">
+                    <span className={`debrief-stat-value ${diagnosisCorrect ? 'good' : 'poor'}`}>{diagnosisCorrect ? 'Correct' : 'Incorrect'}</span>
+                    <span className="debrief-stat-label">Diagnosis{!diagnosisCorrect && `: ${correctDiagnosis}`}</span>
+                </div>
+                <div className="debrief-stat">
+                    <span className="debrief-stat-value">{mcqTotal > 0 ? `${mcqCorrect}/${mcqTotal}` : '–'}</span>
+                    <span className="debrief-stat-label">Clinical questions</span>
+                </div>
+                <div className="debrief-stat">
+                    <span className="debrief-stat-value">{hintsUsed}</span>
+                    <span className="debrief-stat-label">Hints used</span>
+                </div>
+                <div className="debrief-stat">
+                    <span className="debrief-stat-value">{formatDuration(elapsedMs)}</span>
+                    <span className="debrief-stat-label">Time taken</span>
+                </div>
+                <div className="debrief-stat">
+                    <span className="debrief-stat-value">{chatTurns}</span>
+                    <span className="debrief-stat-label">Questions asked</span>
+                </div>
+            </div>
+
+            <div className="debrief-layout">
+                <div className="home-content debrief-section">
+                    <h3>Performance by EPA</h3>
+                    {epaResults.map(({ epa, score, evidence }) => (
+                        <div key={epa} className="debrief-epa">
+                            <div className="debrief-epa-header">
+                                <strong>{epa}</strong>
+                                <span>{score === null ? 'Not assessed' : `${score}%`}</span>
+                            </div>
+                            {score !== null && (
+                                <div className="debrief-bar"><div className={`debrief-bar-fill ${scoreClass(score)}`} style={{ width: `${score}%` }}></div></div>
+                            )}
+                            {evidence.length > 0 && <p>{evidence.join(' · ')}</p>}
+                        </div>
+                    ))}
+                    <div className="debrief-epa">
+                        <div className="debrief-epa-header">
+                            <strong>Cognitive skill: {cognitiveSkill.skill}</strong>
+                            <span>{cognitiveSkill.score === null ? 'Not assessed' : `${cognitiveSkill.score}%`}</span>
+                        </div>
+                        {cognitiveSkill.score !== null && (
+                            <div className="debrief-bar"><div className={`debrief-bar-fill ${scoreClass(cognitiveSkill.score)}`} style={{ width: `${cognitiveSkill.score}%` }}></div></div>
+                        )}
+                    </div>
+                </div>
+
+                <div className="home-content debrief-section">
+                    <h3>How to Improve</h3>
+                    {suggestions.length > 0 ? (
+                        <ul className="debrief-suggestions">
+                            {suggestions.map((suggestion, index) => <li key={index}>{suggestion}</li>)}
+                        </ul>
+                    ) : (
+                        <p>An excellent workup. Try a harder case or switch on Challenge Mode.</p>
+                    )}
+                </div>
+
+                {coverage && (
+                    <div className="home-content debrief-section debrief-section-wide">
+                        <h3>History &amp; Examination Coverage</h3>
+                        <HistoryCoverageReport coverage={coverage} />
+                    </div>
+                )}
+            </div>
+
+            <div className="finish-case-action">
+                <button className="button button-primary" onClick={onDone} disabled={isFinishing}>
+                    {isFinishing && <div className="loading-spinner"></div>}
+                    Return Home
+                </button>
+            </div>
+        </main>
+    );
+};
+
+// A single MCQ with its options; once revealed, the answer is marked and the explanation shown.
+// Before that, the chosen option is only highlighted, so test-style flows can change their mind.
+const McqItem = ({ mcq, label = '', selectedOption, isRevealed, onSelect, children }: {
+    mcq: MCQ;
+    label?: string;
+    selectedOption: number | undefined;
+    isRevealed: boolean;
+    onSelect: (optionIndex: number) => void;
+    children?: ReactNode;
+}) => (
+    <div className="mcq-item">
+        <p><strong>{label}{mcq.question}</strong></p>
+        <div className="choice-options">
+            {mcq.options.map((option, optionIndex) => {
+                const isSelected = selectedOption === optionIndex;
+                const isCorrect = mcq.correctAnswerIndex === optionIndex;
+                return (
+                    <button key={optionIndex}
+                        className={`choice-option ${isRevealed && isCorrect ? 'correct' : ''} ${isRevealed && isSelected && !isCorrect ? 'incorrect' : ''} ${!isRevealed && isSelected ? 'selected' : ''}`}
+                        onClick={() => onSelect(optionIndex)} disabled={isRevealed}>
+                        {isRevealed && (isCorrect || isSelected) && (isCorrect ? <IconCheck/> : <IconX className="choice-option-icon"/>)}
+                        {option}
+                    </button>
+                );
+            })}
+        </div>
+        {isRevealed && (
+            <div className="explanation-box">
+                <h4>Explanation</h4>
+                <p>{mcq.explanation}</p>
+            </div>
+        )}
+        {children}
+    </div>
+);
+
 const QuestionsPanel = ({
     selectedDiagnosis,
     selectedMcqAnswers,
     onSelectMcqAnswer,
+    reviewDeckMcqs,
+    onAddToReviewDeck,
     onFinishCase,
-    isFinishing
+    isFinishing,
+    investigationOrders,
+    performedInterventions,
+    treatmentOrders
 }: {
     selectedDiagnosis: string | null;
     selectedMcqAnswers: Record<number, number>;
     onSelectMcqAnswer: (mcqIndex: number, optionIndex: number) => void;
+    reviewDeckMcqs: number[];
+    onAddToReviewDeck: (mcqIndex: number) => void;
     onFinishCase: () => void;
     isFinishing: boolean;
+    investigationOrders: InvestigationOrder[];
+    performedInterventions: PerformedIntervention[];
+    treatmentOrders: TreatmentOrder[];
 }) => {
     const {
         currentCase,
@@ -1501,31 +2967,18 @@ const QuestionsPanel = ({
                         <AccordionSection title="Questions" defaultOpen={true}>
                             {currentCase.mcqs.length > 0 ? currentCase.mcqs.map((mcq, index) => {
                                 const isRevealed = selectedMcqAnswers[index] !== undefined;
-                                return(
-                                <div key={index} className="mcq-item">
-                                    <p><strong>{index + 1}. {mcq.question}</strong></p>
-                                    <div className="choice-options">
-                                        {mcq.options.map((option, optionIndex) => {
-                                            const isSelected = selectedMcqAnswers[index] === optionIndex;
-                                            const isCorrect = mcq.correctAnswerIndex === optionIndex;
-                                            return (
-                                                <button key={optionIndex}
-                                                    className={`choice-option ${isRevealed && isCorrect ? 'correct' : ''} ${isRevealed && isSelected && !isCorrect ? 'incorrect' : ''}`}
-                                                    onClick={() => onSelectMcqAnswer(index, optionIndex)} disabled={isRevealed}>
-                                                    {isRevealed && (isCorrect || isSelected) && (isCorrect ? <IconCheck/> : <IconX className="choice-option-icon"/>)}
-                                                    {option}
-                                                </button>
-                                            );
-                                        })}
-                                    </div>
-                                    {isRevealed && (
-                                        <div className="explanation-box">
-                                            <h4>Explanation</h4>
-                                            <p>{mcq.explanation}</p>
-                                        </div>
-                                    )}
-                                </div>
-                            )}) : <p>No clinical questions for this case.</p>}
+                                return (
+                                    <React.Fragment key={index}>
+                                        <McqItem mcq={mcq} label={`${index + 1}. `} selectedOption={selectedMcqAnswers[index]} isRevealed={isRevealed} onSelect={optionIndex => onSelectMcqAnswer(index, optionIndex)}>
+                                            {isRevealed && (reviewDeckMcqs.includes(index) ? (
+                                                <p className="review-deck-status"><IconCheck /> In your review deck</p>
+                                            ) : (
+                                                <button className="review-deck-add" onClick={() => onAddToReviewDeck(index)}>I guessed this: add it to my review deck</button>
+                                            ))}
+                                        </McqItem>
+                                    </React.Fragment>
+                                );
+                            }) : <p>No clinical questions for this case.</p>}
                         </AccordionSection>
                         
                         <AccordionSection title="SOAP Note">
@@ -1542,6 +2995,24 @@ const QuestionsPanel = ({
                             )}
                         </AccordionSection>
 
+                        {canFinish && (
+                            <AccordionSection title="Investigation Review" defaultOpen={true}>
+                                <InvestigationReview currentCase={currentCase} investigationOrders={investigationOrders} />
+                            </AccordionSection>
+                        )}
+
+                        {canFinish && (
+                            <AccordionSection title="Treatment Review" defaultOpen={true}>
+                                <TreatmentReview currentCase={currentCase} treatmentOrders={treatmentOrders} />
+                            </AccordionSection>
+                        )}
+
+                        {canFinish && isDynamicCase(currentCase) && (
+                            <AccordionSection title="Emergency Management" defaultOpen={true}>
+                                <InterventionReview currentCase={currentCase} performedInterventions={performedInterventions} />
+                            </AccordionSection>
+                        )}
+
                         {canFinish && (
                            <div className="finish-case-action">
                              <button className="button button-primary" onClick={onFinishCase} disabled={isFinishing}>
@@ -1557,7 +3028,13 @@ const QuestionsPanel = ({
     );
 };
 
-const MobileCaseInfoView = ({ currentCase }: { currentCase: DiagnosticCase }) => {
+const MobileCaseInfoView = ({ currentCase, investigationOrders, now, isRevealed, patientState }: {
+    currentCase: DiagnosticCase;
+    investigationOrders: InvestigationOrder[];
+    now: number;
+    isRevealed: boolean;
+    patientState: PatientState | null;
+}) => {
     if (!currentCase) return null;
     return (
         <div className="case-info-mobile-view">
@@ -1572,10 +3049,10 @@ const MobileCaseInfoView = ({ currentCase }: { currentCase: DiagnosticCase }) =>
             <p>{currentCase.historyOfPresentIllness}</p>
             
             <h3 className="mobile-case-info-heading">Physical Exam</h3>
-            <p style={{ whiteSpace: 'pre-wrap' }}>{currentCase.physicalExam}</p>
+            <PhysicalExamFindings currentCase={currentCase} liveVitals={patientState?.vitals} />
             
             <h3 className="mobile-case-info-heading">Lab Results</h3>
-            <p style={{ whiteSpace: 'pre-wrap' }}>{currentCase.labResults}</p>
+            <OrderedLabFindings currentCase={currentCase} investigationOrders={investigationOrders} now={now} isRevealed={isRevealed} />
         </div>
     );
 };
@@ -1590,7 +3067,8 @@ const SimulationHeaderMobile = ({
     hintCount: number;
     isGeneratingHint: boolean;
 }) => {
-    const TABS: ActiveTab[] = useMemo(() => ['case', 'chat', 'diagnosis', 'questions'], []);
+    const TABS: ActiveTab[] = useMemo(() => ['case', 'chat', 'investigations', 'treatment', 'diagnosis', 'questions'], []);
+    const TAB_LABELS: Partial<Record<ActiveTab, string>> = { investigations: 'Tests', treatment: 'Rx' };
 
     return (
         <header className="simulation-header-mobile">
@@ -1604,7 +3082,7 @@ const SimulationHeaderMobile = ({
                         className={`sim-tab-button ${activeTab === tab ? 'active' : ''}`} 
                         onClick={() => onTabClick(tab)}
                     >
-                        {tab.charAt(0).toUpperCase() + tab.slice(1)}
+                        {TAB_LABELS[tab] ?? tab.charAt(0).toUpperCase() + tab.slice(1)}
                     </button>
                 ))}
             </div>
@@ -1624,137 +3102,1427 @@ const SimulationHeaderMobile = ({
 };
 
 
-const ChatWindow = ({
-    chat,
-    messages,
-    setMessages,
-    setLatestPatientMessage,
-    onRequestHint,
-    isGeneratingHint
-}: {
-    chat: Chat | null;
-    messages: ChatMessage[];
-    setMessages: (messages: ChatMessage[] | ((prev: ChatMessage[]) => ChatMessage[])) => void;
-    setLatestPatientMessage: (message: string | null) => void;
-    onRequestHint?: () => void;
-    isGeneratingHint?: boolean;
-}) => {
-    const [userInput, setUserInput] = useState('');
-    const [isResponding, setIsResponding] = useState(false);
-    const messagesEndRef = useRef<HTMLDivElement>(null);
-    const { hintCount, isMobile } = useAppContext();
+const ChatWindow = ({
+    chats,
+    addressee,
+    onChangeAddressee,
+    messages,
+    setMessages,
+    setPatientReply,
+    onRequestHint,
+    isGeneratingHint
+}: {
+    chats: EncounterChats | null;
+    addressee: ParticipantId;
+    onChangeAddressee: (addressee: ParticipantId) => void;
+    messages: ChatMessage[];
+    setMessages: (messages: ChatMessage[] | ((prev: ChatMessage[]) => ChatMessage[])) => void;
+    setPatientReply: (reply: PatientReply | null | ((prev: PatientReply | null) => PatientReply | null)) => void;
+    onRequestHint?: () => void;
+    isGeneratingHint?: boolean;
+}) => {
+    const [userInput, setUserInput] = useState('');
+    const [isResponding, setIsResponding] = useState(false);
+    const messagesEndRef = useRef<HTMLDivElement>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
+    const { currentCase, hintCount, isMobile } = useAppContext();
+    const participants = useMemo(() => (currentCase ? encounterParticipants(currentCase) : []), [currentCase]);
+    // The one answering the history speaks through the avatar and subtitles; everyone else is shown here.
+    const onScreen = currentCase ? primaryParticipant(currentCase) : 'patient';
+    const chat = chats?.[addressee] ?? null;
+
+    // Push-to-talk: hold the mic to dictate a question. What was already typed stays in front of
+    // the dictated words, and the result lands in the input to be checked and edited before sending.
+    const stt = useMemo(() => getSttProvider(), []);
+    const [recognitionLanguage, setRecognitionLanguage] = useState<RecognitionLanguage>(
+        () => {
+            // Anything stored that is no longer offered falls back to English.
+            const saved = localStorage.getItem(RECOGNITION_LANGUAGE_STORAGE_KEY);
+            return RECOGNITION_LANGUAGES.find(({ code }) => code === saved)?.code ?? 'en-IN';
+        }
+    );
+    const [isListening, setIsListening] = useState(false);
+    const [voiceError, setVoiceError] = useState<string | null>(null);
+    const recognitionRef = useRef<RecognitionSession | null>(null);
+    const typedBeforeListeningRef = useRef('');
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    const scrollToBottom = () => {
+        messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+    };
+
+    useEffect(scrollToBottom, [messages]);
+
+    useEffect(() => () => recognitionRef.current?.cancel(), []);
+
+    const handleLanguageChange = (language: RecognitionLanguage) => {
+        setRecognitionLanguage(language);
+        localStorage.setItem(RECOGNITION_LANGUAGE_STORAGE_KEY, language);
+    };
+
+    const startListening = () => {
+        if (recognitionRef.current || isResponding) return;
+        setVoiceError(null);
+        typedBeforeListeningRef.current = userInput;
+        const withTyped = (spoken: string) => [typedBeforeListeningRef.current.trim(), spoken].filter(Boolean).join(' ');
+        try {
+            recognitionRef.current = stt.start({
+                language: recognitionLanguage,
+                onTranscript: transcript => setUserInput(withTyped(joinTranscript(transcript))),
+                onError: error => {
+                    setVoiceError(error.message);
+                    recognitionRef.current?.cancel();
+                    recognitionRef.current = null;
+                    setIsListening(false);
+                },
+            });
+            setIsListening(true);
+        } catch (error) {
+            setVoiceError(error instanceof Error ? error.message : "Couldn't start the microphone.");
+        }
+    };
+
+    const stopListening = async () => {
+        const recognition = recognitionRef.current;
+        if (!recognition) return;
+        recognitionRef.current = null;
+        setIsListening(false);
+        const spoken = await recognition.stop();
+        setUserInput([typedBeforeListeningRef.current.trim(), spoken].filter(Boolean).join(' '));
+        inputRef.current?.focus();
+    };
+
+    const handleSendMessage = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!userInput.trim() || !chat || isResponding) return;
+
+        const userMessage: ChatMessage = {
+            sender: 'user',
+            addressee,
+            text: userInput,
+            timestamp: new Date().toISOString()
+        };
+
+        setMessages(prev => [...prev, userMessage]);
+        setUserInput('');
+        setIsResponding(true);
+
+        // The reply goes to the subtitles a token at a time, and to speech a sentence at a time.
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        const replyId = Date.now();
+        const splitter = createSentenceSplitter();
+        let replyText = '';
+        const updateReply = (changes: Partial<PatientReply>) =>
+            setPatientReply(prev => (prev?.id === replyId ? { ...prev, ...changes } : prev));
+        const addSentences = (sentences: string[]) => {
+            if (sentences.length > 0) setPatientReply(prev => (prev?.id === replyId ? { ...prev, sentences: [...prev.sentences, ...sentences] } : prev));
+        };
+        setPatientReply({ id: replyId, speaker: addressee, text: '', sentences: [], isStreaming: true, isCancelled: false });
+
+        try {
+            const stream = await chat.sendMessageStream({ message: userInput, signal: controller.signal });
+            for await (const chunk of stream) {
+                replyText += chunk.text;
+                updateReply({ text: replyText });
+                addSentences(splitter.push(chunk.text));
+            }
+            addSentences(splitter.flush());
+            updateReply({ isStreaming: false });
+        } catch (error) {
+            if (!controller.signal.aborted) {
+                console.error("Error sending message:", error);
+                const errorMessage: ChatMessage = {
+                    sender: 'system',
+                    text: "Sorry, I'm having trouble responding right now. Please try again.",
+                    timestamp: new Date().toISOString()
+                };
+                setMessages(prev => [...prev, errorMessage]);
+            }
+            // A stopped reply keeps the words already shown on screen but is not spoken any further.
+            updateReply({ isStreaming: false, isCancelled: true });
+        } finally {
+            if (replyText.trim()) {
+                const patientMessage: ChatMessage = {
+                    sender: addressee,
+                    text: replyText,
+                    timestamp: new Date().toISOString()
+                };
+                setMessages(prev => [...prev, patientMessage]);
+            }
+            abortControllerRef.current = null;
+            setIsResponding(false);
+        }
+    };
+
+    const handleStop = () => abortControllerRef.current?.abort();
+
+    return (
+        <div className="panel chat-panel">
+            <div className="panel-header">
+                <h3>Conversation</h3>
+                {!isMobile && onRequestHint && isGeneratingHint !== undefined && (
+                    <button className="button button-outline hint-button" onClick={onRequestHint} disabled={isGeneratingHint || hintCount <= 0}>
+                        <IconLightbulb/>
+                        <span>Hint ({hintCount})</span>
+                        {isGeneratingHint && <div className="loading-spinner-inline"></div>}
+                    </button>
+                )}
+            </div>
+            <div className="panel-content">
+                <div className="chat-window">
+                    {messages.filter(msg => msg.sender !== onScreen).map((msg, index) => {
+                        const from = participants.find(p => p.id === msg.sender);
+                        const to = msg.sender === 'user' && msg.addressee && msg.addressee !== onScreen
+                            ? participants.find(p => p.id === msg.addressee)
+                            : undefined;
+                        return (
+                            <div key={index} className={`chat-message ${from ? 'participant' : msg.sender}`}>
+                                <div className="message-bubble">
+                                    {(from || to) && <span className="message-speaker">{from ? from.name : `To ${to!.name}`}</span>}
+                                    {msg.text}
+                                </div>
+                            </div>
+                        );
+                    })}
+                    <div ref={messagesEndRef} />
+                </div>
+                {voiceError && <p className="chat-voice-error" role="alert">{voiceError}</p>}
+                <div className="chat-addressee" role="radiogroup" aria-label="Talking to">
+                    <span>Talking to</span>
+                    {participants.map(participant => (
+                        <button
+                            key={participant.id}
+                            type="button"
+                            role="radio"
+                            aria-checked={addressee === participant.id}
+                            className={`chat-addressee-option ${addressee === participant.id ? 'active' : ''}`}
+                            onClick={() => onChangeAddressee(participant.id)}
+                            disabled={isResponding || isListening}
+                            title={participant.name}
+                        >
+                            {participant.title}
+                        </button>
+                    ))}
+                </div>
+                <form className="chat-input-form" onSubmit={handleSendMessage}>
+                    {stt.isSupported() && (
+                        <>
+                            <select
+                                className="chat-voice-language"
+                                value={recognitionLanguage}
+                                onChange={(e) => handleLanguageChange(e.target.value as RecognitionLanguage)}
+                                disabled={isListening}
+                                aria-label="Speaking language"
+                            >
+                                {RECOGNITION_LANGUAGES.map(({ code, label }) => <option key={code} value={code}>{label}</option>)}
+                            </select>
+                            <button
+                                type="button"
+                                className={`mic-button ${isListening ? 'listening' : ''}`}
+                                onPointerDown={(e) => { e.preventDefault(); startListening(); }}
+                                onPointerUp={stopListening}
+                                onPointerLeave={stopListening}
+                                onPointerCancel={stopListening}
+                                onKeyDown={(e) => { if ((e.key === ' ' || e.key === 'Enter') && !e.repeat) { e.preventDefault(); startListening(); } }}
+                                onKeyUp={(e) => { if (e.key === ' ' || e.key === 'Enter') stopListening(); }}
+                                disabled={isResponding}
+                                aria-pressed={isListening}
+                                aria-label="Hold to speak"
+                                title="Hold to speak"
+                            >
+                                <IconMic/>
+                            </button>
+                        </>
+                    )}
+                    <input
+                        ref={inputRef}
+                        type="text"
+                        className={`chat-input ${isListening ? 'listening' : ''}`}
+                        placeholder={isListening ? 'Listening…' : `Ask ${participants.find(p => p.id === addressee)?.title ?? 'a question'}...`}
+                        value={userInput}
+                        onChange={(e) => setUserInput(e.target.value)}
+                        readOnly={isListening}
+                        disabled={isResponding}
+                        aria-label="Your message"
+                    />
+                    {isResponding ? (
+                        <button type="button" className="send-button" onClick={handleStop} aria-label="Stop reply">
+                            <IconStop/>
+                        </button>
+                    ) : (
+                        <button type="submit" className="send-button" disabled={!userInput.trim() || isListening} aria-label="Send message">
+                            <IconSend/>
+                        </button>
+                    )}
+                </form>
+            </div>
+        </div>
+    );
+};
+
+const REVIEW_GRADE_LABELS: Record<ReviewGrade, string> = { again: 'Again', hard: 'Hard', good: 'Good', easy: 'Easy' };
+
+const ReviewPage = () => {
+    const { session, setPage } = useAppContext();
+    const [cards, setCards] = useState<ReviewCard[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [index, setIndex] = useState(0);
+    const [selectedOption, setSelectedOption] = useState<number | null>(null);
+    const [correctCount, setCorrectCount] = useState(0);
+
+    useEffect(() => {
+        if (!session?.user) return;
+        let isMounted = true;
+        getDueReviewCards(session.user.id, REVIEW_SESSION_SIZE).then(data => {
+            if (!isMounted) return;
+            setCards(data);
+            setIsLoading(false);
+        });
+        return () => { isMounted = false; };
+    }, [session]);
+
+    const card = cards[index];
+    const isAnswered = selectedOption !== null;
+    const isCorrect = isAnswered && selectedOption === card?.correct_answer_index;
+
+    const handleSelect = (optionIndex: number) => {
+        if (isAnswered) return;
+        setSelectedOption(optionIndex);
+        if (optionIndex === card.correct_answer_index) setCorrectCount(c => c + 1);
+    };
+
+    const handleGrade = (grade: ReviewGrade) => {
+        if (!session?.user || !card) return;
+        // Saved in the background; the next card shouldn't wait on the network.
+        updateReviewSchedule(card.id, session.user.id, scheduleReview(card, grade));
+        setSelectedOption(null);
+        setIndex(i => i + 1);
+    };
+
+    return (
+        <main className="app-container review-page">
+            <div className="home-header">
+                <h1>Daily Review</h1>
+                <p>Questions you missed or guessed, spaced out so they stick.</p>
+            </div>
+            <div className="home-content review-session">
+                {isLoading ? (
+                    <div className="case-library-loading"><div className="loading-spinner"></div></div>
+                ) : !card ? (
+                    <div className="review-complete">
+                        <IconCheck />
+                        <h2>{cards.length > 0 ? 'Review complete' : 'Nothing to review'}</h2>
+                        <p>{cards.length > 0
+                            ? `You answered ${correctCount} of ${cards.length} correctly. Come back tomorrow for the next set.`
+                            : 'No questions are due today.'}</p>
+                        <button className="button button-primary" onClick={() => setPage('home')}>Back to Home</button>
+                    </div>
+                ) : (
+                    <>
+                        <div className="review-progress">
+                            <span>Question {index + 1} of {cards.length}</span>
+                            <span className="tag-badge tag-specialty">{card.specialty}</span>
+                        </div>
+                        <div className="review-context">
+                            <strong>From: {card.case_title}</strong>
+                            <p>{card.case_context}</p>
+                        </div>
+                        <div className="mcq-item">
+                            <p><strong>{card.question}</strong></p>
+                            <div className="choice-options">
+                                {card.options.map((option, optionIndex) => {
+                                    const isSelected = selectedOption === optionIndex;
+                                    const isAnswer = card.correct_answer_index === optionIndex;
+                                    return (
+                                        <button key={optionIndex}
+                                            className={`choice-option ${isAnswered && isAnswer ? 'correct' : ''} ${isAnswered && isSelected && !isAnswer ? 'incorrect' : ''}`}
+                                            onClick={() => handleSelect(optionIndex)} disabled={isAnswered}>
+                                            {isAnswered && (isAnswer || isSelected) && (isAnswer ? <IconCheck/> : <IconX className="choice-option-icon"/>)}
+                                            {option}
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                            {isAnswered && (
+                                <div className="explanation-box">
+                                    <h4>Explanation</h4>
+                                    <p>{card.explanation}</p>
+                                </div>
+                            )}
+                        </div>
+                        {isAnswered && (
+                            <div className="review-grades">
+                                {isCorrect ? (
+                                    <>
+                                        <p>How easy was that to recall?</p>
+                                        {REVIEW_GRADES.filter(g => g !== 'again').map(grade => (
+                                            <button key={grade} className="button button-outline" onClick={() => handleGrade(grade)}>{REVIEW_GRADE_LABELS[grade]}</button>
+                                        ))}
+                                    </>
+                                ) : (
+                                    <button className="button button-primary" onClick={() => handleGrade('again')}>Next Question</button>
+                                )}
+                            </div>
+                        )}
+                    </>
+                )}
+            </div>
+        </main>
+    );
+};
+
+const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+    achievement: 'Achievements',
+    reminder: 'Reminders',
+    new_feature: 'New Features',
+    system_message: 'System',
+};
+
+// The full notification history, loaded a page at a time as the end of the list scrolls into view.
+const NotificationsPage = () => {
+    const { session, notifications: liveNotifications, markNotificationAsRead, archiveNotification, deleteNotification, openNotificationLink } = useAppContext();
+    const [items, setItems] = useState<Notification[]>([]);
+    const [types, setTypes] = useState<NotificationType[]>([]);
+    const [showArchived, setShowArchived] = useState(false);
+    const [isLoading, setIsLoading] = useState(false);
+    const [hasMore, setHasMore] = useState(true);
+    const sentinelRef = useRef<HTMLDivElement>(null);
+    const latestRequestRef = useRef(0);
+
+    // Only the latest request may update the list, so a slow page for filters that have since changed is dropped.
+    const loadPage = useCallback(async (beforeId?: number) => {
+        if (!session?.user) return;
+        const request = ++latestRequestRef.current;
+        setIsLoading(true);
+        const page = await getNotifications(session.user.id, { types, archived: showArchived, beforeId });
+        if (request !== latestRequestRef.current) return;
+        setItems(prev => (beforeId === undefined ? page : [...prev, ...page]));
+        setHasMore(page.length === NOTIFICATION_PAGE_SIZE);
+        setIsLoading(false);
+    }, [session, types, showArchived]);
+
+    useEffect(() => {
+        setItems([]);
+        setHasMore(true);
+        loadPage();
+    }, [loadPage]);
+
+    useEffect(() => {
+        const sentinel = sentinelRef.current;
+        if (!sentinel || !hasMore || isLoading) return;
+        const observer = new IntersectionObserver(entries => {
+            if (entries[0].isIntersecting && items.length > 0) loadPage(items[items.length - 1].id);
+        });
+        observer.observe(sentinel);
+        return () => observer.disconnect();
+    }, [hasMore, isLoading, items, loadPage]);
+
+    // Keep the loaded pages in step with the realtime feed: pick up read state and put new
+    // inbox notifications that match the filters on top.
+    useEffect(() => {
+        setItems(prev => {
+            const live = new Map(liveNotifications.map(n => [n.id, n]));
+            const newestId = prev[0]?.id ?? 0;
+            const arrivals = showArchived ? [] : liveNotifications.filter(n => n.id > newestId && (types.length === 0 || types.includes(n.type)));
+            return [...arrivals, ...prev.map(n => live.get(n.id) ?? n)];
+        });
+    }, [liveNotifications, showArchived, types]);
+
+    const toggleType = (type: NotificationType) =>
+        setTypes(prev => (prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type]));
+
+    const handleOpen = (notification: Notification) => {
+        if (!notification.is_read) {
+            markNotificationAsRead(notification.id);
+            setItems(prev => prev.map(n => n.id === notification.id ? { ...n, is_read: true } : n));
+        }
+        if (notification.link) openNotificationLink(notification.link);
+    };
+
+    const handleRemove = async (notification: Notification, action: 'archive' | 'delete') => {
+        setItems(prev => prev.filter(n => n.id !== notification.id));
+        const success = action === 'delete'
+            ? await deleteNotification(notification)
+            : await archiveNotification(notification, !showArchived);
+        if (!success) loadPage();
+    };
+
+    return (
+        <main className="app-container review-page notifications-page">
+            <div className="home-header">
+                <h1>Notifications</h1>
+            </div>
+            <div className="notifications-toolbar">
+                <div className="treatment-kind-toggle">
+                    <button className={!showArchived ? 'active' : ''} onClick={() => setShowArchived(false)}>Inbox</button>
+                    <button className={showArchived ? 'active' : ''} onClick={() => setShowArchived(true)}>Archived</button>
+                </div>
+                <div className="notification-filters" role="group" aria-label="Filter by type">
+                    {(Object.keys(NOTIFICATION_TYPE_LABELS) as NotificationType[]).map(type => (
+                        <button key={type} className={`notification-filter ${types.includes(type) ? 'active' : ''}`} onClick={() => toggleType(type)} aria-pressed={types.includes(type)}>
+                            {NOTIFICATION_TYPE_LABELS[type]}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            <div className="home-content notification-list">
+                {items.map(n => (
+                    <div key={n.id} className={`notification-item ${!n.is_read ? 'unread' : ''}`} onClick={() => handleOpen(n)} role="button" tabIndex={0} onKeyDown={(e) => e.key === 'Enter' && handleOpen(n)}>
+                        <div className="notification-item-icon">
+                            <NotificationIcon type={n.type} />
+                        </div>
+                        <div className="notification-item-content">
+                            <strong>{n.title}</strong>
+                            <p>{n.message}</p>
+                            <span>{timeAgo(n.created_at)}</span>
+                        </div>
+                        <div className="notification-item-actions" onClick={(e) => e.stopPropagation()}>
+                            <button className="icon-button" onClick={() => handleRemove(n, 'archive')} aria-label={showArchived ? 'Move to inbox' : 'Archive'} title={showArchived ? 'Move to inbox' : 'Archive'}>
+                                <IconArchive />
+                            </button>
+                            <button className="icon-button" onClick={() => handleRemove(n, 'delete')} aria-label="Delete" title="Delete">
+                                <IconX />
+                            </button>
+                        </div>
+                    </div>
+                ))}
+                {!isLoading && items.length === 0 && (
+                    <div className="notification-empty">{showArchived ? 'No archived notifications.' : 'You have no notifications.'}</div>
+                )}
+                {isLoading && <div className="case-library-loading"><div className="loading-spinner"></div></div>}
+                {hasMore && <div ref={sentinelRef} className="notification-sentinel"></div>}
+            </div>
+        </main>
+    );
+};
+
+const ACHIEVEMENT_CATEGORY_LABELS: Record<AchievementCategory, string> = {
+    specialty: 'Specialties',
+    accuracy: 'Diagnostic Accuracy',
+    independence: 'Independence',
+    consistency: 'Consistency',
+};
+
+const AchievementsPage = () => {
+    const { session, focusedAchievementId } = useAppContext();
+    const [attempts, setAttempts] = useState<CaseAttempt[]>([]);
+    const [earned, setEarned] = useState<EarnedAchievement[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const focusedRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        if (!session?.user) return;
+        let isMounted = true;
+        Promise.all([getCaseAttempts(session.user.id), getEarnedAchievements(session.user.id)]).then(([attemptData, earnedData]) => {
+            if (!isMounted) return;
+            setAttempts(attemptData);
+            setEarned(earnedData);
+            setIsLoading(false);
+        });
+        return () => { isMounted = false; };
+    }, [session]);
+
+    useEffect(() => {
+        if (!isLoading) focusedRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }, [isLoading, focusedAchievementId]);
+
+    const statuses = useMemo(() => evaluateAchievements(attempts, earned), [attempts, earned]);
+    const categories = [...new Set(ACHIEVEMENTS.map(a => a.category))];
+
+    return (
+        <main className="app-container achievements-page">
+            <div className="home-header">
+                <h1>Achievements</h1>
+                <p>{isLoading ? 'Loading your badges…' : `${earned.length} of ${ACHIEVEMENTS.length} badges earned`}</p>
+            </div>
+            {isLoading ? (
+                <div className="case-library-loading"><div className="loading-spinner"></div></div>
+            ) : categories.map(category => (
+                <section key={category} className="achievement-category">
+                    <h3>{ACHIEVEMENT_CATEGORY_LABELS[category]}</h3>
+                    <div className="badge-gallery">
+                        {statuses.filter(s => s.achievement.category === category).map(({ achievement, earned: isEarned, earnedAt, progress }) => (
+                            <div
+                                key={achievement.id}
+                                ref={achievement.id === focusedAchievementId ? focusedRef : undefined}
+                                className={`badge-card ${isEarned ? 'earned' : 'locked'} ${achievement.id === focusedAchievementId ? 'focused' : ''}`}
+                            >
+                                <div className="badge-icon"><IconAward /></div>
+                                <h4>{achievement.title}</h4>
+                                <p>{achievement.description}</p>
+                                {isEarned ? (
+                                    <span className="badge-earned-date">Earned {new Date(earnedAt).toLocaleDateString()}</span>
+                                ) : progress.target > 1 && (
+                                    <div className="badge-progress">
+                                        <div className="debrief-bar"><div className="debrief-bar-fill" style={{ width: `${(progress.current / progress.target) * 100}%` }}></div></div>
+                                        <span>{progress.current}/{progress.target}</span>
+                                    </div>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                </section>
+            ))}
+        </main>
+    );
+};
+
+const AssignmentForm = ({ cohort, onCreated }: { cohort: Cohort; onCreated: (assignment: Assignment) => void }) => {
+    const { session } = useAppContext();
+    const [savedCases, setSavedCases] = useState<SavedCase[]>([]);
+    const [source, setSource] = useState<'case' | 'preset'>('preset');
+    const [title, setTitle] = useState('');
+    const [dueAt, setDueAt] = useState('');
+    const [instructions, setInstructions] = useState('');
+    const [caseId, setCaseId] = useState('');
+    const [preset, setPreset] = useState<AssignmentPreset>({ specialties: [], epas: [], competencies: [], challengeMode: false });
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!session?.user) return;
+        let isMounted = true;
+        getCases(session.user.id).then(data => { if (isMounted) setSavedCases(data); });
+        return () => { isMounted = false; };
+    }, [session]);
+
+    const canSubmit = title.trim() && dueAt && (source === 'preset' || caseId);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!session?.user || !canSubmit) return;
+        setIsSaving(true);
+        setError(null);
+        try {
+            const assignment = await createAssignment(session.user.id, {
+                cohort_id: cohort.id,
+                title: title.trim(),
+                instructions: instructions.trim() || null,
+                due_at: new Date(dueAt).toISOString(),
+                case_id: source === 'case' ? caseId : null,
+                preset: source === 'preset' ? presetToJson(preset) : null,
+            });
+            onCreated(assignment);
+            setTitle('');
+            setDueAt('');
+            setInstructions('');
+            setCaseId('');
+        } catch (error) {
+            setError(`Failed to create the assignment. ${error instanceof Error ? error.message : ''}`);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const setPresetValue = (key: 'specialties' | 'epas' | 'competencies', value: string) =>
+        setPreset(prev => ({ ...prev, [key]: value ? [value] : [] }));
+
+    return (
+        <form className="faculty-form" onSubmit={handleSubmit}>
+            <h4>New Assignment</h4>
+            <input className="input-field" placeholder="Title, e.g. Week 3: chest pain" value={title} onChange={e => setTitle(e.target.value)} required />
+            <label className="faculty-form-label">
+                Due
+                <input className="input-field" type="datetime-local" value={dueAt} onChange={e => setDueAt(e.target.value)} required />
+            </label>
+            <textarea className="input-field" placeholder="Instructions for students (optional)" value={instructions} onChange={e => setInstructions(e.target.value)} rows={2} />
+            <div className="treatment-kind-toggle">
+                <button type="button" className={source === 'preset' ? 'active' : ''} onClick={() => setSource('preset')}>Generation preset</button>
+                <button type="button" className={source === 'case' ? 'active' : ''} onClick={() => setSource('case')}>Saved case</button>
+            </div>
+            {source === 'case' ? (
+                <select className="input-field" value={caseId} onChange={e => setCaseId(e.target.value)} aria-label="Case">
+                    <option value="">Choose one of your saved cases</option>
+                    {savedCases.map(c => <option key={c.id} value={c.id}>{c.title} ({c.tags.specialty})</option>)}
+                </select>
+            ) : (
+                <div className="case-library-filters">
+                    <select className="input-field" value={preset.specialties?.[0] ?? ''} onChange={e => setPreset(prev => ({ ...prev, specialties: e.target.value ? [e.target.value as Specialty] : [], competencies: [] }))} aria-label="Specialty">
+                        <option value="">Any specialty</option>
+                        {ALL_SPECIALTIES.map(option => <option key={option} value={option}>{option}</option>)}
+                    </select>
+                    <select className="input-field" value={preset.epas?.[0] ?? ''} onChange={e => setPresetValue('epas', e.target.value)} aria-label="EPA">
+                        <option value="">Any EPA</option>
+                        {ALL_EPAS.map(option => <option key={option} value={option}>{option}</option>)}
+                    </select>
+                    <CompetencySelect value={preset.competencies?.[0] ?? ''} specialties={preset.specialties} onChange={code => setPresetValue('competencies', code)} />
+                    <label className="faculty-form-check">
+                        <input type="checkbox" checked={!!preset.challengeMode} onChange={e => setPreset(prev => ({ ...prev, challengeMode: e.target.checked }))} />
+                        Challenge Mode
+                    </label>
+                </div>
+            )}
+            <button type="submit" className="button button-primary" disabled={isSaving || !canSubmit}>
+                {isSaving && <div className="loading-spinner"></div>}
+                Assign to {cohort.name}
+            </button>
+            {error && <p className="alert alert-error">{error}</p>}
+        </form>
+    );
+};
+
+const CohortDetail = ({ cohort }: { cohort: Cohort }) => {
+    const [students, setStudents] = useState<CohortStudent[]>([]);
+    const [invites, setInvites] = useState<CohortInvite[]>([]);
+    const [assignments, setAssignments] = useState<Assignment[]>([]);
+    const [attempts, setAttempts] = useState<AssignmentAttempt[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [inviteEmail, setInviteEmail] = useState('');
+    const [inviteError, setInviteError] = useState<string | null>(null);
+    const [openAssignmentId, setOpenAssignmentId] = useState<string | null>(null);
+
+    useEffect(() => {
+        let isMounted = true;
+        setIsLoading(true);
+        Promise.all([getCohortStudents(cohort.id), getCohortInvites(cohort.id), getCohortAssignments([cohort.id])]).then(async ([studentData, inviteData, assignmentData]) => {
+            const attemptData = await getAssignmentAttempts(assignmentData.map(a => a.id));
+            if (!isMounted) return;
+            setStudents(studentData);
+            setInvites(inviteData);
+            setAssignments(assignmentData);
+            setAttempts(attemptData);
+            setIsLoading(false);
+        });
+        return () => { isMounted = false; };
+    }, [cohort.id]);
+
+    const summaries = useMemo(() => assignments.map(a => summarizeAssignment(a, students, attempts)), [assignments, students, attempts]);
+
+    const handleInvite = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!inviteEmail.trim()) return;
+        setInviteError(null);
+        try {
+            const invite = await inviteToCohort(cohort, inviteEmail);
+            setInvites(prev => [invite, ...prev]);
+            setInviteEmail('');
+        } catch (error) {
+            setInviteError(`Failed to send the invitation. ${error instanceof Error ? error.message : ''}`);
+        }
+    };
+
+    if (isLoading) return <div className="case-library-loading"><div className="loading-spinner"></div></div>;
+
+    return (
+        <div className="cohort-detail">
+            <div className="case-library-header">
+                <h2>{cohort.name}</h2>
+                {cohort.description && <p>{cohort.description}</p>}
+            </div>
+
+            <section className="faculty-section">
+                <h3>Assignments</h3>
+                {summaries.length === 0 ? (
+                    <div className="empty-state">No assignments yet.</div>
+                ) : summaries.map(({ assignment, completed, total, averageScore, students: progress }) => (
+                    <div key={assignment.id} className="assignment-item assignment-summary">
+                        <button type="button" className="assignment-summary-header" onClick={() => setOpenAssignmentId(id => (id === assignment.id ? null : assignment.id))} aria-expanded={openAssignmentId === assignment.id}>
+                            <div>
+                                <strong>{assignment.title}</strong>
+                                <p>{describeAssignment(assignment)} &middot; due {formatDueDate(assignment.due_at)}</p>
+                            </div>
+                            <span>{completed}/{total} done{averageScore !== null && ` · avg ${averageScore}%`}</span>
+                            <IconChevronDown className="accordion-icon" />
+                        </button>
+                        {openAssignmentId === assignment.id && (
+                            <table className="faculty-table">
+                                <thead><tr><th>Student</th><th>Status</th><th>Best score</th><th>First completed</th></tr></thead>
+                                <tbody>
+                                    {progress.map(({ student, status, score, completedAt }) => (
+                                        <tr key={student.id}>
+                                            <td>{student.full_name || student.email}</td>
+                                            <td><span className={`assignment-status ${status}`}>{ASSIGNMENT_STATUS_LABELS[status]}</span></td>
+                                            <td>{score === null ? '–' : `${score}%`}</td>
+                                            <td>{completedAt ? formatDueDate(completedAt) : '–'}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+                    </div>
+                ))}
+                <AssignmentForm cohort={cohort} onCreated={assignment => setAssignments(prev => [...prev, assignment].sort((a, b) => a.due_at.localeCompare(b.due_at)))} />
+            </section>
+
+            <section className="faculty-section">
+                <h3>Students ({students.length})</h3>
+                {students.length > 0 ? (
+                    <ul className="faculty-students">
+                        {students.map(student => <li key={student.id}><strong>{student.full_name || 'Unnamed student'}</strong> {student.email}</li>)}
+                    </ul>
+                ) : (
+                    <div className="empty-state">No students have joined yet.</div>
+                )}
+                <form className="faculty-invite" onSubmit={handleInvite}>
+                    <input className="input-field" type="email" placeholder="student@college.edu" value={inviteEmail} onChange={e => setInviteEmail(e.target.value)} aria-label="Student email" />
+                    <button type="submit" className="button button-outline" disabled={!inviteEmail.trim()}>Invite</button>
+                </form>
+                {inviteError && <p className="alert alert-error">{inviteError}</p>}
+                {invites.length > 0 && (
+                    <p className="faculty-pending">Waiting on: {invites.map(i => i.email).join(', ')}</p>
+                )}
+            </section>
+        </div>
+    );
+};
+
+const FacultyPage = () => {
+    const { session, profile } = useAppContext();
+    const [cohorts, setCohorts] = useState<Cohort[]>([]);
+    const [selectedCohortId, setSelectedCohortId] = useState<string | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [newCohortName, setNewCohortName] = useState('');
+    const [newCohortDescription, setNewCohortDescription] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!session?.user) return;
+        let isMounted = true;
+        getFacultyCohorts(session.user.id).then(data => {
+            if (!isMounted) return;
+            setCohorts(data);
+            setSelectedCohortId(id => id ?? data[0]?.id ?? null);
+            setIsLoading(false);
+        });
+        return () => { isMounted = false; };
+    }, [session]);
+
+    if (profile?.role !== 'faculty') {
+        return (
+            <main className="app-container review-page">
+                <div className="empty-state">The faculty view is only available to faculty accounts.</div>
+            </main>
+        );
+    }
+
+    const handleCreateCohort = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!session?.user || !newCohortName.trim()) return;
+        setError(null);
+        try {
+            const cohort = await createCohort(session.user.id, newCohortName.trim(), newCohortDescription.trim() || null);
+            setCohorts(prev => [cohort, ...prev]);
+            setSelectedCohortId(cohort.id);
+            setNewCohortName('');
+            setNewCohortDescription('');
+        } catch (error) {
+            setError(`Failed to create the cohort. ${error instanceof Error ? error.message : ''}`);
+        }
+    };
+
+    const selectedCohort = cohorts.find(c => c.id === selectedCohortId);
+
+    return (
+        <main className="app-container faculty-page">
+            <div className="home-header">
+                <h1>Faculty</h1>
+                <p>Cohorts, assignments and how your students are getting on.</p>
+            </div>
+            <div className="faculty-layout">
+                <aside className="home-content faculty-cohorts">
+                    <h3>Cohorts</h3>
+                    {isLoading ? (
+                        <div className="case-library-loading"><div className="loading-spinner"></div></div>
+                    ) : cohorts.map(cohort => (
+                        <button key={cohort.id} type="button" className={`faculty-cohort ${cohort.id === selectedCohortId ? 'active' : ''}`} onClick={() => setSelectedCohortId(cohort.id)}>
+                            {cohort.name}
+                        </button>
+                    ))}
+                    <form className="faculty-form" onSubmit={handleCreateCohort}>
+                        <h4>New Cohort</h4>
+                        <input className="input-field" placeholder="Name, e.g. MBBS 2023 Batch A" value={newCohortName} onChange={e => setNewCohortName(e.target.value)} />
+                        <input className="input-field" placeholder="Description (optional)" value={newCohortDescription} onChange={e => setNewCohortDescription(e.target.value)} />
+                        <button type="submit" className="button button-outline" disabled={!newCohortName.trim()}>Create Cohort</button>
+                        {error && <p className="alert alert-error">{error}</p>}
+                    </form>
+                </aside>
+                <div className="home-content faculty-main">
+                    {selectedCohort ? (
+                        <React.Fragment key={selectedCohort.id}><CohortDetail cohort={selectedCohort} /></React.Fragment>
+                    ) : !isLoading && (
+                        <div className="empty-state">Create a cohort to start inviting students.</div>
+                    )}
+                </div>
+            </div>
+        </main>
+    );
+};
+
+const QUESTION_BANK_SET_SIZES = [5, 10, 20];
+const QUESTION_BANK_MODES: { key: QuestionBankMode; label: string; description: string }[] = [
+    { key: 'tutor', label: 'Tutor', description: 'See the answer and explanation after each question.' },
+    { key: 'test', label: 'Test', description: 'Answer the whole set, then see how you did.' },
+];
+const GENERATED_QUESTION_COUNT = 5;
+
+const FlagButton = ({ question, item, onToggle }: { question: BankQuestion, item: QuestionBankItem | undefined, onToggle: (item: NewQuestionBankItem) => void }) => {
+    const isFlagged = !!item?.flagged;
+    return (
+        <button type="button" className={`question-flag ${isFlagged ? 'flagged' : ''}`} onClick={() => onToggle(toggleFlag(question, item))} aria-pressed={isFlagged}>
+            <IconFlag /> {isFlagged ? 'Flagged for review' : 'Flag for review'}
+        </button>
+    );
+};
+
+const QuestionStatsLine = ({ item }: { item: QuestionBankItem | undefined }) => {
+    const { answered, accuracy } = statsFor(item);
+    return (
+        <span className="question-stats">
+            {answered === 0 ? 'Not answered before' : `Answered ${answered} time${answered === 1 ? '' : 's'} · ${accuracy}% correct`}
+        </span>
+    );
+};
+
+const QuestionMeta = ({ question, item }: { question: BankQuestion, item: QuestionBankItem | undefined }) => (
+    <div className="review-progress">
+        <div className="case-tags">
+            <span className="tag-badge tag-specialty">{question.specialty}</span>
+            <span className="tag-badge tag-skill">{question.cognitiveSkill}</span>
+            {question.competency && <span className="tag-badge tag-framework" title={formatCompetency(question.competency)}>{question.competency}</span>}
+        </div>
+        <QuestionStatsLine item={item} />
+    </div>
+);
+
+const QuestionBankPage = () => {
+    const { session, profile, setPage } = useAppContext();
+    const [savedQuestions, setSavedQuestions] = useState<BankQuestion[]>([]);
+    const [generatedQuestions, setGeneratedQuestions] = useState<BankQuestion[]>([]);
+    const [items, setItems] = useState<Map<string, QuestionBankItem>>(new Map());
+    const [isLoading, setIsLoading] = useState(true);
+    const [filters, setFilters] = useState<QuestionBankFilters>({});
+    const [mode, setMode] = useState<QuestionBankMode>('tutor');
+    const [setSize, setSetSize] = useState(10);
+    const [isGeneratingQuestions, setIsGeneratingQuestions] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [practiceSet, setPracticeSet] = useState<BankQuestion[] | null>(null);
+    const [index, setIndex] = useState(0);
+    const [answers, setAnswers] = useState<Record<number, number>>({});
+    const [isFinished, setIsFinished] = useState(false);
+
+    useEffect(() => {
+        if (!session?.user) return;
+        let isMounted = true;
+        Promise.all([getCases(session.user.id), getQuestionBankItems(session.user.id)]).then(([cases, bankItems]) => {
+            if (!isMounted) return;
+            setSavedQuestions(mergeQuestionPool(questionsFromCases(cases), bankItems.map(questionFromItem)));
+            setItems(new Map(bankItems.map(item => [item.question, item])));
+            setIsLoading(false);
+        });
+        return () => { isMounted = false; };
+    }, [session]);
+
+    const pool = useMemo(() => mergeQuestionPool(generatedQuestions, savedQuestions), [generatedQuestions, savedQuestions]);
+    const matching = useMemo(() => filterQuestions(pool, filters, items), [pool, filters, items]);
+
+    // Updated optimistically; statistics are a convenience, so a failed save is only logged.
+    const saveItem = (item: NewQuestionBankItem) => {
+        if (!session?.user) return;
+        const userId = session.user.id;
+        setItems(prev => new Map(prev).set(item.question, optimisticItem(item, prev.get(item.question), userId)));
+        saveQuestionBankItem(session.user.id, item)
+            .then(saved => setItems(prev => new Map(prev).set(saved.question, saved)))
+            .catch(error => console.error("Failed to save question statistics:", error));
+    };
+
+    const handleGenerate = async () => {
+        if (!profile?.training_phase) return;
+        setIsGeneratingQuestions(true);
+        setError(null);
+        try {
+            const questions = await generateQuestions({
+                trainingPhase: profile.training_phase as TrainingPhase,
+                specialty: filters.specialty,
+                competency: filters.competency,
+                cognitiveSkill: filters.cognitiveSkill,
+                count: GENERATED_QUESTION_COUNT,
+            });
+            setGeneratedQuestions(prev => [...questions.map(questionFromGenerated), ...prev]);
+            setFilters(prev => ({ ...prev, flaggedOnly: false }));
+        } catch (error) {
+            console.error("Question generation failed:", error);
+            setError(`Failed to generate questions. ${error instanceof Error ? error.message : "An unknown error occurred."}`);
+        } finally {
+            setIsGeneratingQuestions(false);
+        }
+    };
+
+    const handleStart = () => {
+        setPracticeSet(buildPracticeSet(matching, items, setSize));
+        setIndex(0);
+        setAnswers({});
+        setIsFinished(false);
+    };
+
+    const handleSelect = (optionIndex: number) => {
+        if (!practiceSet) return;
+        if (mode === 'tutor') {
+            if (answers[index] !== undefined) return;
+            saveItem(recordAnswer(practiceSet[index], items.get(practiceSet[index].question), optionIndex));
+        }
+        setAnswers(prev => ({ ...prev, [index]: optionIndex }));
+    };
+
+    const handleFinish = () => {
+        if (!practiceSet) return;
+        if (mode === 'test') {
+            practiceSet.forEach((question, i) => {
+                if (answers[i] !== undefined) saveItem(recordAnswer(question, items.get(question.question), answers[i]));
+            });
+        }
+        setIsFinished(true);
+    };
+
+    if (practiceSet && isFinished) {
+        const correct = practiceSet.filter((q, i) => answers[i] === q.correctAnswerIndex).length;
+        return (
+            <main className="app-container review-page question-bank-page">
+                <div className="home-header">
+                    <h1>Practice Complete</h1>
+                    <p>You answered {correct} of {practiceSet.length} correctly.</p>
+                </div>
+                <div className="home-content review-session question-bank-results">
+                    {practiceSet.map((question, i) => (
+                        <React.Fragment key={question.question}>
+                            <QuestionMeta question={question} item={items.get(question.question)} />
+                            <McqItem mcq={question} label={`${i + 1}. `} selectedOption={answers[i]} isRevealed={true} onSelect={() => {}}>
+                                <FlagButton question={question} item={items.get(question.question)} onToggle={saveItem} />
+                            </McqItem>
+                        </React.Fragment>
+                    ))}
+                    <div className="review-grades">
+                        <button className="button button-outline" onClick={() => setPracticeSet(null)}>Practise Again</button>
+                        <button className="button button-primary" onClick={() => setPage('home')}>Back to Home</button>
+                    </div>
+                </div>
+            </main>
+        );
+    }
+
+    if (practiceSet) {
+        const question = practiceSet[index];
+        const isAnswered = answers[index] !== undefined;
+        const isLast = index === practiceSet.length - 1;
+        return (
+            <main className="app-container review-page question-bank-page">
+                <div className="home-header">
+                    <h1>Question Bank</h1>
+                    <p>{mode === 'tutor' ? 'Tutor mode' : 'Test mode'} &middot; Question {index + 1} of {practiceSet.length}</p>
+                </div>
+                <div className="home-content review-session">
+                    <QuestionMeta question={question} item={items.get(question.question)} />
+                    {question.caseTitle && <div className="review-context"><strong>From: {question.caseTitle}</strong></div>}
+                    <McqItem mcq={question} selectedOption={answers[index]} isRevealed={mode === 'tutor' && isAnswered} onSelect={handleSelect}>
+                        <FlagButton question={question} item={items.get(question.question)} onToggle={saveItem} />
+                    </McqItem>
+                    <div className="review-grades">
+                        <button className="button button-outline" onClick={() => setIndex(i => i - 1)} disabled={index === 0}>Previous</button>
+                        {isLast ? (
+                            <button className="button button-primary" onClick={handleFinish}>{mode === 'test' ? 'Finish Test' : 'Finish'}</button>
+                        ) : (
+                            <button className="button button-primary" onClick={() => setIndex(i => i + 1)} disabled={mode === 'tutor' && !isAnswered}>Next</button>
+                        )}
+                    </div>
+                </div>
+            </main>
+        );
+    }
+
+    return (
+        <main className="app-container review-page question-bank-page">
+            <div className="home-header">
+                <h1>Question Bank</h1>
+                <p>MCQs from your cases and freshly generated ones, without the patient interview.</p>
+            </div>
+            <div className="home-content review-session question-bank-setup">
+                <div className="case-library-filters">
+                    <select className="input-field" value={filters.specialty ?? ''} onChange={e => setFilters(p => ({ ...p, specialty: (e.target.value || undefined) as Specialty, competency: undefined }))} aria-label="Specialty">
+                        <option value="">All specialties</option>
+                        {ALL_SPECIALTIES.map(option => <option key={option} value={option}>{option}</option>)}
+                    </select>
+                    <CompetencySelect value={filters.competency ?? ''} specialties={filters.specialty ? [filters.specialty] : undefined} onChange={code => setFilters(p => ({ ...p, competency: code || undefined }))} placeholder="All competencies" />
+                    <select className="input-field" value={filters.cognitiveSkill ?? ''} onChange={e => setFilters(p => ({ ...p, cognitiveSkill: (e.target.value || undefined) as CognitiveSkill }))} aria-label="Cognitive skill">
+                        <option value="">All skills</option>
+                        {ALL_COGNITIVE_SKILLS.map(option => <option key={option} value={option}>{option}</option>)}
+                    </select>
+                </div>
+                <label className="question-bank-flagged">
+                    <input type="checkbox" checked={!!filters.flaggedOnly} onChange={e => setFilters(p => ({ ...p, flaggedOnly: e.target.checked }))} />
+                    Flagged questions only
+                </label>
+
+                <div className="treatment-kind-toggle">
+                    {QUESTION_BANK_MODES.map(({ key, label }) => (
+                        <button key={key} type="button" className={mode === key ? 'active' : ''} onClick={() => setMode(key)}>{label}</button>
+                    ))}
+                </div>
+                <p className="question-bank-mode-description">{QUESTION_BANK_MODES.find(m => m.key === mode)?.description}</p>
+
+                <div className="question-bank-size">
+                    <span>Questions per set</span>
+                    <div className="treatment-kind-toggle">
+                        {QUESTION_BANK_SET_SIZES.map(size => (
+                            <button key={size} type="button" className={setSize === size ? 'active' : ''} onClick={() => setSetSize(size)}>{size}</button>
+                        ))}
+                    </div>
+                </div>
+
+                {isLoading ? (
+                    <div className="case-library-loading"><div className="loading-spinner"></div></div>
+                ) : (
+                    <p className="question-bank-count">{matching.length} matching question{matching.length === 1 ? '' : 's'} available.</p>
+                )}
+
+                <div className="review-grades">
+                    <button className="button button-outline" onClick={handleGenerate} disabled={isGeneratingQuestions || !profile?.training_phase} title={!profile?.training_phase ? "Please select a training phase first" : undefined}>
+                        {isGeneratingQuestions && <div className="loading-spinner"></div>}
+                        Generate {GENERATED_QUESTION_COUNT} New Questions
+                    </button>
+                    <button className="button button-primary" onClick={handleStart} disabled={isLoading || matching.length === 0}>Start Practice</button>
+                </div>
+                {error && <p className="alert alert-error">{error}</p>}
+            </div>
+        </main>
+    );
+};
+
+const MockExamReport = ({ exam, report, percentile, onDone }: {
+    exam: MockExam;
+    report: ExamReport;
+    percentile: number | null;
+    onDone: () => void;
+}) => (
+    <main className="app-container debrief-page exam-page">
+        <div className="debrief-header">
+            <div>
+                <h1>Mock Exam Results</h1>
+                <p>{exam.cases.length} cases &middot; {report.total} questions</p>
+            </div>
+            <div className={`debrief-overall ${scoreClass(report.score)}`}>
+                <span>{report.score}</span>
+                <small>/ 100</small>
+            </div>
+        </div>
+
+        <div className="debrief-stats">
+            <div className="debrief-stat">
+                <span className="debrief-stat-value">{report.correct}/{report.total}</span>
+                <span className="debrief-stat-label">Correct answers</span>
+            </div>
+            <div className="debrief-stat">
+                <span className="debrief-stat-value">{report.answered}</span>
+                <span className="debrief-stat-label">Questions answered</span>
+            </div>
+            <div className="debrief-stat">
+                <span className="debrief-stat-value">{formatDuration(report.elapsedMs)}</span>
+                <span className="debrief-stat-label">Time taken</span>
+            </div>
+            <div className="debrief-stat">
+                <span className="debrief-stat-value">{percentile === null ? '–' : Math.round(percentile)}</span>
+                <span className="debrief-stat-label">{percentile === null ? 'Percentile unavailable' : `Percentile: above ${Math.round(percentile)}% of all attempts`}</span>
+            </div>
+        </div>
 
-    const scrollToBottom = () => {
-        messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-    };
+        <div className="debrief-layout">
+            <div className="home-content debrief-section">
+                <h3>Performance by Subject</h3>
+                {report.bySpecialty.map(({ specialty, correct, total }) => {
+                    const score = Math.round((correct / total) * 100);
+                    return (
+                        <div key={specialty} className="debrief-epa">
+                            <div className="debrief-epa-header">
+                                <strong>{specialty}</strong>
+                                <span>{correct}/{total}</span>
+                            </div>
+                            <div className="debrief-bar"><div className={`debrief-bar-fill ${scoreClass(score)}`} style={{ width: `${score}%` }}></div></div>
+                        </div>
+                    );
+                })}
+            </div>
 
-    useEffect(scrollToBottom, [messages]);
+            <div className="home-content debrief-section">
+                <h3>Answer Review</h3>
+                <ol className="exam-answer-review">
+                    {exam.questions.map((question, index) => {
+                        const answer = exam.answers[index];
+                        const isCorrect = answer === question.correctAnswerIndex;
+                        return (
+                            <li key={index} className={isCorrect ? 'correct' : 'incorrect'}>
+                                <strong>{question.question}</strong>
+                                <span className="exam-answer-case">Case {question.caseIndex + 1}: {exam.cases[question.caseIndex].chiefComplaint}</span>
+                                <p>
+                                    {isCorrect ? <IconCheck /> : <IconX className="choice-option-icon" />}
+                                    {answer === undefined ? 'Not answered' : `Your answer: ${question.options[answer]}`}
+                                    {!isCorrect && <> &middot; Correct: {question.options[question.correctAnswerIndex]}</>}
+                                </p>
+                                <p className="exam-answer-explanation">{question.explanation}</p>
+                            </li>
+                        );
+                    })}
+                </ol>
+            </div>
+        </div>
 
-    const handleSendMessage = async (e: React.FormEvent) => {
-        e.preventDefault();
-        if (!userInput.trim() || !chat || isResponding) return;
+        <div className="finish-case-action">
+            <button className="button button-primary" onClick={onDone}>Return Home</button>
+        </div>
+    </main>
+);
 
-        const userMessage: ChatMessage = {
-            sender: 'user',
-            text: userInput,
-            timestamp: new Date().toISOString()
-        };
-        
-        const patientThinkingMessage: ChatMessage = {
-            sender: 'patient',
-            text: 'Thinking...',
-            timestamp: new Date().toISOString()
-        };
+const MockExamPage = () => {
+    const { session, setPage } = useAppContext();
+    const userId = session?.user?.id;
+    const [exam, setExam] = useState<MockExam | null>(() => (userId ? loadStoredExam(userId) : null));
+    const [preparing, setPreparing] = useState<{ done: number; total: number } | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [questionIndex, setQuestionIndex] = useState(0);
+    const [pendingOption, setPendingOption] = useState<number | null>(null);
+    const [now, setNow] = useState(() => new Date());
+    const [percentile, setPercentile] = useState<number | null>(null);
+    const isMountedRef = useRef(true);
 
-        setMessages(prev => [...prev, userMessage, patientThinkingMessage]);
-        setUserInput('');
-        setIsResponding(true);
+    useEffect(() => {
+        isMountedRef.current = true;
+        return () => { isMountedRef.current = false; };
+    }, []);
 
-        try {
-            const response = await chat.sendMessage({ message: userInput });
-            const patientResponseText = response.text;
+    const updateExam = (next: MockExam) => {
+        setExam(next);
+        if (userId) localStorage.setItem(mockExamStorageKey(userId), JSON.stringify(next));
+    };
 
-            const patientMessage: ChatMessage = {
-                sender: 'patient',
-                text: patientResponseText,
-                timestamp: new Date().toISOString()
-            };
+    // The clock only ticks while the exam is running; running out of time submits it.
+    useEffect(() => {
+        if (!exam || exam.submittedAt) return;
+        const interval = setInterval(() => setNow(new Date()), 1000);
+        return () => clearInterval(interval);
+    }, [exam]);
 
-            setMessages(prev => [...prev.slice(0, -1), patientMessage]);
-            setLatestPatientMessage(patientResponseText);
+    useEffect(() => {
+        if (exam && !exam.submittedAt && isExamOver(exam, now)) updateExam(submitExam(exam, now));
+    }, [exam, now]);
+
+    const report = useMemo(() => (exam?.submittedAt ? scoreExam(exam) : null), [exam]);
 
+    // Also runs when a submitted exam is reopened after a reload; the save is keyed on the exam id.
+    useEffect(() => {
+        if (!exam || !report || !userId) return;
+        let isMounted = true;
+        saveExamAttempt(userId, buildExamAttempt(exam, report))
+            .then(() => getExamPercentile(report.score))
+            .then(value => { if (isMounted) setPercentile(value); })
+            .catch(error => console.error("Failed to save exam attempt:", error));
+        return () => { isMounted = false; };
+    }, [exam?.id, report, userId]);
+
+    const handleStart = async () => {
+        const specialties = planExamCases();
+        setError(null);
+        setPreparing({ done: 0, total: specialties.length });
+        try {
+            const cases: DiagnosticCase[] = [];
+            // One at a time, so the progress is meaningful and the model isn't hit with a burst of requests.
+            for (const specialty of specialties) {
+                cases.push(await generateCase({ trainingPhase: 'NExT/FMGE Prep', specialties: [specialty] }));
+                if (!isMountedRef.current) return;
+                setPreparing({ done: cases.length, total: specialties.length });
+            }
+            const newExam = createMockExam(cases);
+            setNow(new Date(newExam.startedAt));
+            setQuestionIndex(0);
+            updateExam(newExam);
         } catch (error) {
-            console.error("Error sending message:", error);
-            const errorMessage: ChatMessage = {
-                sender: 'system',
-                text: "Sorry, I'm having trouble responding right now. Please try again.",
-                timestamp: new Date().toISOString()
-            };
-            setMessages(prev => [...prev.slice(0, -1), errorMessage]);
+            console.error("Mock exam generation failed:", error);
+            if (isMountedRef.current) setError(`Failed to prepare the exam. ${error instanceof Error ? error.message : "An unknown error occurred."}`);
         } finally {
-            setIsResponding(false);
+            if (isMountedRef.current) setPreparing(null);
         }
     };
 
+    const handleDone = () => {
+        if (userId) localStorage.removeItem(mockExamStorageKey(userId));
+        setPage('home');
+    };
+
+    if (exam && report) {
+        return <MockExamReport exam={exam} report={report} percentile={percentile} onDone={handleDone} />;
+    }
+
+    if (!exam) {
+        const { cases, questions } = examQuestionCount();
+        const minutes = Math.round((questions * MOCK_EXAM_BLUEPRINT.secondsPerQuestion) / 60);
+        return (
+            <main className="app-container review-page exam-page">
+                <div className="home-header">
+                    <h1>NExT/FMGE Mock Exam</h1>
+                    <p>A timed paper balanced across the major subjects.</p>
+                </div>
+                <div className="home-content review-session">
+                    <ul className="exam-rules">
+                        <li>{cases} cases: {MOCK_EXAM_BLUEPRINT.entries.map(e => `${e.cases} ${e.specialty}`).join(', ')}, and one from {MOCK_EXAM_BLUEPRINT.electives.join(', ')}.</li>
+                        <li>Each case has a diagnosis question and its clinical MCQs, about {questions} questions in all.</li>
+                        <li>One clock runs for the whole exam: {minutes} minutes. It keeps running if you leave the page.</li>
+                        <li>Hints are disabled, and an answer can't be changed once submitted.</li>
+                        <li>Your score is compared with every other attempt at the end.</li>
+                    </ul>
+                    {preparing ? (
+                        <div className="exam-preparing">
+                            <div className="loading-spinner"></div>
+                            <p>Preparing case {Math.min(preparing.done + 1, preparing.total)} of {preparing.total}…</p>
+                        </div>
+                    ) : (
+                        <button className="button button-primary" onClick={handleStart}>Start Exam</button>
+                    )}
+                    {error && <p className="alert alert-error">{error}</p>}
+                </div>
+            </main>
+        );
+    }
+
+    const question = exam.questions[questionIndex];
+    const caseData = exam.cases[question.caseIndex];
+    const lockedAnswer = exam.answers[questionIndex];
+    const isLocked = lockedAnswer !== undefined;
+    const remainingMs = examRemainingMs(exam, now);
+    const answeredCount = Object.keys(exam.answers).length;
+
+    const goTo = (index: number) => {
+        setQuestionIndex(index);
+        setPendingOption(null);
+    };
+
+    const handleLock = () => {
+        if (pendingOption === null) return;
+        updateExam(lockExamAnswer(exam, questionIndex, pendingOption, new Date()));
+        setPendingOption(null);
+        if (questionIndex < exam.questions.length - 1) goTo(questionIndex + 1);
+    };
+
+    const handleSubmitExam = () => {
+        const unanswered = exam.questions.length - answeredCount;
+        if (unanswered > 0 && !window.confirm(`You have ${unanswered} unanswered question${unanswered === 1 ? '' : 's'}. Submit the exam anyway?`)) return;
+        updateExam(submitExam(exam, new Date()));
+    };
+
     return (
-        <div className="panel chat-panel">
-            <div className="panel-header">
-                <h3>Chat with Patient</h3>
-                {!isMobile && onRequestHint && isGeneratingHint !== undefined && (
-                    <button className="button button-outline hint-button" onClick={onRequestHint} disabled={isGeneratingHint || hintCount <= 0}>
-                        <IconLightbulb/>
-                        <span>Hint ({hintCount})</span>
-                        {isGeneratingHint && <div className="loading-spinner-inline"></div>}
+        <main className="app-container review-page exam-page">
+            <div className="exam-toolbar">
+                <span className={`exam-clock ${remainingMs < 5 * 60 * 1000 ? 'exam-clock-low' : ''}`} aria-live="off">{formatClock(remainingMs)}</span>
+                <span>{answeredCount} of {exam.questions.length} answered</span>
+                <button className="button button-outline" onClick={handleSubmitExam}>Submit Exam</button>
+            </div>
+            <div className="exam-navigator" role="navigation" aria-label="Questions">
+                {exam.questions.map((_, index) => (
+                    <button key={index} type="button"
+                        className={`${index === questionIndex ? 'active' : ''} ${exam.answers[index] !== undefined ? 'answered' : ''}`}
+                        onClick={() => goTo(index)} aria-label={`Question ${index + 1}`}>
+                        {index + 1}
                     </button>
-                )}
+                ))}
             </div>
-            <div className="panel-content">
-                <div className="chat-window">
-                    {messages.filter(msg => msg.sender !== 'patient').map((msg, index) => (
-                        <div key={index} className={`chat-message ${msg.sender}`}>
-                            <div className="message-bubble">{msg.text}</div>
-                        </div>
-                    ))}
-                    <div ref={messagesEndRef} />
+            <div className="home-content review-session">
+                <div className="review-progress">
+                    <span>Question {questionIndex + 1} of {exam.questions.length} &middot; Case {question.caseIndex + 1} of {exam.cases.length}</span>
+                    <span className="tag-badge tag-specialty">{caseData.tags.specialty}</span>
+                </div>
+                <div className="review-context exam-vignette">
+                    <strong>{caseData.patientProfile.age}-year-old {caseData.patientProfile.gender.toLowerCase()}: "{caseData.chiefComplaint}"</strong>
+                    <p>{caseData.historyOfPresentIllness}</p>
+                    <p><strong>Examination:</strong> {caseData.physicalExam}</p>
+                    <p><strong>Investigations:</strong> {caseData.labResults}</p>
+                </div>
+                <div className="mcq-item">
+                    <p><strong>{question.question}</strong></p>
+                    <div className="choice-options">
+                        {question.options.map((option, optionIndex) => {
+                            const isSelected = isLocked ? lockedAnswer === optionIndex : pendingOption === optionIndex;
+                            return (
+                                <button key={optionIndex}
+                                    className={`choice-option ${isSelected ? 'selected' : ''} ${isLocked && isSelected ? 'locked' : ''}`}
+                                    onClick={() => setPendingOption(optionIndex)} disabled={isLocked}>
+                                    {option}
+                                </button>
+                            );
+                        })}
+                    </div>
+                </div>
+                <div className="review-grades">
+                    <button className="button button-outline" onClick={() => goTo(questionIndex - 1)} disabled={questionIndex === 0}>Previous</button>
+                    {isLocked ? (
+                        <span className="exam-locked-note">Answer locked</span>
+                    ) : (
+                        <button className="button button-primary" onClick={handleLock} disabled={pendingOption === null}>Submit Answer</button>
+                    )}
+                    <button className="button button-outline" onClick={() => goTo(questionIndex + 1)} disabled={questionIndex === exam.questions.length - 1}>Next</button>
                 </div>
-                <form className="chat-input-form" onSubmit={handleSendMessage}>
-                    <input
-                        type="text"
-                        className="chat-input"
-                        placeholder="Ask a question..."
-                        value={userInput}
-                        onChange={(e) => setUserInput(e.target.value)}
-                        disabled={isResponding}
-                        aria-label="Your message"
-                    />
-                    <button type="submit" className="send-button" disabled={isResponding || !userInput.trim()} aria-label="Send message">
-                       {isResponding ? <div className="loading-spinner"></div> : <IconSend/>}
-                    </button>
-                </form>
             </div>
-        </div>
+        </main>
     );
 };
 
 const SimulationPage = () => {
     const { 
-        currentCase, isMobile, setPage, 
+        currentCase, activeAssignmentId, checkAchievements, isMobile, setPage, session,
         hintCount, updateHintCount 
     } = useAppContext();
     
     // Interaction State
     const [selectedDiagnosis, setSelectedDiagnosis] = useState<string | null>(null);
     const [selectedMcqAnswers, setSelectedMcqAnswers] = useState<Record<number, number>>({});
+    const [reviewDeckMcqs, setReviewDeckMcqs] = useState<number[]>([]);
+    const [differentialEntries, setDifferentialEntries] = useState<string[]>([]);
+    const [isDifferentialSubmitted, setIsDifferentialSubmitted] = useState(false);
+    const differentialRef = useRef({ entries: differentialEntries, isSubmitted: isDifferentialSubmitted });
+    differentialRef.current = { entries: differentialEntries, isSubmitted: isDifferentialSubmitted };
     const [activeTab, setActiveTab] = useState<ActiveTab>('chat');
     const [isFinishing, setIsFinishing] = useState(false);
-    const [latestPatientMessage, setLatestPatientMessage] = useState<string | null>(null);
+    // Set once the case is completed, so unmounting doesn't save back the state completeCase just cleared.
+    const isCaseCompletedRef = useRef(false);
+    const [patientReply, setPatientReply] = useState<PatientReply | null>(null);
 
-    // Chat State
-    const [chat, setChat] = useState<Chat | null>(null);
+    // Chat State: one session per participant in the encounter.
+    const [chats, setChats] = useState<EncounterChats | null>(null);
+    const [addressee, setAddressee] = useState<ParticipantId>('patient');
     const [messages, setMessages] = useState<ChatMessage[]>([]);
     const [isGeneratingHint, setIsGeneratingHint] = useState(false);
     const messagesRef = useRef(messages);
     messagesRef.current = messages;
+    // Tracked against the hidden checklist as the interview goes; only shown once the case is finished.
+    const coverage = useMemo(
+        () => (currentCase && hasHistoryChecklist(currentCase) ? trackCoverage(currentCase, messages) : null),
+        [currentCase, messages]
+    );
+    const [debrief, setDebrief] = useState<CaseDebrief | null>(null);
+
+    // Investigation State
+    const [investigationOrders, setInvestigationOrders] = useState<InvestigationOrder[]>([]);
+    const [now, setNow] = useState(() => Date.now());
+    const investigationOrdersRef = useRef(investigationOrders);
+    investigationOrdersRef.current = investigationOrders;
+    const hasPendingOrders = investigationOrders.some(order => order.readyAt > now);
+
+    // Patient State (only for cases with a trajectory). The clock pauses while the case is closed.
+    const [performedInterventions, setPerformedInterventions] = useState<PerformedIntervention[]>([]);
+    const performedInterventionsRef = useRef(performedInterventions);
+    performedInterventionsRef.current = performedInterventions;
+    const clockStartRef = useRef(Date.now());
+    const [treatmentOrders, setTreatmentOrders] = useState<TreatmentOrder[]>([]);
+    const treatmentOrdersRef = useRef(treatmentOrders);
+    treatmentOrdersRef.current = treatmentOrders;
+    const currentMinute = () => toSimulatedMinutes(Date.now() - clockStartRef.current);
+    const isDynamic = !!currentCase && isDynamicCase(currentCase);
+    const patientState = isDynamic
+        ? computePatientState(currentCase, toSimulatedMinutes(now - clockStartRef.current), performedInterventions)
+        : null;
+    const isPatientChanging = !!patientState && patientState.status !== 'stabilised';
+
+    // Tick the clock only while results are outstanding or the patient is still changing
+    useEffect(() => {
+        if (!hasPendingOrders && !isPatientChanging) return;
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, [hasPendingOrders, isPatientChanging]);
 
     // Load chat state from localStorage and initialize chat instance
     useEffect(() => {
@@ -1763,34 +4531,105 @@ const SimulationPage = () => {
         // Reset all state for new case
         setSelectedDiagnosis(null);
         setSelectedMcqAnswers({});
+        setReviewDeckMcqs([]);
         setActiveTab('chat');
         setIsFinishing(false);
-        setLatestPatientMessage(null);
+        isCaseCompletedRef.current = false;
+        setDebrief(null);
+        setPatientReply(null);
+        setAddressee(primaryParticipant(currentCase));
         setIsGeneratingHint(false);
 
-        const chatHistoryKey = `chatHistory_${currentCase.title}`;
+        const chatHistoryKey = `chatHistory_${currentCase.id ?? currentCase.title}`;
         let initialMessages: ChatMessage[] = [];
         try {
             const savedMessages = localStorage.getItem(chatHistoryKey);
             if (savedMessages) {
                 initialMessages = JSON.parse(savedMessages);
             }
+            // Histories saved before encounters had several participants credit every reply to 'patient',
+            // even when the mother was answering; give those replies to whoever answers the history now.
+            if (!initialMessages.some(m => m.addressee)) {
+                const respondent = primaryParticipant(currentCase);
+                initialMessages = initialMessages.map(m => (m.sender === 'patient' ? { ...m, sender: respondent } : m));
+            }
         } catch (error) {
             console.error("Failed to parse chat history from localStorage. Clearing it.", error);
             localStorage.removeItem(chatHistoryKey);
         }
         setMessages(initialMessages);
+
+        const investigationsKey = `investigations_${currentCase.id ?? currentCase.title}`;
+        let initialOrders: InvestigationOrder[] = [];
+        try {
+            const savedOrders = localStorage.getItem(investigationsKey);
+            if (savedOrders) {
+                initialOrders = JSON.parse(savedOrders);
+            }
+        } catch (error) {
+            console.error("Failed to parse investigation orders from localStorage. Clearing them.", error);
+            localStorage.removeItem(investigationsKey);
+        }
+        setInvestigationOrders(initialOrders);
+
+        const patientStateKey = `patientState_${currentCase.id ?? currentCase.title}`;
+        let savedPatientState: { elapsedMs: number; performed: PerformedIntervention[]; treatmentOrders?: TreatmentOrder[] } | null = null;
+        try {
+            const saved = localStorage.getItem(patientStateKey);
+            if (saved) {
+                savedPatientState = JSON.parse(saved);
+            }
+        } catch (error) {
+            console.error("Failed to parse patient state from localStorage. Clearing it.", error);
+            localStorage.removeItem(patientStateKey);
+        }
+        clockStartRef.current = Date.now() - (savedPatientState?.elapsedMs ?? 0);
+        setPerformedInterventions(savedPatientState?.performed ?? []);
+        setTreatmentOrders(savedPatientState?.treatmentOrders ?? []);
+        setNow(Date.now());
+
+        const differentialKey = `differential_${currentCase.id ?? currentCase.title}`;
+        let savedDifferential: { entries: string[]; isSubmitted: boolean } | null = null;
+        try {
+            const saved = localStorage.getItem(differentialKey);
+            if (saved) {
+                savedDifferential = JSON.parse(saved);
+            }
+        } catch (error) {
+            console.error("Failed to parse differential from localStorage. Clearing it.", error);
+            localStorage.removeItem(differentialKey);
+        }
+        setDifferentialEntries(savedDifferential?.entries ?? []);
+        setIsDifferentialSubmitted(savedDifferential?.isSubmitted ?? false);
         
-        const chatInstance = createChatForCase(currentCase);
-        setChat(chatInstance);
+        setChats(createEncounterChats(currentCase));
 
         // Save history on unmount
         return () => {
-            if (messagesRef.current.length > 0) {
+            if (!isCaseCompletedRef.current && messagesRef.current.length > 0) {
                 localStorage.setItem(chatHistoryKey, JSON.stringify(messagesRef.current));
             } else {
                 localStorage.removeItem(chatHistoryKey);
             }
+            if (!isCaseCompletedRef.current && investigationOrdersRef.current.length > 0) {
+                localStorage.setItem(investigationsKey, JSON.stringify(investigationOrdersRef.current));
+            } else {
+                localStorage.removeItem(investigationsKey);
+            }
+            if (!isCaseCompletedRef.current) {
+                localStorage.setItem(patientStateKey, JSON.stringify({
+                    elapsedMs: Date.now() - clockStartRef.current,
+                    performed: performedInterventionsRef.current,
+                    treatmentOrders: treatmentOrdersRef.current,
+                }));
+            } else {
+                localStorage.removeItem(patientStateKey);
+            }
+            if (!isCaseCompletedRef.current && (differentialRef.current.entries.length > 0 || differentialRef.current.isSubmitted)) {
+                localStorage.setItem(differentialKey, JSON.stringify(differentialRef.current));
+            } else {
+                localStorage.removeItem(differentialKey);
+            }
         };
     }, [currentCase]);
 
@@ -1803,12 +4642,62 @@ const SimulationPage = () => {
         }
     };
 
+    const addMcqToReviewDeck = (mcqIndex: number) => {
+        if (!currentCase || !session?.user || reviewDeckMcqs.includes(mcqIndex)) return;
+        setReviewDeckMcqs(prev => [...prev, mcqIndex]);
+        addReviewCard(session.user.id, createReviewCard(currentCase, currentCase.mcqs[mcqIndex]))
+            .catch(error => console.error("Failed to add question to review deck:", error));
+    };
+
     const handleSelectMcqAnswer = (mcqIndex: number, optionIndex: number) => {
         if (selectedMcqAnswers[mcqIndex] === undefined && currentCase) {
             setSelectedMcqAnswers(prev => ({ ...prev, [mcqIndex]: optionIndex }));
+            // Missed questions go straight into the review deck; guessed ones are added from the panel.
+            if (optionIndex !== currentCase.mcqs[mcqIndex].correctAnswerIndex) {
+                addMcqToReviewDeck(mcqIndex);
+            }
         }
     };
 
+    // Every persona sees the treatments given and the patient's condition as of the moment each message is sent.
+    const encounterChats = useMemo(() => {
+        if (!chats || !currentCase) return chats;
+        const getStatusNote = () => {
+            const statusNote = isDynamicCase(currentCase)
+                ? buildPatientStatusNote(computePatientState(currentCase, currentMinute(), performedInterventionsRef.current))
+                : null;
+            return [buildTreatmentNote(treatmentOrdersRef.current), statusNote].filter(Boolean).join('\n') || null;
+        };
+        const wrapped: EncounterChats = {};
+        for (const { id } of encounterParticipants(currentCase)) {
+            const chat = chats[id];
+            if (chat) wrapped[id] = withPatientStatus(chat, getStatusNote);
+        }
+        return wrapped;
+    }, [chats, currentCase]);
+
+    const handlePlaceOrder = (newOrder: NewTreatmentOrder) => {
+        if (!currentCase) return;
+        const order: TreatmentOrder = { ...newOrder, atMinute: currentMinute() };
+        setTreatmentOrders(prev => [...prev, order]);
+        // Orders that match a stabilising intervention count as given at this simulated minute.
+        if (isDynamic) {
+            const given = detectInterventions(currentCase, order, performedInterventionsRef.current);
+            if (given.length > 0) {
+                setPerformedInterventions(prev => [...prev, ...given]);
+            }
+        }
+        setNow(Date.now());
+    };
+
+    const handleOrderInvestigation = (investigationId: string) => {
+        const investigation = getInvestigation(investigationId);
+        if (!investigation || investigationOrders.some(order => order.investigationId === investigationId)) return;
+        const orderedAt = Date.now();
+        setNow(orderedAt);
+        setInvestigationOrders(prev => [...prev, createInvestigationOrder(investigation, orderedAt)]);
+    };
+
     const handleRequestHint = async () => {
         if (!currentCase || hintCount <= 0 || isGeneratingHint) return;
         setIsGeneratingHint(true);
@@ -1817,7 +4706,8 @@ const SimulationPage = () => {
             const hintMessage: ChatMessage = {
                 sender: 'system',
                 text: newHint,
-                timestamp: new Date().toISOString()
+                timestamp: new Date().toISOString(),
+                isHint: true
             };
             setMessages(prev => [...prev, hintMessage]);
             updateHintCount(hintCount - 1);
@@ -1833,14 +4723,41 @@ const SimulationPage = () => {
         }
     };
 
-    const handleFinishCase = async () => {
+    const handleFinishCase = () => {
+        if (!currentCase) return;
+        const caseDebrief = buildDebrief({
+            caseData: currentCase,
+            selectedDiagnosis,
+            mcqAnswers: selectedMcqAnswers,
+            hintsUsed: messages.filter(m => m.isHint).length,
+            elapsedMs: Date.now() - clockStartRef.current,
+            chatTurns: messages.filter(m => m.sender === 'user').length,
+            coverage,
+            differentialEntries,
+            investigationOrders,
+            treatmentOrders,
+            performedInterventions,
+        });
+        setDebrief(caseDebrief);
+        if (session?.user) {
+            saveCaseAttempt(session.user.id, buildCaseAttempt(currentCase, caseDebrief, selectedDiagnosis, selectedMcqAnswers, activeAssignmentId))
+                .then(() => checkAchievements().catch(error => console.error("Failed to check achievements:", error)))
+                .catch(error => console.error("Failed to save case attempt:", error));
+        }
+    };
+
+    const completeCase = async () => {
         if (!currentCase) return;
         setIsFinishing(true);
+        isCaseCompletedRef.current = true;
 
         try {
             // Clear history for this case from local storage
-            const chatHistoryKey = `chatHistory_${currentCase.title}`;
+            const chatHistoryKey = `chatHistory_${currentCase.id ?? currentCase.title}`;
             localStorage.removeItem(chatHistoryKey);
+            localStorage.removeItem(`investigations_${currentCase.id ?? currentCase.title}`);
+            localStorage.removeItem(`patientState_${currentCase.id ?? currentCase.title}`);
+            localStorage.removeItem(`differential_${currentCase.id ?? currentCase.title}`);
         } catch(error) {
             console.error("Error during case finishing:", error);
             // Optionally, show an error to the user
@@ -1852,11 +4769,15 @@ const SimulationPage = () => {
 
     if (!currentCase) return null;
 
+    if (debrief) {
+        return <CaseDebriefView currentCase={currentCase} debrief={debrief} coverage={coverage} onDone={completeCase} isFinishing={isFinishing} />;
+    }
+
     // --- RENDER LOGIC ---
     if (isMobile) {
         return (
             <main className={`app-container simulation-page mobile-view tab-${activeTab}`}>
-                {activeTab === 'chat' && <PatientVisualizer latestPatientMessage={latestPatientMessage} />}
+                {activeTab === 'chat' && <PatientVisualizer reply={patientReply} />}
                 
                 <SimulationHeaderMobile 
                     activeTab={activeTab} 
@@ -1866,22 +4787,51 @@ const SimulationPage = () => {
                     hintCount={hintCount}
                     isGeneratingHint={isGeneratingHint}
                 />
+
+                {patientState && <PatientMonitor patientState={patientState} age={currentCase.patientProfile.age} />}
                 
                 {activeTab === 'chat' && (
                     <ChatWindow 
-                        chat={chat}
+                        chats={encounterChats}
+                        addressee={addressee}
+                        onChangeAddressee={setAddressee}
                         messages={messages}
                         setMessages={setMessages}
-                        setLatestPatientMessage={setLatestPatientMessage}
+                        setPatientReply={setPatientReply}
                     />
                 )}
 
                 <div className="simulation-content-mobile">
-                    {activeTab === 'case' && <MobileCaseInfoView currentCase={currentCase} />}
+                    {activeTab === 'case' && 
+                        <MobileCaseInfoView 
+                            currentCase={currentCase}
+                            investigationOrders={investigationOrders}
+                            now={now}
+                            isRevealed={!!selectedDiagnosis}
+                            patientState={patientState}
+                        />
+                    }
+                    {activeTab === 'investigations' && 
+                        <InvestigationsPanel
+                            investigationOrders={investigationOrders}
+                            onOrderInvestigation={handleOrderInvestigation}
+                            now={now}
+                        />
+                    }
+                    {activeTab === 'treatment' && 
+                        <TreatmentPanel
+                            treatmentOrders={treatmentOrders}
+                            onPlaceOrder={handlePlaceOrder}
+                        />
+                    }
                     {activeTab === 'diagnosis' && 
                         <DiagnosisPanel 
                             selectedDiagnosis={selectedDiagnosis}
                             onSelectDiagnosis={handleSelectDiagnosis}
+                            differentialEntries={differentialEntries}
+                            onChangeDifferential={setDifferentialEntries}
+                            isDifferentialSubmitted={isDifferentialSubmitted}
+                            onSubmitDifferential={() => setIsDifferentialSubmitted(true)}
                         />
                     }
                     {activeTab === 'questions' && 
@@ -1889,8 +4839,13 @@ const SimulationPage = () => {
                             selectedDiagnosis={selectedDiagnosis}
                             selectedMcqAnswers={selectedMcqAnswers}
                             onSelectMcqAnswer={handleSelectMcqAnswer}
+                            reviewDeckMcqs={reviewDeckMcqs}
+                            onAddToReviewDeck={addMcqToReviewDeck}
                             onFinishCase={handleFinishCase}
                             isFinishing={isFinishing}
+                            investigationOrders={investigationOrders}
+                            performedInterventions={performedInterventions}
+                            treatmentOrders={treatmentOrders}
                         />
                     }
                 </div>
@@ -1901,31 +4856,59 @@ const SimulationPage = () => {
     // --- DESKTOP RENDER ---
     return (
         <main className="app-container simulation-page desktop-view">
-            <CaseInfoPanel currentCase={currentCase} />
+            <CaseInfoPanel
+                currentCase={currentCase}
+                investigationOrders={investigationOrders}
+                now={now}
+                isRevealed={!!selectedDiagnosis}
+                patientState={patientState}
+            />
             <div className="central-panel">
-                <PatientVisualizer latestPatientMessage={latestPatientMessage} />
+                {patientState && <PatientMonitor patientState={patientState} age={currentCase.patientProfile.age} />}
+                <PatientVisualizer reply={patientReply} />
             </div>
             <div className="right-panel">
                 <div className="tab-nav">
                     <button className={`tab-nav-button ${activeTab === 'chat' ? 'active' : ''}`} onClick={() => setActiveTab('chat')}>Chat</button>
+                    <button className={`tab-nav-button ${activeTab === 'investigations' ? 'active' : ''}`} onClick={() => setActiveTab('investigations')}>Investigations</button>
+                    <button className={`tab-nav-button ${activeTab === 'treatment' ? 'active' : ''}`} onClick={() => setActiveTab('treatment')}>Treatment</button>
                     <button className={`tab-nav-button ${activeTab === 'diagnosis' ? 'active' : ''}`} onClick={() => setActiveTab('diagnosis')}>Diagnosis</button>
                     <button className={`tab-nav-button ${activeTab === 'questions' ? 'active' : ''}`} onClick={() => setActiveTab('questions')}>Questions</button>
                 </div>
 
                 {activeTab === 'chat' && (
                     <ChatWindow 
-                        chat={chat}
+                        chats={encounterChats}
+                        addressee={addressee}
+                        onChangeAddressee={setAddressee}
                         messages={messages}
                         setMessages={setMessages}
-                        setLatestPatientMessage={setLatestPatientMessage}
+                        setPatientReply={setPatientReply}
                         onRequestHint={handleRequestHint}
                         isGeneratingHint={isGeneratingHint}
                     />
                 )}
+                {activeTab === 'investigations' && (
+                    <InvestigationsPanel
+                        investigationOrders={investigationOrders}
+                        onOrderInvestigation={handleOrderInvestigation}
+                        now={now}
+                    />
+                )}
+                {activeTab === 'treatment' && (
+                    <TreatmentPanel
+                        treatmentOrders={treatmentOrders}
+                        onPlaceOrder={handlePlaceOrder}
+                    />
+                )}
                 {activeTab === 'diagnosis' && (
                     <DiagnosisPanel
                         selectedDiagnosis={selectedDiagnosis}
                         onSelectDiagnosis={handleSelectDiagnosis}
+                        differentialEntries={differentialEntries}
+                        onChangeDifferential={setDifferentialEntries}
+                        isDifferentialSubmitted={isDifferentialSubmitted}
+                        onSubmitDifferential={() => setIsDifferentialSubmitted(true)}
                     />
                 )}
                 {activeTab === 'questions' && (
@@ -1933,8 +4916,13 @@ const SimulationPage = () => {
                         selectedDiagnosis={selectedDiagnosis}
                         selectedMcqAnswers={selectedMcqAnswers}
                         onSelectMcqAnswer={handleSelectMcqAnswer}
+                        reviewDeckMcqs={reviewDeckMcqs}
+                        onAddToReviewDeck={addMcqToReviewDeck}
                         onFinishCase={handleFinishCase}
                         isFinishing={isFinishing}
+                        investigationOrders={investigationOrders}
+                        performedInterventions={performedInterventions}
+                        treatmentOrders={treatmentOrders}
                     />
                 )}
             </div>
@@ -1943,82 +4931,47 @@ const SimulationPage = () => {
 };
 
 
-const PatientVisualizer = ({ latestPatientMessage }: { latestPatientMessage: string | null }) => {
-    const { currentCase, patientVideos } = useAppContext();
+const SpeechControls = () => {
+    const { speechSettings, updateSpeechSettings } = useAppContext();
+    const [isOpen, setIsOpen] = useState(false);
+    const { muted, volume, speed } = speechSettings;
+
+    return (
+        <div className="speech-controls">
+            <button className="speech-controls-toggle" onClick={() => setIsOpen(!isOpen)} aria-expanded={isOpen} aria-label="Voice settings">
+                {muted || volume === 0 ? <IconVolumeOff /> : <IconVolume />}
+            </button>
+            {isOpen && (
+                <div className="speech-controls-panel">
+                    <label className="speech-controls-mute">
+                        <input type="checkbox" checked={muted} onChange={e => updateSpeechSettings({ muted: e.target.checked })} />
+                        Mute patient voice
+                    </label>
+                    <label>
+                        Volume
+                        <input type="range" min={0} max={1} step={0.05} value={volume} onChange={e => updateSpeechSettings({ volume: Number(e.target.value) })} disabled={muted} />
+                    </label>
+                    <label>
+                        Speed
+                        <select className="input-field" value={speed} onChange={e => updateSpeechSettings({ speed: Number(e.target.value) })} disabled={muted}>
+                            {SPEECH_SPEEDS.map(option => <option key={option} value={option}>{option}×</option>)}
+                        </select>
+                    </label>
+                </div>
+            )}
+        </div>
+    );
+};
+
+const PatientVisualizer = ({ reply }: { reply: PatientReply | null }) => {
+    const { currentCase, patientVideos, speechSettings } = useAppContext();
+    const participants = useMemo(() => (currentCase ? encounterParticipants(currentCase) : []), [currentCase]);
     const [isSpeaking, setIsSpeaking] = useState(false);
-    const [displayedMessage, setDisplayedMessage] = useState<string | null>(null);
     const [playersReady, setPlayersReady] = useState({ idle: false, talking: false });
     const idlePlayerRef = useRef<HTMLIFrameElement>(null);
     const talkingPlayerRef = useRef<HTMLIFrameElement>(null);
-    const audioRef = useRef<HTMLAudioElement>(null);
-
-    const ELEVENLABS_API_KEY = "sk_534b7d31eca335c36de4403f34172517d3a46117adcedd64";
-
-    const getElevenLabsAudio = async (text: string, gender: 'Male' | 'Female' | null): Promise<string | null> => {
-        if (!text || text.trim().length === 0) {
-            console.log("TTS skipped for empty message.");
-            return null;
-        }
-        
-        const femaleVoiceId = '21m00Tcm4TlvDq8ikWAM'; // Rachel
-        const maleVoiceId = 'pNInz6obpgDQGcFmaJgB';   // Adam
-        
-        const voiceId = gender === 'Male' ? maleVoiceId : femaleVoiceId;
-        const url = `https://api.elevenlabs.io/v1/text-to-speech/${voiceId}`;
-        
-        try {
-            const response = await fetch(url, {
-                method: 'POST',
-                headers: {
-                    'Accept': 'audio/mpeg',
-                    'Content-Type': 'application/json',
-                    'xi-api-key': ELEVENLABS_API_KEY,
-                },
-                body: JSON.stringify({
-                    text: text,
-                    model_id: 'eleven_monolingual_v1',
-                    voice_settings: { stability: 0.5, similarity_boost: 0.5 },
-                }),
-            });
-
-            if (!response.ok) {
-                const errorBody = await response.json().catch(() => response.text());
-                console.error('ElevenLabs API request failed:', response.status, response.statusText, errorBody);
-                return null;
-            }
-
-            if (response.headers.get('Content-Type')?.includes('application/json')) {
-                const errorBody = await response.json();
-                console.error('ElevenLabs returned a JSON error instead of audio:', errorBody);
-                return null;
-            }
-
-            if (response.headers.get('Content-Type') !== 'audio/mpeg') {
-                const bodySnippet = await response.text().then(t => t.slice(0, 200));
-                console.error('ElevenLabs returned an unexpected content type:', response.headers.get('Content-Type'), 'Body Snippet:', bodySnippet);
-                return null;
-            }
-
-            const audioBlob = await response.blob();
-            // A valid audio file should be larger than a simple error message.
-            if (audioBlob.size < 1024) { 
-                console.error('ElevenLabs returned an unexpectedly small audio file, which may be an error.', `Size: ${audioBlob.size} bytes`);
-                 // Try to read it as text to see if it's an error message
-                const textError = await audioBlob.text().catch(() => "Could not read blob as text.");
-                console.error("Blob content as text:", textError);
-                return null;
-            }
-
-            return URL.createObjectURL(audioBlob);
-        } catch (error) {
-            console.error('Error during TTS fetch from ElevenLabs:', error);
-            return null;
-        }
-    };
-
-    useEffect(() => {
-        setDisplayedMessage(latestPatientMessage);
-    }, [latestPatientMessage]);
+    const speechSettingsRef = useRef(speechSettings);
+    speechSettingsRef.current = speechSettings;
 
     // Listen for player events from the iframes
     useEffect(() => {
@@ -2047,55 +5000,92 @@ const PatientVisualizer = ({ latestPatientMessage }: { latestPatientMessage: str
         }
     }, [patientVideos]);
 
-    // Control speaking state and TTS playback with ElevenLabs
+    // Speech is queued a sentence at a time as the reply streams in. Every queued sentence is
+    // prepared straight away and played back in order, so later sentences are usually ready by
+    // the time the one before finishes. Bumping the generation drops the queue.
+    const speechQueueRef = useRef<Promise<PreparedSpeech | null>[]>([]);
+    const speechRef = useRef({ replyId: -1, queued: 0, generation: 0, isPlaying: false, utterance: null as Utterance | null });
+
+    const stopSpeech = useCallback(() => {
+        const speech = speechRef.current;
+        speech.generation++;
+        speech.isPlaying = false;
+        speechQueueRef.current.forEach(pending => pending.then(prepared => prepared?.release()));
+        speechQueueRef.current = [];
+        speech.utterance?.stop();
+        speech.utterance = null;
+        setIsSpeaking(false);
+    }, []);
+
+    const playNextSentence = useCallback(async () => {
+        const speech = speechRef.current;
+        const generation = speech.generation;
+        const next = speechQueueRef.current.shift();
+        if (!next) {
+            speech.isPlaying = false;
+            setIsSpeaking(false);
+            return;
+        }
+        speech.isPlaying = true;
+        const prepared = await next;
+        if (generation !== speech.generation) {
+            prepared?.release();
+            return;
+        }
+        if (prepared) {
+            const utterance = prepared.play(speechSettingsRef.current);
+            speech.utterance = utterance;
+            setIsSpeaking(true);
+            await utterance.done;
+            if (generation !== speech.generation) return;
+            speech.utterance = null;
+        }
+        // A sentence that couldn't be prepared is skipped rather than stalling the rest.
+        playNextSentence();
+    }, []);
+
     useEffect(() => {
-        let audioUrl: string | null = null;
-        let isMounted = true;
+        if (!reply || !currentCase || !playersReady.idle || !playersReady.talking) return;
+        const speech = speechRef.current;
+        if (reply.id !== speech.replyId) {
+            stopSpeech();
+            speech.replyId = reply.id;
+            speech.queued = 0;
+        }
+        if (reply.isCancelled) {
+            stopSpeech();
+            return;
+        }
+        const sentences = reply.sentences.slice(speech.queued);
+        speech.queued = reply.sentences.length;
+        // Muted replies are only subtitled; nothing is synthesised for them.
+        if (sentences.length === 0 || speechSettingsRef.current.muted) return;
+        // Each participant keeps their own voice.
+        const speaker = participants.find(p => p.id === reply.speaker);
+        if (!speaker) return;
+        const voice = { age: speaker.age, gender: speaker.gender, ethnicity: speaker.ethnicity };
+        const tts = getTtsProvider();
+        speechQueueRef.current.push(...sentences.map(sentence => tts.prepare(sentence, voice).catch(error => {
+            console.error("Failed to prepare patient speech:", error);
+            return null;
+        })));
+        if (!speech.isPlaying) playNextSentence();
+    }, [reply, currentCase, participants, playersReady, stopSpeech, playNextSentence]);
 
-        const playAudio = async () => {
-            if (displayedMessage && playersReady.idle && playersReady.talking) {
-                 // Stop any currently playing audio before starting new TTS
-                if (audioRef.current && !audioRef.current.paused) {
-                    audioRef.current.pause();
-                }
+    useEffect(() => {
+        if (speechSettings.muted) stopSpeech();
+        else speechRef.current.utterance?.setPlayback(speechSettings);
+    }, [speechSettings, stopSpeech]);
 
-                audioUrl = await getElevenLabsAudio(displayedMessage, patientVideos.gender);
-                
-                if (!isMounted) {
-                    if (audioUrl) URL.revokeObjectURL(audioUrl);
-                    return;
-                }
+    useEffect(() => stopSpeech, [stopSpeech]);
 
-                if (audioRef.current && audioUrl) {
-                    audioRef.current.src = audioUrl;
-                    audioRef.current.play().catch(e => {
-                        console.error("Audio play() failed. This might be due to browser autoplay restrictions.", e);
-                        setIsSpeaking(false); // Ensure state is correct on failure
-                    });
-                } else {
-                    // If audio generation failed, ensure we aren't stuck in a speaking state
-                    if (displayedMessage) {
-                        console.warn("TTS audio generation failed or returned null for message:", displayedMessage);
-                    }
-                    setIsSpeaking(false);
-                }
-            }
-        };
-        
-        playAudio();
+    const subtitle = reply && (reply.text || (reply.isStreaming ? '…' : null));
+    // Only the person on screen moves their lips; anyone else is heard off camera and named in the subtitle.
+    const isOnScreen = !currentCase || reply?.speaker === primaryParticipant(currentCase);
+    const offScreenSpeaker = isOnScreen ? null : participants.find(p => p.id === reply?.speaker);
+    const isTalking = isSpeaking && isOnScreen;
+    const subtitleText = subtitle && (offScreenSpeaker ? <><span className="patient-subtitle-speaker">{offScreenSpeaker.name}</span>{subtitle}</> : subtitle);
 
-        return () => {
-            isMounted = false;
-            if (audioUrl) {
-                URL.revokeObjectURL(audioUrl);
-            }
-            if (audioRef.current) {
-                audioRef.current.pause();
-                audioRef.current.src = '';
-            }
-        };
-    }, [displayedMessage, playersReady, patientVideos.gender]);
-    
     const videosExist = patientVideos.idle && patientVideos.talking;
     const arePlayersReady = playersReady.idle && playersReady.talking;
     const isAvatarLoading = videosExist && !arePlayersReady;
@@ -2106,11 +5096,12 @@ const PatientVisualizer = ({ latestPatientMessage }: { latestPatientMessage: str
             <div className="patient-visualizer">
                 <div className="patient-icon-fallback">
                     <IconPatient />
-                    <p>{currentCase?.patientProfile.name || "Patient"}</p>
+                    <p>{currentCase ? speakerFor(currentCase.patientProfile).name : "Patient"}</p>
                 </div>
-                 {displayedMessage && (
+                <SpeechControls />
+                 {subtitle && (
                     <p className="patient-subtitle-overlay" role="status">
-                        {displayedMessage}
+                        {subtitleText}
                     </p>
                 )}
             </div>
@@ -2133,50 +5124,20 @@ const PatientVisualizer = ({ latestPatientMessage }: { latestPatientMessage: str
                 ref={idlePlayerRef}
                 src={`https://play.gumlet.io/embed/${patientVideos.idle}?loop=1&autoplay=1&mute=1&disable_hotkeys=1&disable_ui=all&unmute_button=0`}
                 title="Idle Patient Video"
-                className={`patient-video ${isSpeaking ? 'video-hidden' : ''} ${isAvatarLoading ? 'video-invisible' : ''}`}
+                className={`patient-video ${isTalking ? 'video-hidden' : ''} ${isAvatarLoading ? 'video-invisible' : ''}`}
                 allow="autoplay; fullscreen"
             ></iframe>
             <iframe
                 ref={talkingPlayerRef}
                 src={`https://play.gumlet.io/embed/${patientVideos.talking}?loop=1&autoplay=1&mute=1&disable_hotkeys=1&disable_ui=all&unmute_button=0`}
                 title="Talking Patient Video"
-                className={`patient-video ${!isSpeaking ? 'video-hidden' : ''} ${isAvatarLoading ? 'video-invisible' : ''}`}
+                className={`patient-video ${!isTalking ? 'video-hidden' : ''} ${isAvatarLoading ? 'video-invisible' : ''}`}
                 allow="autoplay; fullscreen"
             ></iframe>
-            <audio
-                ref={audioRef}
-                onPlay={() => setIsSpeaking(true)}
-                onEnded={() => setIsSpeaking(false)}
-                onError={(e) => {
-                    const audioEl = e.currentTarget;
-                    const error = audioEl.error;
-                    let errorMessage = "An unknown audio error occurred.";
-                    if (error) {
-                        switch (error.code) {
-                            case 1: // MEDIA_ERR_ABORTED
-                                errorMessage = "Playback aborted.";
-                                break;
-                            case 2: // MEDIA_ERR_NETWORK
-                                errorMessage = "A network error occurred.";
-                                break;
-                            case 3: // MEDIA_ERR_DECODE
-                                errorMessage = "The audio could not be decoded; it may be corrupted.";
-                                break;
-                            case 4: // MEDIA_ERR_SRC_NOT_SUPPORTED
-                                errorMessage = "The audio format is not supported.";
-                                break;
-                            default:
-                                errorMessage = `An unknown error occurred (code: ${error.code}).`;
-                        }
-                    }
-                    console.error("Audio playback error:", errorMessage, { src: audioEl.src, errorObject: error });
-                    setIsSpeaking(false);
-                }}
-                hidden
-            />
-            {displayedMessage && !isAvatarLoading && (
+            {!isAvatarLoading && <SpeechControls />}
+            {subtitle && !isAvatarLoading && (
                 <p className="patient-subtitle-overlay" role="status">
-                    {displayedMessage}
+                    {subtitleText}
                 </p>
             )}
         </div>
@@ -2216,7 +5177,7 @@ const App = () => {
             <AppHeader />
 
             {session ? (
-                page === 'home' ? <HomePage /> : <SimulationPage />
+                page === 'home' ? <HomePage /> : page === 'review' ? <ReviewPage /> : page === 'exam' ? <MockExamPage /> : page === 'questionBank' ? <QuestionBankPage /> : page === 'faculty' ? <FacultyPage /> : page === 'achievements' ? <AchievementsPage /> : page === 'notifications' ? <NotificationsPage /> : <SimulationPage />
             ) : (
                 <AuthPage />
             )}
@@ -2234,6 +5195,8 @@ const App = () => {
     );
 };
 
+reportAvatarCatalogIssues();
+
 const root = createRoot(document.getElementById('root')!);
 root.render(
     <StrictMode>
@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+// Golden-case regression suite. Replays the recorded AI calls for every golden scenario, fully
+// offline, and checks the generated case against the schema and the case invariants. Diagnosis
+// matching, which scores the student's differential, is checked against known pairs first.
+//
+//   npm run golden:check
+//
+// A missing recording means a prompt changed since it was recorded: re-record and review the diff.
+// Scenarios recorded with the mock provider are marked as such: they replay fixtures, not a model.
+import { createReplayProvider, setLlmProvider } from "../services/llm";
+import { GOLDEN_SCENARIOS } from "./golden/scenarios";
+import { runScenario } from "./golden/runScenario";
+import { loadRecordings } from "./golden/recordings";
+import { checkCase } from "./golden/caseChecks";
+import { checkDiagnosisMatching } from "./golden/diagnosisChecks";
+
+async function main() {
+    let failures = 0;
+
+    const matchingProblems = checkDiagnosisMatching();
+    if (matchingProblems.length > 0) {
+        console.error(`FAIL diagnosis matching:\n${matchingProblems.map(p => `  - ${p}`).join('\n')}`);
+    } else {
+        console.log('PASS diagnosis matching');
+    }
+
+    for (const scenario of GOLDEN_SCENARIOS) {
+        const recordings = loadRecordings(scenario.name);
+        if (!recordings) {
+            console.error(`FAIL ${scenario.name}: no recordings found. Run "npm run golden:record -- ${scenario.name}".`);
+            failures++;
+            continue;
+        }
+
+        setLlmProvider(createReplayProvider(recordings));
+        try {
+            const result = await runScenario(scenario);
+            const problems = checkCase(result.caseData, scenario.filters);
+            if (!result.hint) problems.push('hint: empty response');
+
+            if (problems.length > 0) {
+                console.error(`FAIL ${scenario.name}:\n${problems.map(p => `  - ${p}`).join('\n')}`);
+                failures++;
+            } else {
+                const isMockSnapshot = recordings.every(r => r.provider === 'mock');
+                console.log(`PASS ${scenario.name}${isMockSnapshot ? ' (mock snapshot, not real model output)' : ''}`);
+            }
+        } catch (error) {
+            console.error(`FAIL ${scenario.name}: ${error instanceof Error ? error.message : error}`);
+            failures++;
+        } finally {
+            setLlmProvider(null);
+        }
+    }
+
+    console.log(`\n${GOLDEN_SCENARIOS.length - failures}/${GOLDEN_SCENARIOS.length} golden scenarios passed.`);
+    if (failures > 0 || matchingProblems.length > 0) process.exit(1);
+}
+
+main();
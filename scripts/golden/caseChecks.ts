@@ -0,0 +1,17 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { DiagnosticCase, GenerationFilters } from "../../services/geminiService";
+import { validateCase } from "../../services/caseValidator";
+
+// The full case validator plus scenario-specific expectations.
+export function checkCase(caseData: DiagnosticCase, filters: GenerationFilters): string[] {
+    const problems = validateCase(caseData, { requireTrajectory: filters.challengeMode }).map(e => `${e.field}: ${e.message}`);
+
+    const { specialty } = caseData.tags;
+    if (filters.specialties && filters.specialties.length > 0 && !filters.specialties.includes(specialty)) {
+        problems.push(`tags.specialty: "${specialty}" was not among the requested ${filters.specialties.join(', ')}`);
+    }
+    return problems;
+}
@@ -0,0 +1,25 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { diagnosesMatch } from "../../services/differential";
+
+// Differential entries that must (or must not) be credited for a diagnosis. Pairs that differ only
+// in a number, a side or a negation name different diagnoses.
+const DIAGNOSIS_MATCH_CASES: { entry: string; diagnosis: string; matches: boolean }[] = [
+    { entry: 'NSTEMI', diagnosis: 'ST elevation myocardial infarction', matches: false },
+    { entry: 'STEMI', diagnosis: 'Non-ST elevation myocardial infarction', matches: false },
+    { entry: 'NSTEMI', diagnosis: 'Non-ST elevation myocardial infarction', matches: true },
+    { entry: 'STEMI', diagnosis: 'Acute ST elevation MI', matches: true },
+    { entry: 'Type 1 DM', diagnosis: 'Type 2 diabetes mellitus', matches: false },
+    { entry: 'Right heart failure', diagnosis: 'Left heart failure', matches: false },
+    { entry: 'heart failure', diagnosis: 'Right heart failure', matches: false },
+    { entry: 'CCF', diagnosis: 'Congestive heart failure', matches: true },
+    { entry: 'Croup', diagnosis: 'Croup (laryngotracheobronchitis)', matches: true },
+];
+
+export function checkDiagnosisMatching(): string[] {
+    return DIAGNOSIS_MATCH_CASES
+        .filter(({ entry, diagnosis, matches }) => diagnosesMatch(entry, diagnosis) !== matches)
+        .map(({ entry, diagnosis, matches }) => `"${entry}" should ${matches ? '' : 'not '}match "${diagnosis}"`);
+}
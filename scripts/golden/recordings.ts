@@ -0,0 +1,27 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { LlmRecording } from "../../services/llm";
+
+const RECORDINGS_DIR = join(dirname(fileURLToPath(import.meta.url)), 'recordings');
+
+export function recordingsPath(scenarioName: string): string {
+    return join(RECORDINGS_DIR, `${scenarioName}.json`);
+}
+
+export function loadRecordings(scenarioName: string): LlmRecording[] | null {
+    const path = recordingsPath(scenarioName);
+    if (!existsSync(path)) return null;
+    return JSON.parse(readFileSync(path, 'utf8')) as LlmRecording[];
+}
+
+export function saveRecordings(scenarioName: string, recordings: LlmRecording[]): string {
+    const path = recordingsPath(scenarioName);
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, JSON.stringify(recordings, null, 2) + '\n');
+    return path;
+}
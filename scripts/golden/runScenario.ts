@@ -0,0 +1,28 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { generateCase, createChatForCase, generateHint, DiagnosticCase, ChatMessage } from "../../services/geminiService";
+import { GoldenScenario } from "./scenarios";
+
+export interface ScenarioResult {
+    caseData: DiagnosticCase;
+    transcript: ChatMessage[];
+    hint: string;
+}
+
+// Drives the same service calls the UI makes, against whichever provider is currently installed.
+export async function runScenario(scenario: GoldenScenario): Promise<ScenarioResult> {
+    const caseData = await generateCase(scenario.filters);
+    const chat = createChatForCase(caseData);
+
+    const transcript: ChatMessage[] = [];
+    for (const question of scenario.doctorQuestions) {
+        transcript.push({ sender: 'user', text: question, timestamp: '' });
+        const response = await chat.sendMessage({ message: question });
+        transcript.push({ sender: 'patient', text: response.text, timestamp: '' });
+    }
+
+    const hint = await generateHint(caseData, transcript);
+    return { caseData, transcript, hint };
+}
@@ -0,0 +1,44 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { GenerationFilters } from "../../services/geminiService";
+
+// Each golden scenario pins the inputs to one end-to-end AI flow: generate a case, interview
+// the patient with a fixed script, then ask for a hint. Recordings are stored per scenario.
+// The checked-in recordings are mock snapshots (recorded with LLM_PROVIDER=mock), not real model
+// output; re-record against a live provider to check how a model responds.
+export interface GoldenScenario {
+    name: string;
+    filters: GenerationFilters;
+    doctorQuestions: string[];
+}
+
+export const GOLDEN_SCENARIOS: GoldenScenario[] = [
+    {
+        name: 'cardiology-clinical',
+        filters: { trainingPhase: 'Clinical', specialties: ['Cardiology'], epas: ['History-taking', 'Diagnosis'] },
+        doctorQuestions: [
+            'Hello, what brings you in today?',
+            'Where exactly is the pain and does it spread anywhere?',
+            'Do you smoke?',
+        ],
+    },
+    {
+        name: 'pediatrics-clinical',
+        filters: { trainingPhase: 'Clinical', specialties: ['Pediatrics'] },
+        doctorQuestions: [
+            'Hello, what seems to be the problem?',
+            'Can you describe the cough?',
+            'Has he had a fever?',
+        ],
+    },
+    {
+        name: 'pediatrics-challenge',
+        filters: { trainingPhase: 'NExT/FMGE Prep', specialties: ['Pediatrics'], challengeMode: true },
+        doctorQuestions: [
+            'What made you bring your child in today?',
+            'Is he able to drink and swallow normally?',
+        ],
+    },
+];
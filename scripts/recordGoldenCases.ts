@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+// Records every prompt/response pair of the golden scenarios against a live provider.
+//
+//   LLM_PROVIDER=gemini GEMINI_API_KEY=... npm run golden:record [scenario-name ...]
+//
+// Commit the resulting files in scripts/golden/recordings after reviewing the diff.
+import { createLlmProvider, createRecordingProvider, setLlmProvider, LlmRecording } from "../services/llm";
+import { GOLDEN_SCENARIOS } from "./golden/scenarios";
+import { runScenario } from "./golden/runScenario";
+import { saveRecordings } from "./golden/recordings";
+
+// The browser build maps GEMINI_API_KEY onto API_KEY in vite.config.ts; do the same here.
+process.env.API_KEY ??= process.env.GEMINI_API_KEY;
+
+async function main() {
+    const requested = process.argv.slice(2);
+    const scenarios = requested.length > 0
+        ? GOLDEN_SCENARIOS.filter(s => requested.includes(s.name))
+        : GOLDEN_SCENARIOS;
+
+    if (scenarios.length === 0) {
+        throw new Error(`No golden scenarios match: ${requested.join(', ')}`);
+    }
+
+    const inner = createLlmProvider(process.env.LLM_PROVIDER);
+    for (const scenario of scenarios) {
+        const recordings: LlmRecording[] = [];
+        setLlmProvider(createRecordingProvider(inner, recording => recordings.push(recording)));
+        await runScenario(scenario);
+        const path = saveRecordings(scenario.name, recordings);
+        console.log(`Recorded ${recordings.length} calls for "${scenario.name}" using ${inner.name} -> ${path}`);
+    }
+    setLlmProvider(null);
+}
+
+main().catch(error => {
+    console.error(error);
+    process.exit(1);
+});
@@ -0,0 +1,138 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { SPECIALTIES, Specialty } from "./geminiService";
+import type { CaseAttempt, EarnedAchievement, NewNotification } from "./supabaseService";
+
+// Rules-based achievements. Every rule is a pure function of the learner's finished case
+// attempts, so the engine can re-evaluate the whole history after each case and award whatever
+// is newly met; the set of already earned ids is what stops a badge being awarded twice.
+
+export type AchievementCategory = 'specialty' | 'accuracy' | 'independence' | 'consistency';
+
+export interface AchievementProgress {
+    current: number;
+    target: number;
+}
+
+export interface Achievement {
+    id: string;
+    category: AchievementCategory;
+    title: string;
+    description: string;
+    progress: (attempts: CaseAttempt[]) => AchievementProgress;
+}
+
+export interface AchievementStatus {
+    achievement: Achievement;
+    earned: boolean;
+    earnedAt: string | null;
+    progress: AchievementProgress;
+}
+
+export const DIAGNOSIS_STREAK_TARGET = 10;
+export const DAILY_STREAK_TARGET = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const byDate = (attempts: CaseAttempt[]) => [...attempts].sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+// Longest run of consecutive attempts with the correct final diagnosis.
+export function longestDiagnosisStreak(attempts: CaseAttempt[]): number {
+    let longest = 0;
+    let run = 0;
+    byDate(attempts).forEach(attempt => {
+        run = attempt.diagnosis_correct ? run + 1 : 0;
+        longest = Math.max(longest, run);
+    });
+    return longest;
+}
+
+// Longest run of consecutive calendar days (in the learner's time zone) with a finished case.
+export function longestDailyStreak(attempts: CaseAttempt[]): number {
+    const days = [...new Set(attempts.map(a => {
+        const date = new Date(a.created_at);
+        return Date.UTC(date.getFullYear(), date.getMonth(), date.getDate());
+    }))].sort((a, b) => a - b);
+    let longest = 0;
+    let run = 0;
+    days.forEach((day, i) => {
+        run = i > 0 && day - days[i - 1] === DAY_MS ? run + 1 : 1;
+        longest = Math.max(longest, run);
+    });
+    return longest;
+}
+
+const firstCaseAchievement = (specialty: Specialty): Achievement => ({
+    id: `first-case-${specialty.toLowerCase().replace(/[^a-z]+/g, '-')}`,
+    category: 'specialty',
+    title: `First ${specialty} Case`,
+    description: `Finish your first ${specialty} case.`,
+    progress: attempts => ({ current: attempts.some(a => a.specialty === specialty) ? 1 : 0, target: 1 }),
+});
+
+export const ACHIEVEMENTS: Achievement[] = [
+    ...SPECIALTIES.map(firstCaseAchievement),
+    {
+        id: 'diagnosis-streak-10',
+        category: 'accuracy',
+        title: 'Sharp Eye',
+        description: `Make the correct final diagnosis in ${DIAGNOSIS_STREAK_TARGET} cases in a row.`,
+        progress: attempts => ({ current: longestDiagnosisStreak(attempts), target: DIAGNOSIS_STREAK_TARGET }),
+    },
+    {
+        id: 'no-hint-case',
+        category: 'independence',
+        title: 'On Your Own',
+        description: 'Finish a case without asking for a hint.',
+        progress: attempts => ({ current: attempts.some(a => a.hints_used === 0) ? 1 : 0, target: 1 }),
+    },
+    {
+        id: 'daily-streak-7',
+        category: 'consistency',
+        title: 'Week on the Wards',
+        description: `Finish at least one case a day for ${DAILY_STREAK_TARGET} days running.`,
+        progress: attempts => ({ current: longestDailyStreak(attempts), target: DAILY_STREAK_TARGET }),
+    },
+];
+
+export const getAchievement = (id: string): Achievement | undefined => ACHIEVEMENTS.find(a => a.id === id);
+
+// Notification links use the same '#' scheme as home tabs; this one opens the badge gallery on the badge.
+export const achievementLink = (id: string) => `#achievements/${id}`;
+
+export const parseAchievementLink = (link: string): string | null => {
+    const match = link.match(/^#achievements(?:\/(.+))?$/);
+    return match ? match[1] ?? '' : null;
+};
+
+const isMet = ({ current, target }: AchievementProgress) => current >= target;
+
+export function evaluateAchievements(attempts: CaseAttempt[], earned: EarnedAchievement[]): AchievementStatus[] {
+    const earnedAt = new Map(earned.map(e => [e.achievement_id, e.earned_at]));
+    return ACHIEVEMENTS.map(achievement => {
+        const { current, target } = achievement.progress(attempts);
+        const earned = earnedAt.has(achievement.id);
+        return {
+            achievement,
+            earned,
+            earnedAt: earnedAt.get(achievement.id) ?? null,
+            // A badge stays earned even if a later history trim would no longer meet the rule.
+            progress: { current: earned ? target : Math.min(current, target), target },
+        };
+    });
+}
+
+// Achievements whose rule is met but that haven't been awarded yet.
+export const newlyEarnedAchievements = (attempts: CaseAttempt[], earnedIds: Iterable<string>): Achievement[] => {
+    const earned = new Set(earnedIds);
+    return ACHIEVEMENTS.filter(a => !earned.has(a.id) && isMet(a.progress(attempts)));
+};
+
+export const buildAchievementNotification = (achievement: Achievement): NewNotification => ({
+    type: 'achievement',
+    title: `Achievement unlocked: ${achievement.title}`,
+    message: achievement.description,
+    link: achievementLink(achievement.id),
+});
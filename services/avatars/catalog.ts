@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import catalogData from "./catalog.json";
+
+// The patient avatar catalog. Each avatar is a matched pair of hosted videos (idle and talking)
+// of the same person, with the ages and roles it can stand in for. The data lives in
+// catalog.json so avatars can be added without touching code; entries are checked when the
+// catalog loads and any that don't fit the schema are left out and reported.
+
+export type AvatarRole = 'patient' | 'guardian';
+
+export const AVATAR_ROLES: AvatarRole[] = ['patient', 'guardian'];
+const AVATAR_GENDERS = ['Male', 'Female'] as const;
+
+export interface Avatar {
+    key: string;
+    description: string;
+    gender: 'Male' | 'Female';
+    ageRange: [number, number]; // inclusive
+    roles: AvatarRole[];
+    videos: {
+        idle: string; // video ID
+        talking: string; // video ID
+    };
+}
+
+export interface AvatarCatalog {
+    avatars: Avatar[];
+    errors: string[];
+}
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+function checkAvatar(value: unknown, field: string, errors: string[]): Avatar | null {
+    const count = errors.length;
+    const fail = (message: string) => { errors.push(`${field}: ${message}`); };
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        fail('expected an object');
+        return null;
+    }
+    const entry = value as Record<string, unknown>;
+    if (!isNonEmptyString(entry.key)) fail('key must be a non-empty string');
+    if (!isNonEmptyString(entry.description)) fail('description must be a non-empty string');
+    if (!AVATAR_GENDERS.includes(entry.gender as Avatar['gender'])) fail(`gender must be one of ${AVATAR_GENDERS.join(', ')}`);
+
+    const ageRange = entry.ageRange;
+    if (!Array.isArray(ageRange) || ageRange.length !== 2 || !ageRange.every(age => Number.isInteger(age) && age >= 0)) {
+        fail('ageRange must be two whole-number ages');
+    } else if (ageRange[0] > ageRange[1]) {
+        fail(`ageRange starts after it ends (${ageRange[0]}-${ageRange[1]})`);
+    }
+
+    const roles = entry.roles;
+    if (!Array.isArray(roles) || roles.length === 0 || !roles.every(role => AVATAR_ROLES.includes(role))) {
+        fail(`roles must list at least one of ${AVATAR_ROLES.join(', ')}`);
+    }
+
+    const videos = entry.videos as Record<string, unknown> | undefined;
+    if (typeof videos !== 'object' || videos === null || !isNonEmptyString(videos.idle) || !isNonEmptyString(videos.talking)) {
+        fail('videos must have idle and talking video IDs');
+    } else if (videos.idle === videos.talking) {
+        fail('idle and talking must be different videos');
+    }
+
+    return errors.length === count ? value as Avatar : null;
+}
+
+export function validateAvatarCatalog(data: unknown): AvatarCatalog {
+    const errors: string[] = [];
+    const entries = (data as { avatars?: unknown } | null)?.avatars;
+    if (!Array.isArray(entries)) {
+        return { avatars: [], errors: ['avatars: expected a list of avatars'] };
+    }
+    const avatars: Avatar[] = [];
+    entries.forEach((value, index) => {
+        const avatar = checkAvatar(value, `avatars[${index}]`, errors);
+        if (!avatar) return;
+        if (avatars.some(a => a.key === avatar.key)) {
+            errors.push(`avatars[${index}]: duplicate key "${avatar.key}"`);
+            return;
+        }
+        // Idle loops can be shared, but two people mouthing the same talking video would give the game away.
+        const sharedTalking = avatars.find(a => a.videos.talking === avatar.videos.talking);
+        if (sharedTalking) {
+            errors.push(`avatars[${index}]: talking video is already used by "${sharedTalking.key}"`);
+            return;
+        }
+        avatars.push(avatar);
+    });
+    return { avatars, errors };
+}
+
+export const AVATAR_CATALOG: AvatarCatalog = validateAvatarCatalog(catalogData);
@@ -0,0 +1,88 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { DiagnosticCase } from "../geminiService";
+import { Avatar, AvatarRole, AVATAR_CATALOG } from "./catalog";
+
+export type { Avatar, AvatarRole, AvatarCatalog } from "./catalog";
+export { AVATAR_CATALOG, AVATAR_ROLES, validateAvatarCatalog } from "./catalog";
+
+// Avatar matching. The avatar shows whoever the student is actually talking to, which for young
+// children is a parent rather than the patient, and is chosen by a plain age/gender score.
+// Avatars that score equally are all returned so the caller can break the tie.
+
+type PatientProfile = DiagnosticCase['patientProfile'];
+
+// Below this age the history is given by the child's mother.
+export const GUARDIAN_AGE_LIMIT = 7;
+// Roughly how much older the mother is assumed to be than the child.
+const GUARDIAN_AGE_GAP = 28;
+const MAX_PATIENT_AGE = 99;
+
+export interface Speaker extends PatientProfile {
+    role: AvatarRole;
+}
+
+export function guardianFor(profile: PatientProfile): Speaker {
+    return {
+        role: 'guardian',
+        name: `${profile.name}'s mother`,
+        age: profile.age + GUARDIAN_AGE_GAP,
+        gender: 'Female',
+        ethnicity: profile.ethnicity,
+    };
+}
+
+// Whoever answers the history, and so is shown on screen.
+export function speakerFor(profile: PatientProfile): Speaker {
+    return profile.age < GUARDIAN_AGE_LIMIT ? guardianFor(profile) : { ...profile, role: 'patient' };
+}
+
+// Years between the speaker's age and the avatar's range (0 inside it), or null when the avatar
+// can't play this speaker at all. Speakers of 'Other' gender can be shown by any avatar.
+function ageDistance(avatar: Avatar, speaker: Speaker): number | null {
+    if (!avatar.roles.includes(speaker.role)) return null;
+    if (speaker.gender !== 'Other' && avatar.gender !== speaker.gender) return null;
+    const [min, max] = avatar.ageRange;
+    return Math.max(min - speaker.age, speaker.age - max, 0);
+}
+
+// The best-scoring avatars for a speaker, in catalog order; empty when none can play them.
+export function bestAvatarMatches(speaker: Speaker, avatars: Avatar[] = AVATAR_CATALOG.avatars): Avatar[] {
+    const scored = avatars
+        .map(avatar => ({ avatar, distance: ageDistance(avatar, speaker) }))
+        .filter((s): s is { avatar: Avatar; distance: number } => s.distance !== null);
+    const best = Math.min(...scored.map(s => s.distance));
+    return scored.filter(s => s.distance === best).map(s => s.avatar);
+}
+
+// Patient ages, per gender, that have no avatar of the right role and age. Such patients still
+// get the nearest avatar, just not a convincing one.
+export function findCatalogGaps(avatars: Avatar[] = AVATAR_CATALOG.avatars): string[] {
+    const gaps: string[] = [];
+    for (const gender of ['Male', 'Female'] as const) {
+        const describe = (gap: { from: number; role: AvatarRole }, to: number) =>
+            `${gender} patients aged ${gap.from}-${to} have no ${gap.role} avatar`;
+        let gap: { from: number; role: AvatarRole } | null = null;
+        for (let age = 0; age <= MAX_PATIENT_AGE; age++) {
+            const speaker = speakerFor({ name: '', age, gender, ethnicity: 'Other' });
+            const isCovered = avatars.some(avatar => ageDistance(avatar, speaker) === 0);
+            if (gap && (isCovered || speaker.role !== gap.role)) {
+                gaps.push(describe(gap, age - 1));
+                gap = null;
+            }
+            if (!isCovered && !gap) gap = { from: age, role: speaker.role };
+        }
+        if (gap) gaps.push(describe(gap, MAX_PATIENT_AGE));
+    }
+    return gaps;
+}
+
+export function reportAvatarCatalogIssues(): void {
+    AVATAR_CATALOG.errors.forEach(error => console.error(`Avatar catalog entry skipped (${error}).`));
+    const gaps = findCatalogGaps();
+    if (gaps.length > 0) {
+        console.warn(`Avatar catalog gaps; the nearest avatar will be shown instead:\n- ${gaps.join('\n- ')}`);
+    }
+}
@@ -0,0 +1,235 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { Type } from "@google/genai";
+import { caseSchema, questionSetSchema, DiagnosticCase, GeneratedQuestion, MCQ, Vitals, SPECIALTIES } from "./geminiService";
+import type { ResponseSchema } from "./llm";
+import { getCompetency } from "./competencyCatalog";
+import { FORMULARY_ITEM_IDS } from "./formulary";
+
+// Field-level validation for generated cases. Every problem is reported with the path of the
+// offending field so it can be logged, shown to the user, or sent back to the model for repair.
+
+export interface CaseFieldError {
+    field: string;
+    message: string;
+    // Fixable problems can be repaired by asking the model to correct the specific fields;
+    // unfixable ones (e.g. a response that isn't JSON at all) need a fresh generation.
+    fixable: boolean;
+}
+
+export interface CaseValidationOptions {
+    // Challenge-mode cases must deteriorate over time; Emergency Medicine cases always must.
+    requireTrajectory?: boolean;
+    // Catalog codes the case was requested for; when set, its competency must be one of them.
+    competencies?: string[];
+}
+
+export interface CaseValidationResult {
+    caseData: DiagnosticCase | null;
+    errors: CaseFieldError[];
+}
+
+export class CaseValidationError extends Error {
+    readonly errors: CaseFieldError[];
+
+    constructor(errors: CaseFieldError[], attempts: number) {
+        super(`The AI returned an invalid case after ${attempts} attempt${attempts === 1 ? '' : 's'}: ${formatValidationErrors(errors)}`);
+        this.name = 'CaseValidationError';
+        this.errors = errors;
+    }
+}
+
+export function formatValidationErrors(errors: CaseFieldError[]): string {
+    return errors.map(e => `${e.field}: ${e.message}`).join('; ');
+}
+
+// Walks a value against the same schema the model is given.
+function checkSchema(value: unknown, schema: ResponseSchema, field: string, errors: CaseFieldError[]): void {
+    const fail = (message: string) => { errors.push({ field, message, fixable: true }); };
+    switch (schema.type) {
+        case Type.OBJECT: {
+            if (typeof value !== 'object' || value === null || Array.isArray(value)) return fail('expected an object');
+            const record = value as Record<string, unknown>;
+            for (const key of schema.required ?? []) {
+                if (record[key] === undefined || record[key] === null) {
+                    errors.push({ field: field ? `${field}.${key}` : key, message: 'missing required field', fixable: true });
+                }
+            }
+            for (const [key, propertySchema] of Object.entries(schema.properties ?? {})) {
+                if (record[key] !== undefined && record[key] !== null) {
+                    checkSchema(record[key], propertySchema, field ? `${field}.${key}` : key, errors);
+                }
+            }
+            return;
+        }
+        case Type.ARRAY:
+            if (!Array.isArray(value)) return fail('expected an array');
+            value.forEach((item, i) => schema.items && checkSchema(item, schema.items, `${field}[${i}]`, errors));
+            return;
+        case Type.STRING:
+            if (typeof value !== 'string') return fail('expected a string');
+            if (value.trim().length === 0) return fail('must not be empty');
+            if (schema.enum && !schema.enum.includes(value)) return fail(`"${value}" is not one of: ${schema.enum.join(', ')}`);
+            return;
+        case Type.INTEGER:
+            if (!Number.isInteger(value)) return fail('expected an integer');
+            return;
+        case Type.NUMBER:
+            if (typeof value !== 'number' || !Number.isFinite(value)) return fail('expected a number');
+            return;
+        case Type.BOOLEAN:
+            if (typeof value !== 'boolean') return fail('expected a boolean');
+            return;
+    }
+}
+
+const findDuplicates = (values: string[]): string[] => {
+    const seen = new Set<string>();
+    const duplicates = new Set<string>();
+    values.forEach(v => {
+        const normalized = v.trim().toLowerCase();
+        if (seen.has(normalized)) duplicates.add(v);
+        seen.add(normalized);
+    });
+    return [...duplicates];
+};
+
+const checkMcq = (mcq: MCQ, field: string, add: (field: string, message: string) => void) => {
+    if (mcq.options.length < 2) add(`${field}.options`, 'must offer at least two options');
+    findDuplicates(mcq.options).forEach(o => add(`${field}.options`, `duplicate option "${o}"`));
+    if (mcq.correctAnswerIndex < 0 || mcq.correctAnswerIndex >= mcq.options.length) {
+        add(`${field}.correctAnswerIndex`, `${mcq.correctAnswerIndex} is outside the ${mcq.options.length} options`);
+    }
+};
+
+export function validateCase(candidate: unknown, options: CaseValidationOptions = {}): CaseFieldError[] {
+    const errors: CaseFieldError[] = [];
+    checkSchema(candidate, caseSchema, '', errors);
+
+    // Semantic checks. Each one only looks at parts that passed the structural check above, so a
+    // single response reports every problem at once instead of stopping at the first.
+    const isBroken = (field: string) => errors.some(e => e.field === field || e.field.startsWith(`${field}.`) || e.field.startsWith(`${field}[`));
+    const add = (field: string, message: string) => { errors.push({ field, message, fixable: true }); };
+    if (isBroken('')) return errors;
+    const caseData = candidate as DiagnosticCase;
+
+    if (!isBroken('patientProfile')) {
+        const { age } = caseData.patientProfile;
+        if (age < 0 || age > 120) add('patientProfile.age', `${age} is not a plausible age`);
+    }
+
+    const checkVitals = (vitals: Vitals, field: string) => {
+        const { gcs, spo2 } = vitals;
+        if (gcs < 3 || gcs > 15) add(`${field}.gcs`, `${gcs} is outside the 3-15 scale`);
+        if (spo2 < 0 || spo2 > 100) add(`${field}.spo2`, `${spo2} is not a valid percentage`);
+    };
+    if (!isBroken('vitals')) checkVitals(caseData.vitals!, 'vitals');
+
+    if (!isBroken('labPanels')) {
+        caseData.labPanels!.forEach((panel, i) => panel.results.forEach((result, j) => {
+            if (result.referenceLow > result.referenceHigh) {
+                add(`labPanels[${i}].results[${j}]`, `reference range ${result.referenceLow}-${result.referenceHigh} is inverted`);
+            }
+        }));
+    }
+
+    const requireTrajectory = options.requireTrajectory || caseData.tags?.specialty === 'Emergency Medicine';
+    if (!caseData.trajectory) {
+        if (requireTrajectory) add('trajectory', 'required for Emergency Medicine and challenge-mode cases');
+    } else if (!isBroken('trajectory')) {
+        const { stages, interventions } = caseData.trajectory;
+        if (stages.length === 0) add('trajectory.stages', 'must contain at least one stage');
+        stages.forEach((stage, i) => {
+            if (stage.atMinute <= 0) add(`trajectory.stages[${i}].atMinute`, 'must be after presentation');
+            if (i > 0 && stage.atMinute <= stages[i - 1].atMinute) add(`trajectory.stages[${i}].atMinute`, 'stages must be in increasing time order');
+            checkVitals(stage.vitals, `trajectory.stages[${i}].vitals`);
+        });
+        if (interventions.length === 0) add('trajectory.interventions', 'must list at least one stabilising intervention');
+        interventions.forEach((intervention, i) => {
+            if (!intervention.keywords.some(k => FORMULARY_ITEM_IDS.includes(k))) {
+                add(`trajectory.interventions[${i}].keywords`, 'must include the formulary id of an item that delivers it');
+            }
+            if (intervention.deadlineMinute <= 0) add(`trajectory.interventions[${i}].deadlineMinute`, 'must be after presentation');
+        });
+    }
+
+    if (!isBroken('historyChecklist')) {
+        const { historyChecklist } = caseData;
+        if (!historyChecklist.some(i => i.category === 'History')) add('historyChecklist', 'must include at least one history item');
+        historyChecklist.forEach((item, i) => {
+            if (item.keywords.length === 0) add(`historyChecklist[${i}].keywords`, 'must list at least one keyword');
+        });
+    }
+
+    if (!isBroken('tags.specialty') && !SPECIALTIES.includes(caseData.tags.specialty)) {
+        add('tags.specialty', `"${caseData.tags.specialty}" is not one of: ${SPECIALTIES.join(', ')}`);
+    }
+    if (!isBroken('tags.epas') && caseData.tags.epas.length === 0) add('tags.epas', 'must list at least one EPA');
+    if (!isBroken('tags.curriculum') && !isBroken('tags.specialty')) {
+        const { competency } = caseData.tags.curriculum;
+        if (!getCompetency(competency).specialties.includes(caseData.tags.specialty)) {
+            add('tags.curriculum.competency', `${competency} is not a ${caseData.tags.specialty} competency`);
+        }
+        if (options.competencies?.length && !options.competencies.includes(competency)) {
+            add('tags.curriculum.competency', `must be one of the requested competencies: ${options.competencies.join(', ')}`);
+        }
+    }
+
+    if (!isBroken('potentialDiagnoses')) {
+        const { potentialDiagnoses } = caseData;
+        if (potentialDiagnoses.length < 2) add('potentialDiagnoses', 'must offer at least two diagnoses');
+        const correctCount = potentialDiagnoses.filter(d => d.isCorrect).length;
+        if (correctCount !== 1) add('potentialDiagnoses', `exactly one diagnosis must be correct, found ${correctCount}`);
+        findDuplicates(potentialDiagnoses.map(d => d.diagnosis)).forEach(d => add('potentialDiagnoses', `duplicate diagnosis "${d}"`));
+    }
+
+    if (!isBroken('mcqs')) {
+        if (caseData.mcqs.length === 0) add('mcqs', 'must contain at least one question');
+        caseData.mcqs.forEach((mcq, i) => checkMcq(mcq, `mcqs[${i}]`, add));
+    }
+
+    return errors;
+}
+
+export interface QuestionSetValidationResult {
+    questions: GeneratedQuestion[];
+    errors: CaseFieldError[];
+}
+
+// Standalone question-bank items. Invalid questions are dropped rather than failing the whole
+// set, so a single bad item doesn't cost the student the rest.
+export function parseAndValidateQuestionSet(jsonText: string): QuestionSetValidationResult {
+    let candidate: unknown;
+    try {
+        candidate = JSON.parse(jsonText.trim());
+    } catch (e) {
+        return { questions: [], errors: [{ field: '(response)', message: 'not valid JSON', fixable: false }] };
+    }
+    const errors: CaseFieldError[] = [];
+    checkSchema(candidate, questionSetSchema, '', errors);
+    if (errors.some(e => e.field === '' || e.field === 'questions')) return { questions: [], errors };
+
+    const questions = (candidate as { questions: GeneratedQuestion[] }).questions.filter((question, i) => {
+        const field = `questions[${i}]`;
+        const before = errors.length;
+        const add = (f: string, message: string) => { errors.push({ field: f, message, fixable: true }); };
+        if (errors.some(e => e.field.startsWith(`${field}.`) || e.field === field)) return false;
+        checkMcq(question, field, add);
+        if (!SPECIALTIES.includes(question.specialty)) add(`${field}.specialty`, `"${question.specialty}" is not one of: ${SPECIALTIES.join(', ')}`);
+        return errors.length === before;
+    });
+    return { questions, errors };
+}
+
+export function parseAndValidateCase(jsonText: string, options: CaseValidationOptions = {}): CaseValidationResult {
+    let candidate: unknown;
+    try {
+        candidate = JSON.parse(jsonText.trim());
+    } catch (e) {
+        return { caseData: null, errors: [{ field: '(response)', message: 'not valid JSON', fixable: false }] };
+    }
+    const errors = validateCase(candidate, options);
+    return { caseData: errors.length === 0 ? candidate as DiagnosticCase : null, errors };
+}
@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { Vitals, LabResult } from "./geminiService";
+
+// Reference ranges and abnormal-value flagging for structured vitals and lab results.
+
+export type RangeFlag = 'low' | 'normal' | 'high';
+
+export interface ReferenceRange {
+    low: number;
+    high: number;
+}
+
+export type VitalKey = keyof Vitals;
+
+export const VITAL_DEFINITIONS: { key: VitalKey; label: string; unit: string }[] = [
+    { key: 'heartRate', label: 'Heart Rate', unit: 'bpm' },
+    { key: 'systolicBP', label: 'Systolic BP', unit: 'mmHg' },
+    { key: 'diastolicBP', label: 'Diastolic BP', unit: 'mmHg' },
+    { key: 'respiratoryRate', label: 'Respiratory Rate', unit: '/min' },
+    { key: 'spo2', label: 'SpO2', unit: '%' },
+    { key: 'temperature', label: 'Temperature', unit: '°C' },
+    { key: 'gcs', label: 'GCS', unit: '/15' },
+];
+
+// Heart rate, respiratory rate and blood pressure norms shift with age; the brackets follow
+// standard paediatric life-support tables and fall back to adult values from 13 years.
+const AGE_DEPENDENT_RANGES: { maxAge: number; ranges: Pick<Record<VitalKey, ReferenceRange>, 'heartRate' | 'respiratoryRate' | 'systolicBP' | 'diastolicBP'> }[] = [
+    { maxAge: 0, ranges: { heartRate: { low: 100, high: 160 }, respiratoryRate: { low: 30, high: 60 }, systolicBP: { low: 70, high: 100 }, diastolicBP: { low: 35, high: 65 } } },
+    { maxAge: 2, ranges: { heartRate: { low: 90, high: 150 }, respiratoryRate: { low: 24, high: 40 }, systolicBP: { low: 80, high: 110 }, diastolicBP: { low: 40, high: 70 } } },
+    { maxAge: 5, ranges: { heartRate: { low: 80, high: 140 }, respiratoryRate: { low: 22, high: 34 }, systolicBP: { low: 80, high: 110 }, diastolicBP: { low: 45, high: 75 } } },
+    { maxAge: 12, ranges: { heartRate: { low: 70, high: 120 }, respiratoryRate: { low: 18, high: 30 }, systolicBP: { low: 90, high: 120 }, diastolicBP: { low: 55, high: 80 } } },
+    { maxAge: Infinity, ranges: { heartRate: { low: 60, high: 100 }, respiratoryRate: { low: 12, high: 20 }, systolicBP: { low: 90, high: 139 }, diastolicBP: { low: 60, high: 89 } } },
+];
+
+export function getVitalReferenceRanges(age: number): Record<VitalKey, ReferenceRange> {
+    const { ranges } = AGE_DEPENDENT_RANGES.find(bracket => age <= bracket.maxAge)!;
+    return {
+        ...ranges,
+        spo2: { low: 94, high: 100 },
+        temperature: { low: 36.1, high: 37.9 },
+        gcs: { low: 15, high: 15 },
+    };
+}
+
+export function flagValue(value: number, range: ReferenceRange): RangeFlag {
+    if (value < range.low) return 'low';
+    if (value > range.high) return 'high';
+    return 'normal';
+}
+
+export function flagLabResult(result: LabResult): RangeFlag {
+    return flagValue(result.value, { low: result.referenceLow, high: result.referenceHigh });
+}
@@ -0,0 +1,75 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { GenerationFilters } from "./geminiService";
+import type { Assignment, AssignmentAttempt, CohortStudent, Json } from "./supabaseService";
+
+// Faculty assignments. An assignment points either at a saved case or at a generation preset,
+// and a student completes it by finishing a case launched from it. Completion and scores are
+// worked out here from the attempts recorded against each assignment.
+
+// A preset is the case filters without the training phase, which comes from each student's profile.
+export type AssignmentPreset = Pick<GenerationFilters, 'specialties' | 'epas' | 'competencies' | 'challengeMode'>;
+
+export type AssignmentStatus = 'completed' | 'late' | 'pending' | 'overdue';
+
+export interface StudentProgress {
+    student: CohortStudent;
+    status: AssignmentStatus;
+    score: number | null; // best score across the student's attempts
+    completedAt: string | null; // first attempt
+}
+
+export interface AssignmentSummary {
+    assignment: Assignment;
+    completed: number;
+    total: number;
+    averageScore: number | null;
+    students: StudentProgress[];
+}
+
+export const presetToJson = (preset: AssignmentPreset): Json => preset as unknown as Json;
+
+export const getAssignmentPreset = (assignment: Assignment): AssignmentPreset | null =>
+    assignment.preset ? (assignment.preset as unknown as AssignmentPreset) : null;
+
+export function describeAssignment(assignment: Assignment): string {
+    const preset = getAssignmentPreset(assignment);
+    if (!preset) return 'Assigned case';
+    const parts = [
+        preset.specialties?.length ? preset.specialties.join(', ') : 'Any specialty',
+        ...(preset.epas?.length ? [`focus on ${preset.epas.join(', ')}`] : []),
+        ...(preset.competencies?.length ? [preset.competencies.join(', ')] : []),
+        ...(preset.challengeMode ? ['Challenge Mode'] : []),
+    ];
+    return parts.join(' · ');
+}
+
+export function assignmentStatus(assignment: Assignment, attempts: AssignmentAttempt[], now = new Date()): AssignmentStatus {
+    const own = attempts.filter(a => a.assignment_id === assignment.id);
+    const isPastDue = now > new Date(assignment.due_at);
+    if (own.length === 0) return isPastDue ? 'overdue' : 'pending';
+    const first = own.reduce((earliest, a) => (a.created_at < earliest.created_at ? a : earliest));
+    return new Date(first.created_at) > new Date(assignment.due_at) ? 'late' : 'completed';
+}
+
+export function summarizeAssignment(assignment: Assignment, students: CohortStudent[], attempts: AssignmentAttempt[], now = new Date()): AssignmentSummary {
+    const progress = students.map(student => {
+        const own = attempts.filter(a => a.assignment_id === assignment.id && a.user_id === student.id);
+        return {
+            student,
+            status: assignmentStatus(assignment, own, now),
+            score: own.length > 0 ? Math.max(...own.map(a => a.score)) : null,
+            completedAt: own.length > 0 ? own.map(a => a.created_at).sort()[0] : null,
+        };
+    });
+    const scores = progress.map(p => p.score).filter((s): s is number => s !== null);
+    return {
+        assignment,
+        completed: scores.length,
+        total: students.length,
+        averageScore: scores.length > 0 ? Math.round(scores.reduce((sum, s) => sum + s, 0) / scores.length) : null,
+        students: progress,
+    };
+}
@@ -0,0 +1,151 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { Specialty } from "./geminiService";
+
+// The bundled catalog of NMC CBME competencies that cases are mapped to. Generated cases must
+// use one of these codes (see caseValidator), so attempts can be grouped and tracked by
+// competency. Bump the version whenever entries are added, removed or reworded; each case
+// records the version it was generated against.
+
+export const COMPETENCY_CATALOG_VERSION = 'nmc-cbme-2019.1';
+
+export type CompetencySubject =
+    | 'General Medicine'
+    | 'Respiratory Medicine'
+    | 'Pediatrics'
+    | 'General Surgery'
+    | 'Obstetrics & Gynaecology'
+    | 'Psychiatry'
+    | 'Dermatology, Venereology & Leprosy';
+
+export interface Competency {
+    code: string;
+    subject: CompetencySubject;
+    description: string;
+    specialties: Specialty[]; // the case specialties the competency can be taught through
+}
+
+const IM: Specialty[] = ['Internal Medicine'];
+const IM_CARDIO: Specialty[] = ['Internal Medicine', 'Cardiology'];
+const IM_NEURO: Specialty[] = ['Internal Medicine', 'Neurology'];
+const IM_EMERGENCY: Specialty[] = ['Internal Medicine', 'Emergency Medicine'];
+
+export const COMPETENCY_CATALOG: Competency[] = [
+    // General Medicine
+    { code: 'IM1.1', subject: 'General Medicine', specialties: IM_CARDIO, description: 'Describe and discuss the epidemiology, pathogenesis, clinical evolution and course of common causes of heart disease, including rheumatic, valvular, ischaemic, hypertrophic and inflammatory' },
+    { code: 'IM1.10', subject: 'General Medicine', specialties: IM_CARDIO, description: 'Elicit, document and present an appropriate history in a patient with heart failure' },
+    { code: 'IM2.1', subject: 'General Medicine', specialties: IM_CARDIO, description: 'Discuss and describe the epidemiology, antecedents and risk factors for atherosclerosis and ischaemic heart disease' },
+    { code: 'IM2.6', subject: 'General Medicine', specialties: [...IM_CARDIO, 'Emergency Medicine'], description: 'Elicit, document and present an appropriate history in a patient with chest pain, including risk factors, comorbidities and coronary syndromes' },
+    { code: 'IM2.18', subject: 'General Medicine', specialties: [...IM_CARDIO, 'Emergency Medicine'], description: 'Discuss and describe the indications, contraindications and management of thrombolysis and primary PCI in acute coronary syndromes' },
+    { code: 'IM3.1', subject: 'General Medicine', specialties: IM, description: 'Define, discuss, describe and distinguish community-acquired, nosocomial and aspiration pneumonia' },
+    { code: 'IM4.1', subject: 'General Medicine', specialties: IM, description: 'Describe and discuss the febrile response and the influence of host immune status, risk factors and comorbidities on it' },
+    { code: 'IM4.6', subject: 'General Medicine', specialties: IM, description: 'Discuss and describe the pathophysiology, clinical features and management of malaria' },
+    { code: 'IM5.1', subject: 'General Medicine', specialties: IM, description: 'Describe and discuss the physiological and biochemical basis of hyperbilirubinaemia' },
+    { code: 'IM6.1', subject: 'General Medicine', specialties: IM, description: 'Describe and classify HIV/AIDS and discuss its opportunistic infections' },
+    { code: 'IM8.1', subject: 'General Medicine', specialties: IM_CARDIO, description: 'Describe and discuss the epidemiology, aetiology and prevalence of primary and secondary hypertension' },
+    { code: 'IM9.1', subject: 'General Medicine', specialties: IM, description: 'Define, describe and classify anaemia based on red blood cell size and reticulocyte count' },
+    { code: 'IM10.1', subject: 'General Medicine', specialties: IM, description: 'Define, describe and differentiate between acute and chronic kidney injury' },
+    { code: 'IM11.1', subject: 'General Medicine', specialties: IM, description: 'Define and classify diabetes mellitus' },
+    { code: 'IM11.20', subject: 'General Medicine', specialties: IM_EMERGENCY, description: 'Describe the precipitating factors, presentation and management of diabetic ketoacidosis and hyperosmolar states' },
+    { code: 'IM12.1', subject: 'General Medicine', specialties: IM, description: 'Describe the epidemiology and pathogenesis of hypothyroidism and hyperthyroidism' },
+    { code: 'IM15.1', subject: 'General Medicine', specialties: IM_EMERGENCY, description: 'Enumerate, describe and discuss the aetiology of upper and lower gastrointestinal bleeding' },
+    { code: 'IM16.1', subject: 'General Medicine', specialties: IM, description: 'Describe and discuss the aetiology of acute and chronic diarrhoea, including infectious and non-infectious causes' },
+    { code: 'IM17.1', subject: 'General Medicine', specialties: IM_NEURO, description: 'Define and classify headache and describe the presenting, precipitating, aggravating and relieving features of its various kinds' },
+    { code: 'IM17.10', subject: 'General Medicine', specialties: [...IM_NEURO, 'Emergency Medicine'], description: 'Describe the clinical features, investigation and management of meningitis' },
+    { code: 'IM18.3', subject: 'General Medicine', specialties: [...IM_NEURO, 'Emergency Medicine'], description: 'Elicit and document a history in a patient with a cerebrovascular accident that identifies the onset, progression, precipitants and risk factors' },
+    { code: 'IM19.1', subject: 'General Medicine', specialties: IM_NEURO, description: 'Describe the functional anatomy of the locomotor system and the clinical features of Parkinsonism and other movement disorders' },
+    { code: 'IM20.1', subject: 'General Medicine', specialties: IM_EMERGENCY, description: 'Enumerate the local poisonous snakes, describe their distinguishing marks and the management of snake bite' },
+    { code: 'IM21.1', subject: 'General Medicine', specialties: IM_EMERGENCY, description: 'Describe the initial approach to the stabilisation of a patient who presents with poisoning' },
+    { code: 'IM25.1', subject: 'General Medicine', specialties: IM, description: 'Describe and discuss zoonotic and non-febrile infectious diseases such as leptospirosis, rabies and tetanus' },
+
+    // Respiratory Medicine
+    { code: 'CT1.1', subject: 'Respiratory Medicine', specialties: IM, description: 'Describe and discuss the epidemiology of tuberculosis and its impact on work, life and the economy of India' },
+    { code: 'CT1.5', subject: 'Respiratory Medicine', specialties: IM, description: 'Elicit, document and present a history in a patient with suspected tuberculosis' },
+    { code: 'CT2.1', subject: 'Respiratory Medicine', specialties: IM_EMERGENCY, description: 'Define and classify obstructive airway disease, including asthma and COPD' },
+
+    // Pediatrics
+    { code: 'PE1.1', subject: 'Pediatrics', specialties: ['Pediatrics'], description: 'Define the terminologies of growth and development and discuss the factors affecting normal growth' },
+    { code: 'PE10.1', subject: 'Pediatrics', specialties: ['Pediatrics'], description: 'Define and describe the aetiopathogenesis, classification, clinical features and management of severe acute malnutrition' },
+    { code: 'PE20.19', subject: 'Pediatrics', specialties: ['Pediatrics'], description: 'Discuss the aetiology, clinical features and management of neonatal hyperbilirubinaemia' },
+    { code: 'PE21.1', subject: 'Pediatrics', specialties: ['Pediatrics'], description: 'Discuss the aetiopathogenesis, clinical features, complications and management of urinary tract infection in children' },
+    { code: 'PE23.1', subject: 'Pediatrics', specialties: ['Pediatrics', 'Cardiology'], description: 'Discuss the haemodynamic changes, clinical presentation, complications and management of acyanotic heart disease in children' },
+    { code: 'PE24.1', subject: 'Pediatrics', specialties: ['Pediatrics'], description: 'Discuss the aetiopathogenesis, classification, clinical presentation and management of diarrhoeal diseases in children' },
+    { code: 'PE28.4', subject: 'Pediatrics', specialties: ['Pediatrics'], description: 'Discuss the aetiopathogenesis, clinical features and management of acute otitis media' },
+    { code: 'PE28.5', subject: 'Pediatrics', specialties: ['Pediatrics', 'Emergency Medicine'], description: 'Discuss the aetiopathogenesis, clinical features and management of epiglottitis' },
+    { code: 'PE28.6', subject: 'Pediatrics', specialties: ['Pediatrics', 'Emergency Medicine'], description: 'Discuss the aetiopathogenesis, clinical features and management of acute laryngotracheobronchitis (croup)' },
+    { code: 'PE29.1', subject: 'Pediatrics', specialties: ['Pediatrics'], description: 'Discuss the aetiopathogenesis, clinical features, classification and approach to a child with anaemia' },
+    { code: 'PE30.1', subject: 'Pediatrics', specialties: ['Pediatrics', 'Neurology', 'Emergency Medicine'], description: 'Discuss the aetiopathogenesis, clinical features, complications, management and prevention of meningitis in children' },
+    { code: 'PE31.5', subject: 'Pediatrics', specialties: ['Pediatrics'], description: 'Discuss the aetiopathogenesis, clinical types, presentation and management of bronchial asthma in children' },
+    { code: 'PE34.1', subject: 'Pediatrics', specialties: ['Pediatrics'], description: 'Discuss the epidemiology, clinical features, clinical types and complications of tuberculosis in children and adolescents' },
+
+    // General Surgery
+    { code: 'SU17.1', subject: 'General Surgery', specialties: ['Surgery', 'Emergency Medicine'], description: 'Describe the principles of first aid and the primary survey in the injured patient' },
+    { code: 'SU17.10', subject: 'General Surgery', specialties: ['Surgery', 'Emergency Medicine'], description: 'Demonstrate airway maintenance and recognise and manage tension pneumothorax, haemothorax and flail chest' },
+    { code: 'SU24.1', subject: 'General Surgery', specialties: ['Surgery'], description: 'Describe the clinical features, principles of investigation, prognosis and management of pancreatitis' },
+    { code: 'SU28.1', subject: 'General Surgery', specialties: ['Surgery'], description: 'Describe the pathophysiology, clinical features, investigations and principles of management of hernias' },
+    { code: 'SU28.9', subject: 'General Surgery', specialties: ['Surgery', 'Emergency Medicine'], description: 'Describe the applied anatomy, clinical features, investigations and principles of management of acute appendicitis' },
+    { code: 'SU28.12', subject: 'General Surgery', specialties: ['Surgery'], description: 'Describe the applied anatomy of the biliary system and the clinical features, investigations and management of diseases of the gallbladder' },
+    { code: 'SU30.1', subject: 'General Surgery', specialties: ['Surgery', 'Emergency Medicine'], description: 'Describe the clinical features, investigations and principles of management of testicular torsion and other acute scrotal conditions' },
+
+    // Obstetrics & Gynaecology
+    { code: 'OG8.1', subject: 'Obstetrics & Gynaecology', specialties: ['Obstetrics & Gynecology'], description: 'Enumerate, describe and discuss the objectives of antenatal care, assessment of period of gestation and screening for high-risk factors' },
+    { code: 'OG9.3', subject: 'Obstetrics & Gynaecology', specialties: ['Obstetrics & Gynecology', 'Emergency Medicine'], description: 'Discuss the aetiology, clinical features and differential diagnosis of acute abdomen in early pregnancy, with a focus on ectopic pregnancy' },
+    { code: 'OG10.1', subject: 'Obstetrics & Gynaecology', specialties: ['Obstetrics & Gynecology', 'Emergency Medicine'], description: 'Define, classify and describe the aetiology, pathogenesis, clinical features and management of antepartum haemorrhage' },
+    { code: 'OG12.1', subject: 'Obstetrics & Gynaecology', specialties: ['Obstetrics & Gynecology', 'Emergency Medicine'], description: 'Define, classify and describe the early detection, investigation and management of hypertensive disorders of pregnancy and eclampsia' },
+    { code: 'OG12.2', subject: 'Obstetrics & Gynaecology', specialties: ['Obstetrics & Gynecology'], description: 'Define, classify and describe the diagnosis, investigation and management of anaemia in pregnancy' },
+    { code: 'OG12.3', subject: 'Obstetrics & Gynaecology', specialties: ['Obstetrics & Gynecology'], description: 'Define, classify and describe the diagnosis, investigation and management of diabetes in pregnancy' },
+    { code: 'OG16.1', subject: 'Obstetrics & Gynaecology', specialties: ['Obstetrics & Gynecology', 'Emergency Medicine'], description: 'Enumerate and discuss the causes, prevention, diagnosis and management of postpartum haemorrhage, including the use of blood products' },
+    { code: 'OG24.1', subject: 'Obstetrics & Gynaecology', specialties: ['Obstetrics & Gynecology'], description: 'Define, classify and discuss abnormal uterine bleeding, its aetiology, clinical features and management' },
+
+    // Psychiatry
+    { code: 'PS4.1', subject: 'Psychiatry', specialties: ['Psychiatry'], description: 'Describe the magnitude and aetiology of alcohol and substance use disorders' },
+    { code: 'PS5.1', subject: 'Psychiatry', specialties: ['Psychiatry'], description: 'Classify and describe the magnitude and aetiology of schizophrenia and other psychotic disorders' },
+    { code: 'PS6.1', subject: 'Psychiatry', specialties: ['Psychiatry'], description: 'Classify and describe the magnitude and aetiology of depression' },
+    { code: 'PS7.1', subject: 'Psychiatry', specialties: ['Psychiatry'], description: 'Classify and describe the magnitude and aetiology of bipolar disorders' },
+    { code: 'PS8.1', subject: 'Psychiatry', specialties: ['Psychiatry'], description: 'Enumerate and describe the magnitude and aetiology of anxiety disorders' },
+
+    // Dermatology, Venereology & Leprosy
+    { code: 'DR2.1', subject: 'Dermatology, Venereology & Leprosy', specialties: ['Dermatology'], description: 'Identify and differentiate vitiligo from other causes of hypopigmented lesions' },
+    { code: 'DR3.1', subject: 'Dermatology, Venereology & Leprosy', specialties: ['Dermatology'], description: 'Identify and distinguish psoriatic lesions from other causes' },
+    { code: 'DR5.1', subject: 'Dermatology, Venereology & Leprosy', specialties: ['Dermatology'], description: 'Describe the aetiology, microbiology, pathogenesis, natural history, clinical features and presentations of scabies' },
+    { code: 'DR7.1', subject: 'Dermatology, Venereology & Leprosy', specialties: ['Dermatology'], description: 'Describe the aetiology, microbiology, pathogenesis and clinical presentations of dermatophyte infections' },
+    { code: 'DR9.1', subject: 'Dermatology, Venereology & Leprosy', specialties: ['Dermatology'], description: 'Classify and describe the epidemiology, aetiology, pathogenesis, clinical presentations and diagnostic features of leprosy' },
+];
+
+export const COMPETENCY_SUBJECTS: CompetencySubject[] = [...new Set(COMPETENCY_CATALOG.map(c => c.subject))];
+
+export const COMPETENCY_CODES: string[] = COMPETENCY_CATALOG.map(c => c.code);
+
+export const getCompetency = (code: string | null | undefined): Competency | undefined =>
+    COMPETENCY_CATALOG.find(c => c.code === code);
+
+// Cases generated before the catalog hold free text, which is shown as-is.
+export const formatCompetency = (code: string): string => {
+    const competency = getCompetency(code);
+    return competency ? `${competency.code} ${competency.description}` : code;
+};
+
+export const competenciesForSpecialties = (specialties: Specialty[] | undefined): Competency[] =>
+    specialties && specialties.length > 0
+        ? COMPETENCY_CATALOG.filter(c => c.specialties.some(s => specialties.includes(s)))
+        : COMPETENCY_CATALOG;
+
+export interface SubjectCoverage {
+    subject: CompetencySubject;
+    practised: Competency[];
+    remaining: Competency[];
+}
+
+export function summarizeCompetencyCoverage(practisedCodes: string[]): SubjectCoverage[] {
+    const practised = new Set(practisedCodes);
+    return COMPETENCY_SUBJECTS.map(subject => {
+        const entries = COMPETENCY_CATALOG.filter(c => c.subject === subject);
+        return {
+            subject,
+            practised: entries.filter(c => practised.has(c.code)),
+            remaining: entries.filter(c => !practised.has(c.code)),
+        };
+    });
+}
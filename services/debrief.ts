@@ -0,0 +1,186 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { DiagnosticCase, EPA, CognitiveSkill } from "./geminiService";
+import { CoverageReport } from "./historyCoverage";
+import { scoreDifferential } from "./differential";
+import { InvestigationOrder, summarizeOrdering } from "./investigations";
+import { TreatmentOrder, reviewTreatmentOrders } from "./treatmentOrders";
+import { PerformedIntervention, isDynamicCase, summarizeInterventions } from "./patientState";
+
+// End-of-case debrief. Everything the student did during the case is folded into a score for
+// each EPA the case is tagged with and for its cognitive skill, plus a short list of concrete
+// things to do differently next time.
+
+export interface CaseOutcome {
+    caseData: DiagnosticCase;
+    selectedDiagnosis: string | null;
+    mcqAnswers: Record<number, number>;
+    hintsUsed: number;
+    elapsedMs: number;
+    chatTurns: number;
+    coverage: CoverageReport | null;
+    differentialEntries: string[];
+    investigationOrders: InvestigationOrder[];
+    treatmentOrders: TreatmentOrder[];
+    performedInterventions: PerformedIntervention[];
+}
+
+export interface EpaResult {
+    epa: EPA;
+    score: number | null; // null when nothing in this case assessed it
+    evidence: string[];
+}
+
+export interface CaseDebrief {
+    diagnosisCorrect: boolean;
+    correctDiagnosis: string;
+    mcqCorrect: number;
+    mcqTotal: number;
+    hintsUsed: number;
+    elapsedMs: number;
+    chatTurns: number;
+    epaResults: EpaResult[];
+    cognitiveSkill: { skill: CognitiveSkill; score: number | null };
+    overallScore: number; // 0-100
+    suggestions: string[];
+}
+
+const HINT_PENALTY = 5;
+const UNSAFE_ORDER_PENALTY = 25;
+// Below this many questions the history is treated as incomplete when the case has no checklist.
+const MIN_CHAT_TURNS = 6;
+const MAX_MISSED_ITEM_SUGGESTIONS = 3;
+
+const percent = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 100) : 0);
+
+const average = (scores: (number | null)[]): number | null => {
+    const assessed = scores.filter((s): s is number => s !== null);
+    return assessed.length > 0 ? Math.round(assessed.reduce((sum, s) => sum + s, 0) / assessed.length) : null;
+};
+
+export function buildDebrief(outcome: CaseOutcome): CaseDebrief {
+    const { caseData, selectedDiagnosis, mcqAnswers, hintsUsed, chatTurns, coverage, differentialEntries } = outcome;
+    const suggestions: string[] = [];
+
+    // Diagnosis
+    const correctDiagnosis = caseData.potentialDiagnoses.find(d => d.isCorrect)?.diagnosis ?? '';
+    const diagnosisCorrect = selectedDiagnosis === correctDiagnosis;
+    if (!diagnosisCorrect) {
+        suggestions.push(selectedDiagnosis
+            ? `Compare ${selectedDiagnosis} with ${correctDiagnosis}: work out which findings in this case favour one over the other.`
+            : `Commit to a diagnosis before finishing; the answer here was ${correctDiagnosis}.`);
+    }
+
+    // MCQs
+    const mcqTotal = caseData.mcqs.length;
+    const missedMcqs = caseData.mcqs.filter((mcq, i) => mcqAnswers[i] !== mcq.correctAnswerIndex);
+    const mcqCorrect = mcqTotal - missedMcqs.length;
+    const mcqScore = mcqTotal > 0 ? percent(mcqCorrect, mcqTotal) : null;
+    missedMcqs.forEach(mcq => suggestions.push(`Revise: ${mcq.question} ${mcq.explanation}`));
+
+    // History and examination
+    const coverageOf = (category: 'History' | 'Examination') => {
+        if (!coverage) return null;
+        const asked = coverage.asked.filter(a => a.item.category === category).length;
+        const missed = coverage.missed.filter(m => m.category === category);
+        return asked + missed.length > 0 ? { score: percent(asked, asked + missed.length), asked, missed } : null;
+    };
+    const history = coverageOf('History');
+    const exam = coverageOf('Examination');
+    coverage?.missed.slice(0, MAX_MISSED_ITEM_SUGGESTIONS).forEach(item => {
+        suggestions.push(`${item.category === 'History' ? 'Ask about' : 'Examine'} ${item.item.charAt(0).toLowerCase()}${item.item.slice(1)}: ${item.rationale}`);
+    });
+    const historyScore = history ? history.score : Math.min(100, percent(chatTurns, MIN_CHAT_TURNS));
+    if (!history && chatTurns < MIN_CHAT_TURNS) {
+        suggestions.push(`You asked ${chatTurns} question${chatTurns === 1 ? '' : 's'}. Take a fuller history: onset, progression, associated symptoms, past history and risk factors.`);
+    }
+
+    // Differential
+    const differential = differentialEntries.length > 0 ? scoreDifferential(caseData, differentialEntries) : null;
+    if (differential?.dangerousOmissions.length) {
+        suggestions.push(`Always keep ${differential.dangerousOmissions.join(' and ')} on your differential until excluded.`);
+    }
+
+    // Investigations
+    const ordering = outcome.investigationOrders.length > 0 ? summarizeOrdering(caseData, outcome.investigationOrders) : null;
+    const orderingScore = ordering
+        ? Math.max(0, percent(ordering.informative.length, ordering.informative.length + ordering.lowYield.length) - (ordering.totalCost > ordering.budget ? 20 : 0))
+        : null;
+    if (ordering?.lowYield.length) suggestions.push(`Order with a question in mind: ${ordering.lowYield.join(', ')} added little to this case.`);
+    if (ordering && ordering.totalCost > ordering.budget) suggestions.push('You went over the investigation budget; prioritise the tests that change management.');
+
+    // Treatment
+    const reviewed = reviewTreatmentOrders(caseData, outcome.treatmentOrders);
+    const dangers = reviewed.flatMap(r => r.issues.filter(i => i.severity === 'danger'));
+    const treatmentScore = reviewed.length > 0 ? Math.max(0, 100 - dangers.length * UNSAFE_ORDER_PENALTY) : null;
+    dangers.slice(0, 2).forEach(issue => suggestions.push(`Check the formulary before prescribing: ${issue.message}`));
+
+    const interventions = isDynamicCase(caseData) ? summarizeInterventions(caseData, outcome.performedInterventions) : null;
+    const interventionScore = interventions
+        ? percent(interventions.timely.length, interventions.timely.length + interventions.late.length + interventions.missed.length)
+        : null;
+    [...(interventions?.missed ?? []), ...(interventions?.late ?? [])].forEach(i => {
+        const deadline = caseData.trajectory?.interventions.find(t => t.intervention === i)?.deadlineMinute;
+        suggestions.push(`${i} is time-critical here and should be given within ${deadline} minutes.`);
+    });
+
+    if (hintsUsed > 0) {
+        suggestions.push(`You used ${hintsUsed} hint${hintsUsed === 1 ? '' : 's'}. Next time, list what you still need to know before asking for one.`);
+    }
+
+    const epaScores: Record<EPA, { score: number | null; evidence: string[] }> = {
+        'History-taking': {
+            score: historyScore,
+            evidence: history
+                ? [`Covered ${history.asked} of ${history.asked + history.missed.length} key history points`]
+                : [`Asked ${chatTurns} question${chatTurns === 1 ? '' : 's'}`],
+        },
+        'Physical Exam': {
+            score: exam ? exam.score : null,
+            evidence: exam ? [`Covered ${exam.asked} of ${exam.asked + exam.missed.length} key examination points`] : [],
+        },
+        'Diagnosis': {
+            score: average([diagnosisCorrect ? 100 : 0, differential?.score ?? null, orderingScore]),
+            evidence: [
+                diagnosisCorrect ? 'Chose the correct diagnosis' : 'Chose an incorrect diagnosis',
+                ...(differential ? [`Differential scored ${differential.score}/100`] : []),
+                ...(ordering ? [`${ordering.informative.length} informative and ${ordering.lowYield.length} low-yield investigations`] : []),
+            ],
+        },
+        'Management': {
+            score: average([mcqScore, treatmentScore, interventionScore]),
+            evidence: [
+                ...(mcqScore !== null ? [`${mcqCorrect}/${mcqTotal} clinical questions correct`] : []),
+                ...(treatmentScore !== null ? [`${dangers.length} unsafe treatment order${dangers.length === 1 ? '' : 's'}`] : []),
+                ...(interventions ? [`${interventions.timely.length} time-critical treatment${interventions.timely.length === 1 ? '' : 's'} given in time`] : []),
+            ],
+        },
+    };
+    const epaResults = caseData.tags.epas.map(epa => ({ epa, ...epaScores[epa] }));
+
+    // Each cognitive skill is judged on the part of the case that exercises it most. Application uses the
+    // Management score, which already counts the MCQs alongside the treatment decisions.
+    const skill = caseData.tags.cognitiveSkill;
+    const skillScore = skill === 'Recall'
+        ? mcqScore
+        : skill === 'Application'
+            ? epaScores['Management'].score
+            : average([diagnosisCorrect ? 100 : 0, differential?.score ?? null]);
+
+    const overall = average(epaResults.map(r => r.score)) ?? (diagnosisCorrect ? 100 : 0);
+    return {
+        diagnosisCorrect,
+        correctDiagnosis,
+        mcqCorrect,
+        mcqTotal,
+        hintsUsed,
+        elapsedMs: outcome.elapsedMs,
+        chatTurns,
+        epaResults,
+        cognitiveSkill: { skill, score: skillScore },
+        overallScore: Math.max(0, overall - hintsUsed * HINT_PENALTY),
+        suggestions,
+    };
+}
@@ -0,0 +1,189 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { DiagnosticCase } from "./geminiService";
+
+// Scoring for the free-text ranked differential. Entries are normalised (abbreviations expanded,
+// synonyms mapped to one wording, qualifiers dropped) and matched against the case's
+// potentialDiagnoses by token overlap, so "MI", "heart attack" and "Acute inferior wall
+// myocardial infarction" all line up.
+
+export const MAX_DIFFERENTIAL_ENTRIES = 5;
+
+const RANK_POINTS = [100, 80, 60, 40, 20];
+const DANGEROUS_OMISSION_PENALTY = 15;
+
+const ABBREVIATIONS: Record<string, string> = {
+    mi: 'myocardial infarction',
+    ami: 'myocardial infarction',
+    stemi: 'st elevation myocardial infarction',
+    nstemi: 'non st elevation myocardial infarction',
+    acs: 'acute coronary syndrome',
+    ua: 'unstable angina',
+    pe: 'pulmonary embolism',
+    dvt: 'deep vein thrombosis',
+    chf: 'heart failure',
+    ccf: 'heart failure',
+    hf: 'heart failure',
+    af: 'atrial fibrillation',
+    svt: 'supraventricular tachycardia',
+    vt: 'ventricular tachycardia',
+    htn: 'hypertension',
+    copd: 'chronic obstructive pulmonary disease',
+    cap: 'community acquired pneumonia',
+    tb: 'tuberculosis',
+    ptb: 'pulmonary tuberculosis',
+    urti: 'upper respiratory tract infection',
+    lrti: 'lower respiratory tract infection',
+    uti: 'urinary tract infection',
+    pyelo: 'pyelonephritis',
+    aki: 'acute kidney injury',
+    ckd: 'chronic kidney disease',
+    dka: 'diabetic ketoacidosis',
+    hhs: 'hyperosmolar hyperglycaemic state',
+    t1dm: 'type 1 diabetes mellitus',
+    t2dm: 'type 2 diabetes mellitus',
+    dm: 'diabetes mellitus',
+    gerd: 'gastro oesophageal reflux disease',
+    gord: 'gastro oesophageal reflux disease',
+    pud: 'peptic ulcer disease',
+    ugib: 'upper gastrointestinal bleed',
+    ibd: 'inflammatory bowel disease',
+    ibs: 'irritable bowel syndrome',
+    sah: 'subarachnoid haemorrhage',
+    ich: 'intracerebral haemorrhage',
+    tia: 'transient ischaemic attack',
+    cva: 'stroke',
+    gbs: 'guillain barre syndrome',
+    ms: 'multiple sclerosis',
+    sle: 'systemic lupus erythematosus',
+    ra: 'rheumatoid arthritis',
+    oa: 'osteoarthritis',
+    pid: 'pelvic inflammatory disease',
+    pcos: 'polycystic ovary syndrome',
+    pph: 'postpartum haemorrhage',
+    ards: 'acute respiratory distress syndrome',
+    dic: 'disseminated intravascular coagulation',
+    itp: 'immune thrombocytopenia',
+    ida: 'iron deficiency anaemia',
+    aom: 'acute otitis media',
+    rhd: 'rheumatic heart disease',
+    nec: 'necrotising enterocolitis',
+};
+
+// Phrases with the same meaning, rewritten to the wording on the right.
+const SYNONYMS: [RegExp, string][] = [
+    [/\bheart attack\b/g, 'myocardial infarction'],
+    [/\blaryngotracheobronchitis\b/g, 'croup'],
+    [/\bcerebrovascular accident\b/g, 'stroke'],
+    [/\bbrain attack\b/g, 'stroke'],
+    [/\bcongestive cardiac failure\b|\bcongestive heart failure\b|\bcardiac failure\b/g, 'heart failure'],
+    [/\benteric fever\b/g, 'typhoid'],
+    [/\btyphoid fever\b/g, 'typhoid'],
+    [/\bkoch s\b|\bkochs\b/g, 'tuberculosis'],
+    [/\bhemorrhag/g, 'haemorrhag'],
+    [/\banemi/g, 'anaemi'],
+    [/\bischemi/g, 'ischaemi'],
+    [/\besophag/g, 'oesophag'],
+    [/\bedema\b/g, 'oedema'],
+    [/\bpediatric/g, 'paediatric'],
+    [/\bgastroesophageal\b|\bgastro esophageal\b/g, 'gastro oesophageal'],
+    [/\bappendix inflammation\b/g, 'appendicitis'],
+];
+
+// Words that describe a diagnosis without changing what it is.
+const QUALIFIERS = new Set([
+    'acute', 'chronic', 'subacute', 'severe', 'mild', 'moderate', 'early', 'late', 'primary', 'secondary',
+    'inferior', 'anterior', 'posterior', 'lateral', 'wall', 'suspected', 'probable',
+    'possible', 'likely', 'uncomplicated', 'complicated', 'community', 'hospital', 'acquired',
+    'the', 'a', 'an', 'of', 'with', 'and', 'due', 'to', 'in', 'on',
+]);
+
+// Words that tell apart diagnoses otherwise named alike ("Type 1" vs "Type 2", left vs right heart
+// failure, STEMI vs non-ST elevation MI). Both sides have to name the same ones.
+const LATERALITY = new Set(['left', 'right', 'bilateral']);
+const NEGATIONS = new Set(['non', 'not']);
+const isSignificant = (token: string) => /^\d+$/.test(token) || LATERALITY.has(token) || NEGATIONS.has(token);
+
+// Diagnoses that must be considered whenever they are on the table.
+const CANT_MISS = [
+    'myocardial infarction', 'non st elevation myocardial infarction', 'acute coronary syndrome', 'aortic dissection', 'pulmonary embolism', 'tension pneumothorax',
+    'cardiac tamponade', 'subarachnoid haemorrhage', 'meningitis', 'encephalitis', 'stroke', 'epiglottitis',
+    'ectopic pregnancy', 'sepsis', 'septic shock', 'diabetic ketoacidosis', 'anaphylaxis', 'testicular torsion',
+    'ovarian torsion', 'intussusception', 'bowel obstruction', 'perforation', 'foreign body aspiration',
+    'eclampsia', 'placental abruption', 'upper gastrointestinal bleed', 'cerebral malaria', 'dengue shock',
+    'bacterial tracheitis', 'necrotising fasciitis', 'spinal cord compression',
+];
+
+export function normalizeDiagnosis(text: string): string {
+    let normalized = text.toLowerCase().replace(/[’']/g, ' ').replace(/[^a-z0-9\s]/g, ' ');
+    normalized = normalized.split(/\s+/).map(word => ABBREVIATIONS[word] ?? word).join(' ');
+    SYNONYMS.forEach(([pattern, replacement]) => { normalized = normalized.replace(pattern, replacement); });
+    return normalized.replace(/\s+/g, ' ').trim();
+}
+
+const stem = (word: string) => (word.length > 4 && word.endsWith('s') && !/(ss|is|us)$/.test(word) ? word.slice(0, -1) : word);
+
+const coreTokens = (text: string): Set<string> =>
+    new Set(normalizeDiagnosis(text).split(' ').filter(w => w && !QUALIFIERS.has(w)).map(stem));
+
+// A diagnosis like "Croup (laryngotracheobronchitis)" can be named either way.
+const alternatives = (diagnosis: string): string[] =>
+    [diagnosis.replace(/\(.*?\)/g, ''), ...(diagnosis.match(/\((.*?)\)/g) ?? []).map(m => m.slice(1, -1))]
+        .map(d => d.trim())
+        .filter(Boolean);
+
+const conflicts = (a: Set<string>, b: Set<string>): boolean => {
+    const fromA = [...a].filter(isSignificant);
+    const fromB = [...b].filter(isSignificant);
+    return fromA.length !== fromB.length || fromA.some(t => !b.has(t));
+};
+
+export function diagnosesMatch(entry: string, diagnosis: string): boolean {
+    const entryTokens = coreTokens(entry);
+    if (entryTokens.size === 0) return false;
+    return alternatives(diagnosis).some(alternative => {
+        const target = coreTokens(alternative);
+        if (target.size === 0 || conflicts(entryTokens, target)) return false;
+        const shared = [...target].filter(t => entryTokens.has(t)).length;
+        // Most of the diagnosis must be named, and most of what was typed must be about it.
+        return shared / target.size >= 2 / 3 && shared / entryTokens.size >= 0.5;
+    });
+}
+
+const isCantMiss = (diagnosis: string) => CANT_MISS.some(d => diagnosesMatch(d, diagnosis) || diagnosesMatch(diagnosis, d));
+
+export interface DifferentialEntryResult {
+    entry: string;
+    matchedDiagnosis: string | null;
+    isCorrect: boolean;
+}
+
+export interface DifferentialScore {
+    score: number; // 0-100
+    correctRank: number | null; // 1-based
+    entries: DifferentialEntryResult[];
+    dangerousOmissions: string[];
+}
+
+export function scoreDifferential(caseData: DiagnosticCase, entries: string[]): DifferentialScore {
+    const results: DifferentialEntryResult[] = entries.map(entry => {
+        const match = caseData.potentialDiagnoses.find(d => diagnosesMatch(entry, d.diagnosis));
+        return { entry, matchedDiagnosis: match?.diagnosis ?? null, isCorrect: !!match?.isCorrect };
+    });
+
+    const correctIndex = results.findIndex(r => r.isCorrect);
+    const considered = new Set(results.map(r => r.matchedDiagnosis).filter(Boolean));
+    const dangerousOmissions = caseData.potentialDiagnoses
+        .filter(d => !considered.has(d.diagnosis) && isCantMiss(d.diagnosis))
+        .map(d => d.diagnosis);
+
+    const rankPoints = correctIndex >= 0 ? RANK_POINTS[correctIndex] ?? 0 : 0;
+    return {
+        score: Math.max(0, rankPoints - dangerousOmissions.length * DANGEROUS_OMISSION_PENALTY),
+        correctRank: correctIndex >= 0 ? correctIndex + 1 : null,
+        entries: results,
+        dangerousOmissions,
+    };
+}
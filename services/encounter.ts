@@ -0,0 +1,45 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { DiagnosticCase } from "./geminiService";
+import { guardianFor, speakerFor } from "./avatars";
+
+// Who is in the room for a case. Every encounter has the patient's side (the patient, a parent,
+// or both for children) plus a ward nurse who can report observations and an attending the
+// student can present to. Each participant gets their own chat session (see createEncounterChats),
+// and the one who answers the history is the one shown by the avatar.
+
+export type ParticipantId = 'patient' | 'guardian' | 'nurse' | 'attending';
+
+export interface Participant extends Omit<DiagnosticCase['patientProfile'], 'name'> {
+    id: ParticipantId;
+    name: string;
+    title: string; // how the addressee picker labels them
+}
+
+// Children younger than this come with a parent.
+const ACCOMPANIED_AGE_LIMIT = 13;
+// Younger children can't be interviewed themselves; only the parent is addressable.
+const SPEAKING_AGE = 3;
+
+const NURSE: Participant = { id: 'nurse', title: 'Ward nurse', name: 'Sister Anita', age: 34, gender: 'Female', ethnicity: 'South Asian' };
+const ATTENDING: Participant = { id: 'attending', title: 'Attending', name: 'Dr. Rao', age: 52, gender: 'Male', ethnicity: 'South Asian' };
+
+export function encounterParticipants(caseData: DiagnosticCase): Participant[] {
+    const profile = caseData.patientProfile;
+    const participants: Participant[] = [];
+    if (profile.age >= SPEAKING_AGE) {
+        participants.push({ ...profile, id: 'patient', title: profile.name.split(' ')[0] || 'Patient' });
+    }
+    if (profile.age < ACCOMPANIED_AGE_LIMIT) {
+        const { role, ...guardian } = guardianFor(profile);
+        participants.push({ ...guardian, id: 'guardian', title: 'Mother' });
+    }
+    return [...participants, NURSE, ATTENDING];
+}
+
+// The participant questions go to until the student picks someone else.
+export function primaryParticipant(caseData: DiagnosticCase): ParticipantId {
+    return speakerFor(caseData.patientProfile).role;
+}
@@ -0,0 +1,263 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Local formulary used to check students' treatment orders. Dose limits follow standard
+// paediatric (mg/kg) and adult maxima; contraindications are matched against the case.
+// This is a teaching dataset, not a prescribing reference.
+
+export type DrugRoute = 'Oral' | 'IV' | 'IM' | 'SC' | 'Nebulised' | 'Sublingual' | 'Rectal';
+
+export const DRUG_ROUTES: DrugRoute[] = ['Oral', 'IV', 'IM', 'SC', 'Nebulised', 'Sublingual', 'Rectal'];
+
+export type DoseFrequency = 'Once' | 'OD' | 'BD' | 'TDS' | 'QID' | 'Q4H';
+
+// Doses per 24 hours, for daily-maximum checks.
+export const DOSES_PER_DAY: Record<DoseFrequency, number> = { Once: 1, OD: 1, BD: 2, TDS: 3, QID: 4, Q4H: 6 };
+
+export const DOSE_FREQUENCIES = Object.keys(DOSES_PER_DAY) as DoseFrequency[];
+
+export interface DoseLimit {
+    perKg?: number; // weight-based single dose, capped at maxSingle
+    maxSingle: number;
+}
+
+export interface Contraindication {
+    reason: string;
+    keywords?: string[]; // matched against the case's history, findings and correct diagnosis
+    underAge?: number; // years
+    systolicBelow?: number; // mmHg, checked against the presenting vitals
+}
+
+export interface FormularyDrug {
+    id: string;
+    name: string;
+    unit: 'mg' | 'units';
+    routes: Partial<Record<DrugRoute, DoseLimit>>;
+    maxDaily?: number;
+    contraindications: Contraindication[];
+}
+
+export interface FormularyFluid {
+    id: string;
+    name: string;
+    maxBolusPerKg?: number; // mL/kg; undefined when the fluid must not be given as a bolus
+    contraindications: Contraindication[];
+}
+
+export interface FormularyProcedure {
+    id: string;
+    name: string;
+    contraindications: Contraindication[];
+}
+
+const BLEEDING = ['active bleeding', 'gi bleed', 'gastrointestinal bleed', 'haemorrhagic stroke', 'hemorrhagic stroke', 'intracranial haemorrhage', 'intracranial hemorrhage'];
+
+export const FORMULARY_DRUGS: FormularyDrug[] = [
+    {
+        id: 'paracetamol', name: 'Paracetamol', unit: 'mg',
+        routes: { Oral: { perKg: 15, maxSingle: 1000 }, IV: { perKg: 15, maxSingle: 1000 }, Rectal: { perKg: 20, maxSingle: 1000 } },
+        maxDaily: 4000,
+        contraindications: [{ reason: 'hepatic failure', keywords: ['liver failure', 'hepatic failure', 'paracetamol overdose'] }],
+    },
+    {
+        id: 'ibuprofen', name: 'Ibuprofen', unit: 'mg',
+        routes: { Oral: { perKg: 10, maxSingle: 800 } },
+        maxDaily: 2400,
+        contraindications: [
+            { reason: 'dengue (bleeding risk)', keywords: ['dengue'] },
+            { reason: 'peptic ulcer or GI bleeding', keywords: ['peptic ulcer', ...BLEEDING] },
+            { reason: 'renal impairment', keywords: ['renal failure', 'kidney injury', 'nephrotic'] },
+        ],
+    },
+    {
+        id: 'aspirin', name: 'Aspirin', unit: 'mg',
+        routes: { Oral: { maxSingle: 600 } },
+        maxDaily: 4000,
+        contraindications: [
+            { reason: "Reye's syndrome risk in children", underAge: 16 },
+            { reason: 'dengue (bleeding risk)', keywords: ['dengue'] },
+            { reason: 'bleeding, including aortic dissection', keywords: ['peptic ulcer', 'aortic dissection', ...BLEEDING] },
+        ],
+    },
+    {
+        id: 'clopidogrel', name: 'Clopidogrel', unit: 'mg',
+        routes: { Oral: { maxSingle: 600 } },
+        maxDaily: 600,
+        contraindications: [{ reason: 'active bleeding or aortic dissection', keywords: ['aortic dissection', ...BLEEDING] }],
+    },
+    {
+        id: 'heparin', name: 'Unfractionated Heparin', unit: 'units',
+        routes: { IV: { perKg: 80, maxSingle: 5000 }, SC: { maxSingle: 5000 } },
+        contraindications: [{ reason: 'active bleeding or aortic dissection', keywords: ['aortic dissection', 'thrombocytopenia', ...BLEEDING] }],
+    },
+    {
+        id: 'streptokinase', name: 'Streptokinase', unit: 'units',
+        routes: { IV: { maxSingle: 1500000 } },
+        contraindications: [{ reason: 'bleeding risk, stroke or aortic dissection', keywords: ['aortic dissection', 'ischaemic stroke', 'ischemic stroke', 'recent surgery', ...BLEEDING] }],
+    },
+    {
+        id: 'gtn', name: 'Glyceryl Trinitrate (GTN)', unit: 'mg',
+        routes: { Sublingual: { maxSingle: 0.8 } },
+        contraindications: [
+            { reason: 'hypotension', systolicBelow: 90 },
+            { reason: 'right ventricular infarction (preload dependent)', keywords: ['right ventricular infarct', 'inferior wall'] },
+            { reason: 'recent PDE-5 inhibitor use', keywords: ['sildenafil', 'tadalafil'] },
+        ],
+    },
+    {
+        id: 'metoprolol', name: 'Metoprolol', unit: 'mg',
+        routes: { Oral: { maxSingle: 100 }, IV: { maxSingle: 5 } },
+        maxDaily: 400,
+        contraindications: [
+            { reason: 'asthma or bronchospasm', keywords: ['asthma', 'bronchospasm'] },
+            { reason: 'acute heart failure, shock or heart block', keywords: ['heart failure', 'cardiogenic shock', 'heart block', 'pulmonary oedema', 'pulmonary edema'] },
+            { reason: 'hypotension', systolicBelow: 100 },
+        ],
+    },
+    {
+        id: 'furosemide', name: 'Furosemide', unit: 'mg',
+        routes: { IV: { perKg: 1, maxSingle: 80 }, Oral: { perKg: 2, maxSingle: 80 } },
+        contraindications: [
+            { reason: 'dehydration or hypovolaemia', keywords: ['dehydration', 'hypovolaemia', 'hypovolemia', 'hypovolaemic', 'hypovolemic'] },
+            { reason: 'hypotension', systolicBelow: 90 },
+        ],
+    },
+    {
+        id: 'morphine', name: 'Morphine', unit: 'mg',
+        routes: { IV: { perKg: 0.1, maxSingle: 10 }, IM: { perKg: 0.1, maxSingle: 10 }, SC: { perKg: 0.1, maxSingle: 10 }, Oral: { perKg: 0.2, maxSingle: 20 } },
+        contraindications: [
+            { reason: 'respiratory depression or head injury', keywords: ['respiratory depression', 'head injury', 'traumatic brain injury'] },
+            { reason: 'hypotension', systolicBelow: 90 },
+        ],
+    },
+    {
+        id: 'ondansetron', name: 'Ondansetron', unit: 'mg',
+        routes: { IV: { perKg: 0.15, maxSingle: 8 }, Oral: { perKg: 0.15, maxSingle: 8 } },
+        maxDaily: 24,
+        contraindications: [{ reason: 'prolonged QT interval', keywords: ['long qt', 'prolonged qt'] }],
+    },
+    {
+        id: 'salbutamol', name: 'Salbutamol', unit: 'mg',
+        routes: { Nebulised: { perKg: 0.15, maxSingle: 5 }, Oral: { maxSingle: 4 } },
+        contraindications: [],
+    },
+    {
+        id: 'ipratropium', name: 'Ipratropium Bromide', unit: 'mg',
+        routes: { Nebulised: { maxSingle: 0.5 } },
+        contraindications: [],
+    },
+    {
+        id: 'adrenaline', name: 'Adrenaline (Epinephrine)', unit: 'mg',
+        routes: { IM: { perKg: 0.01, maxSingle: 0.5 }, Nebulised: { perKg: 0.5, maxSingle: 5 }, IV: { perKg: 0.01, maxSingle: 1 } },
+        contraindications: [],
+    },
+    {
+        id: 'dexamethasone', name: 'Dexamethasone', unit: 'mg',
+        routes: { Oral: { perKg: 0.6, maxSingle: 16 }, IV: { perKg: 0.6, maxSingle: 16 }, IM: { perKg: 0.6, maxSingle: 16 } },
+        contraindications: [],
+    },
+    {
+        id: 'hydrocortisone', name: 'Hydrocortisone', unit: 'mg',
+        routes: { IV: { perKg: 4, maxSingle: 200 } },
+        contraindications: [],
+    },
+    {
+        id: 'prednisolone', name: 'Prednisolone', unit: 'mg',
+        routes: { Oral: { perKg: 2, maxSingle: 60 } },
+        maxDaily: 60,
+        contraindications: [],
+    },
+    {
+        id: 'amoxicillin', name: 'Amoxicillin', unit: 'mg',
+        routes: { Oral: { perKg: 45, maxSingle: 1000 } },
+        maxDaily: 3000,
+        contraindications: [{ reason: 'penicillin allergy', keywords: ['penicillin allergy', 'allergic to penicillin'] }],
+    },
+    {
+        id: 'ceftriaxone', name: 'Ceftriaxone', unit: 'mg',
+        routes: { IV: { perKg: 100, maxSingle: 2000 }, IM: { perKg: 50, maxSingle: 1000 } },
+        maxDaily: 4000,
+        contraindications: [{ reason: 'cephalosporin allergy', keywords: ['cephalosporin allergy', 'anaphylaxis to penicillin'] }],
+    },
+    {
+        id: 'metronidazole', name: 'Metronidazole', unit: 'mg',
+        routes: { IV: { perKg: 7.5, maxSingle: 500 }, Oral: { perKg: 7.5, maxSingle: 500 } },
+        maxDaily: 1500,
+        contraindications: [],
+    },
+    {
+        id: 'artesunate', name: 'Artesunate', unit: 'mg',
+        routes: { IV: { perKg: 2.4, maxSingle: 240 } },
+        contraindications: [],
+    },
+    {
+        id: 'diazepam', name: 'Diazepam', unit: 'mg',
+        routes: { IV: { perKg: 0.3, maxSingle: 10 }, Rectal: { perKg: 0.5, maxSingle: 20 } },
+        contraindications: [{ reason: 'respiratory depression', keywords: ['respiratory depression', 'respiratory failure'] }],
+    },
+    {
+        id: 'magnesium', name: 'Magnesium Sulphate', unit: 'mg',
+        routes: { IV: { maxSingle: 4000 }, IM: { maxSingle: 5000 } },
+        contraindications: [{ reason: 'heart block or myasthenia gravis', keywords: ['heart block', 'myasthenia'] }],
+    },
+    {
+        id: 'insulin', name: 'Regular Insulin', unit: 'units',
+        routes: { IV: { perKg: 0.1, maxSingle: 10 }, SC: { perKg: 0.2, maxSingle: 20 } },
+        contraindications: [{ reason: 'hypoglycaemia or uncorrected hypokalaemia', keywords: ['hypoglycaemia', 'hypoglycemia', 'hypokalaemia', 'hypokalemia'] }],
+    },
+    {
+        id: 'pantoprazole', name: 'Pantoprazole', unit: 'mg',
+        routes: { IV: { maxSingle: 80 }, Oral: { maxSingle: 40 } },
+        maxDaily: 160,
+        contraindications: [],
+    },
+];
+
+export const FORMULARY_FLUIDS: FormularyFluid[] = [
+    {
+        id: 'normal-saline', name: '0.9% Normal Saline', maxBolusPerKg: 20,
+        contraindications: [{ reason: 'fluid overload or pulmonary oedema', keywords: ['heart failure', 'pulmonary oedema', 'pulmonary edema', 'fluid overload'] }],
+    },
+    {
+        id: 'ringer-lactate', name: "Ringer's Lactate", maxBolusPerKg: 20,
+        contraindications: [{ reason: 'fluid overload or pulmonary oedema', keywords: ['heart failure', 'pulmonary oedema', 'pulmonary edema', 'fluid overload'] }],
+    },
+    {
+        id: 'dns', name: 'Dextrose Normal Saline (DNS)',
+        contraindications: [{ reason: 'uncontrolled hyperglycaemia', keywords: ['diabetic ketoacidosis', 'dka', 'hyperosmolar'] }],
+    },
+    {
+        id: 'd5', name: '5% Dextrose',
+        contraindications: [{ reason: 'hyponatraemia or raised intracranial pressure', keywords: ['hyponatraemia', 'hyponatremia', 'raised intracranial pressure', 'cerebral oedema', 'cerebral edema'] }],
+    },
+    {
+        id: 'ors', name: 'Oral Rehydration Solution (ORS)',
+        contraindications: [{ reason: 'reduced consciousness or persistent vomiting', keywords: ['unconscious', 'persistent vomiting', 'intestinal obstruction'] }],
+    },
+    {
+        id: 'prbc', name: 'Packed Red Blood Cells', maxBolusPerKg: 15,
+        contraindications: [],
+    },
+];
+
+export const FORMULARY_PROCEDURES: FormularyProcedure[] = [
+    { id: 'oxygen', name: 'Supplemental oxygen', contraindications: [] },
+    { id: 'iv-access', name: 'IV cannulation', contraindications: [] },
+    { id: 'monitoring', name: 'Continuous cardiac monitoring', contraindications: [] },
+    { id: 'positioning', name: 'Position upright / position of comfort', contraindications: [] },
+    { id: 'urinary-catheter', name: 'Urinary catheterisation', contraindications: [{ reason: 'suspected urethral injury', keywords: ['pelvic fracture', 'urethral injury', 'blood at the meatus'] }] },
+    { id: 'ng-tube', name: 'Nasogastric tube', contraindications: [{ reason: 'suspected base of skull fracture', keywords: ['basal skull fracture', 'base of skull fracture', 'csf rhinorrhoea', 'csf rhinorrhea'] }] },
+    { id: 'intubation', name: 'Endotracheal intubation', contraindications: [] },
+    { id: 'needle-decompression', name: 'Needle decompression', contraindications: [] },
+    { id: 'chest-drain', name: 'Chest drain insertion', contraindications: [] },
+    { id: 'defibrillation', name: 'Defibrillation', contraindications: [] },
+    { id: 'cpr', name: 'Cardiopulmonary resuscitation', contraindications: [] },
+    { id: 'lumbar-puncture', name: 'Lumbar puncture', contraindications: [{ reason: 'raised intracranial pressure', keywords: ['raised intracranial pressure', 'papilloedema', 'papilledema', 'space occupying lesion'] }] },
+    { id: 'throat-exam', name: 'Throat examination with tongue depressor', contraindications: [{ reason: 'suspected epiglottitis (risk of complete obstruction)', keywords: ['epiglottitis'] }] },
+    { id: 'pci', name: 'Primary PCI referral', contraindications: [] },
+];
+
+// Every orderable item. Generated trajectories name their stabilising interventions by these ids.
+export const FORMULARY_ITEM_IDS: string[] = [...FORMULARY_DRUGS, ...FORMULARY_FLUIDS, ...FORMULARY_PROCEDURES].map(item => item.id);
@@ -2,9 +2,16 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
  */
-import { GoogleGenAI, Type, Chat } from "@google/genai";
+import { Type } from "@google/genai";
+import { getLlmProvider, ChatSession } from "./llm";
+import { parseAndValidateCase, parseAndValidateQuestionSet, CaseFieldError, CaseValidationError, formatValidationErrors } from "./caseValidator";
+import { COMPETENCY_CATALOG_VERSION, COMPETENCY_CODES, competenciesForSpecialties, getCompetency } from "./competencyCatalog";
+import { Avatar, bestAvatarMatches, speakerFor } from "./avatars";
+import { encounterParticipants, primaryParticipant, Participant, ParticipantId } from "./encounter";
+import { describeVitals } from "./patientState";
+import { FORMULARY_ITEM_IDS } from "./formulary";
 
-export type { Chat };
+export type Chat = ChatSession;
 
 // --- TYPE DEFINITIONS (mirror from index.tsx) ---
 export type Specialty = 'Internal Medicine' | 'Pediatrics' | 'Surgery' | 'Obstetrics & Gynecology' | 'Psychiatry' | 'Cardiology' | 'Neurology' | 'Dermatology' | 'Emergency Medicine';
@@ -12,15 +19,22 @@ export type TrainingPhase = 'Pre-clinical' | 'Para-clinical' | 'Clinical' | 'Int
 export type CognitiveSkill = 'Recall' | 'Application' | 'Analysis';
 export type EPA = 'History-taking' | 'Physical Exam' | 'Diagnosis' | 'Management';
 
+export const SPECIALTIES: Specialty[] = ['Internal Medicine', 'Pediatrics', 'Surgery', 'Obstetrics & Gynecology', 'Psychiatry', 'Cardiology', 'Neurology', 'Dermatology', 'Emergency Medicine'];
+export const TRAINING_PHASES: TrainingPhase[] = ['Pre-clinical', 'Para-clinical', 'Clinical', 'Internship', 'NExT/FMGE Prep'];
+export const COGNITIVE_SKILLS: CognitiveSkill[] = ['Recall', 'Application', 'Analysis'];
+export const EPAS: EPA[] = ['History-taking', 'Physical Exam', 'Diagnosis', 'Management'];
+
 interface Diagnosis {
     diagnosis: string;
     isCorrect: boolean;
 }
 
-interface ChatMessage {
-    sender: 'user' | 'patient' | 'system';
+export interface ChatMessage {
+    sender: 'user' | 'system' | ParticipantId;
+    addressee?: ParticipantId; // on the student's messages; histories saved before encounters had only the patient
     text: string;
     timestamp: string;
+    isHint?: boolean;
 }
 
 export interface MCQ {
@@ -32,7 +46,8 @@ export interface MCQ {
 
 export interface CurriculumTags {
     framework: 'CBME/NExT';
-    competency: string;
+    competency: string; // a code from the competency catalog; free text on cases generated before it
+    catalogVersion?: string; // COMPETENCY_CATALOG_VERSION the case was generated against
 }
 
 export interface CaseTags {
@@ -43,7 +58,59 @@ export interface CaseTags {
     curriculum: CurriculumTags;
 }
 
+export interface Vitals {
+    heartRate: number; // beats/min
+    systolicBP: number; // mmHg
+    diastolicBP: number; // mmHg
+    respiratoryRate: number; // breaths/min
+    spo2: number; // %
+    temperature: number; // °C
+    gcs: number; // 3-15
+}
+
+export interface LabResult {
+    test: string;
+    value: number;
+    unit: string;
+    referenceLow: number;
+    referenceHigh: number;
+}
+
+export interface LabPanel {
+    name: string;
+    results: LabResult[];
+}
+
+// How an untreated patient evolves on the simulated clock, and what stops it. Only generated for
+// Emergency Medicine and challenge-mode cases.
+export interface DeteriorationStage {
+    atMinute: number; // simulated minutes after presentation
+    vitals: Vitals;
+    symptoms: string;
+}
+
+export interface StabilisingIntervention {
+    intervention: string;
+    keywords: string[]; // formulary ids of the items that deliver it, plus any lower-case phrases from order descriptions
+    deadlineMinute: number;
+}
+
+export interface PatientTrajectory {
+    stages: DeteriorationStage[];
+    interventions: StabilisingIntervention[];
+}
+
+// A point a thorough history or examination should cover. The checklist is hidden from the
+// student and the persona; it is only used to score the interview at the end of the case.
+export interface ChecklistItem {
+    item: string;
+    category: 'History' | 'Examination';
+    keywords: string[]; // lower-case phrases that show the student asked about or examined it
+    rationale: string; // why the item matters in this case
+}
+
 export interface DiagnosticCase {
+    id?: string; // Stable identifier, assigned at generation and used as the primary key in the case library.
     title: string;
     patientProfile: {
         name: string;
@@ -56,35 +123,65 @@ export interface DiagnosticCase {
     historyOfPresentIllness: string;
     physicalExam: string;
     labResults: string;
+    // Structured findings. Optional because cases saved before they existed only have the text fields above.
+    vitals?: Vitals;
+    labPanels?: LabPanel[];
+    trajectory?: PatientTrajectory;
+    historyChecklist?: ChecklistItem[];
     potentialDiagnoses: Diagnosis[];
     mcqs: MCQ[];
     correctDiagnosisExplanation: string;
     soapNote?: string;
 }
 
+// A standalone question-bank MCQ, tagged the way cases are so it can be filtered alongside them.
+export interface GeneratedQuestion extends MCQ {
+    specialty: Specialty;
+    competency: string;
+    cognitiveSkill: CognitiveSkill;
+}
+
+export interface QuestionGenerationFilters {
+    trainingPhase: TrainingPhase;
+    specialty?: Specialty;
+    competency?: string;
+    cognitiveSkill?: CognitiveSkill;
+    count: number;
+}
+
 export interface GenerationFilters {
     trainingPhase: TrainingPhase;
     specialties?: Specialty[];
     epas?: EPA[];
+    competencies?: string[]; // catalog codes
     challengeMode?: boolean;
 }
 
-// --- GEMINI API SERVICE ---
+// --- LLM SERVICE ---
+// All model access goes through the provider selected in ./llm (Gemini, OpenAI-compatible or mock).
 
-function getAi(): GoogleGenAI {
-    // As per the platform's execution environment, we can expect process.env.API_KEY to be available.
-    const apiKey = process.env.API_KEY;
+const vitalsSchema = {
+    type: Type.OBJECT,
+    properties: {
+        heartRate: { type: Type.INTEGER, description: "Heart rate in beats/min." },
+        systolicBP: { type: Type.INTEGER, description: "Systolic blood pressure in mmHg." },
+        diastolicBP: { type: Type.INTEGER, description: "Diastolic blood pressure in mmHg." },
+        respiratoryRate: { type: Type.INTEGER, description: "Respiratory rate in breaths/min." },
+        spo2: { type: Type.INTEGER, description: "Oxygen saturation in %." },
+        temperature: { type: Type.NUMBER, description: "Body temperature in °C." },
+        gcs: { type: Type.INTEGER, description: "Glasgow Coma Scale, 3-15." },
+    },
+    required: ["heartRate", "systolicBP", "diastolicBP", "respiratoryRate", "spo2", "temperature", "gcs"],
+};
 
-    if (!apiKey) {
-        // Throw a specific error if the API key is not configured.
-        throw new Error("Gemini API key not found. Please ensure the API_KEY environment variable is set.");
-    }
-    
-    // Create a new instance for each call to ensure statelessness.
-    return new GoogleGenAI({ apiKey });
-}
+const mcqProperties = {
+    question: { type: Type.STRING },
+    options: { type: Type.ARRAY, items: { type: Type.STRING } },
+    correctAnswerIndex: { type: Type.INTEGER },
+    explanation: { type: Type.STRING },
+};
 
-const caseSchema = {
+export const caseSchema = {
     type: Type.OBJECT,
     properties: {
         title: { type: Type.STRING, description: "A short, descriptive title for the case (e.g., 'An Elderly Man with Cough and Fever')." },
@@ -100,12 +197,12 @@ const caseSchema = {
         tags: {
             type: Type.OBJECT,
             properties: {
-                trainingPhase: { type: Type.STRING, enum: ['Pre-clinical', 'Para-clinical', 'Clinical', 'Internship', 'NExT/FMGE Prep'] },
+                trainingPhase: { type: Type.STRING, enum: TRAINING_PHASES },
                 specialty: { type: Type.STRING },
-                cognitiveSkill: { type: Type.STRING, enum: ['Recall', 'Application', 'Analysis'] },
-                epas: { type: Type.ARRAY, items: { type: Type.STRING, enum: ['History-taking', 'Physical Exam', 'Diagnosis', 'Management'] } },
+                cognitiveSkill: { type: Type.STRING, enum: COGNITIVE_SKILLS },
+                epas: { type: Type.ARRAY, items: { type: Type.STRING, enum: EPAS } },
                 curriculum: {
-                    type: Type.OBJECT, properties: { framework: { type: Type.STRING, enum: ['CBME/NExT'] }, competency: { type: Type.STRING } },
+                    type: Type.OBJECT, properties: { framework: { type: Type.STRING, enum: ['CBME/NExT'] }, competency: { type: Type.STRING, enum: COMPETENCY_CODES } },
                     required: ["framework", "competency"]
                 }
             },
@@ -115,24 +212,103 @@ const caseSchema = {
         historyOfPresentIllness: { type: Type.STRING },
         physicalExam: { type: Type.STRING },
         labResults: { type: Type.STRING },
+        vitals: vitalsSchema,
+        labPanels: {
+            type: Type.ARRAY, items: {
+                type: Type.OBJECT, properties: {
+                    name: { type: Type.STRING, description: "Panel name, e.g. 'Complete Blood Count'." },
+                    results: {
+                        type: Type.ARRAY, items: {
+                            type: Type.OBJECT, properties: {
+                                test: { type: Type.STRING }, value: { type: Type.NUMBER }, unit: { type: Type.STRING },
+                                referenceLow: { type: Type.NUMBER }, referenceHigh: { type: Type.NUMBER },
+                            },
+                            required: ["test", "value", "unit", "referenceLow", "referenceHigh"],
+                        },
+                    },
+                },
+                required: ["name", "results"],
+            },
+        },
+        trajectory: {
+            type: Type.OBJECT,
+            properties: {
+                stages: {
+                    type: Type.ARRAY, items: {
+                        type: Type.OBJECT, properties: {
+                            atMinute: { type: Type.INTEGER, description: "Simulated minutes after presentation at which this stage is reached." },
+                            vitals: vitalsSchema,
+                            symptoms: { type: Type.STRING, description: "How the patient looks and feels at this stage." },
+                        },
+                        required: ["atMinute", "vitals", "symptoms"],
+                    },
+                },
+                interventions: {
+                    type: Type.ARRAY, items: {
+                        type: Type.OBJECT, properties: {
+                            intervention: { type: Type.STRING, description: "e.g. 'Nebulised salbutamol'." },
+                            keywords: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Formulary ids of the items that deliver it, optionally followed by other lower-case words from the order." },
+                            deadlineMinute: { type: Type.INTEGER, description: "Latest simulated minute at which it still counts as timely." },
+                        },
+                        required: ["intervention", "keywords", "deadlineMinute"],
+                    },
+                },
+            },
+            required: ["stages", "interventions"],
+        },
+        historyChecklist: {
+            type: Type.ARRAY, items: {
+                type: Type.OBJECT, properties: {
+                    item: { type: Type.STRING, description: "e.g. 'Radiation of the pain'." },
+                    category: { type: Type.STRING, enum: ["History", "Examination"] },
+                    keywords: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Lower-case words a student would use when asking about or examining it." },
+                    rationale: { type: Type.STRING, description: "Why this item matters for this case." },
+                },
+                required: ["item", "category", "keywords", "rationale"],
+            },
+        },
         potentialDiagnoses: {
             type: Type.ARRAY, items: { type: Type.OBJECT, properties: { diagnosis: { type: Type.STRING }, isCorrect: { type: Type.BOOLEAN } }, required: ["diagnosis", "isCorrect"] },
         },
         mcqs: {
             type: Type.ARRAY, items: {
-                type: Type.OBJECT, properties: { question: { type: Type.STRING }, options: { type: Type.ARRAY, items: { type: Type.STRING } }, correctAnswerIndex: { type: Type.INTEGER }, explanation: { type: Type.STRING } },
+                type: Type.OBJECT, properties: mcqProperties,
                 required: ["question", "options", "correctAnswerIndex", "explanation"]
             },
         },
         correctDiagnosisExplanation: { type: Type.STRING },
     },
-    required: ["title", "patientProfile", "tags", "chiefComplaint", "historyOfPresentIllness", "physicalExam", "labResults", "potentialDiagnoses", "mcqs", "correctDiagnosisExplanation"],
+    required: ["title", "patientProfile", "tags", "chiefComplaint", "historyOfPresentIllness", "physicalExam", "labResults", "vitals", "labPanels", "historyChecklist", "potentialDiagnoses", "mcqs", "correctDiagnosisExplanation"],
 };
 
+export const questionSetSchema = {
+    type: Type.OBJECT,
+    properties: {
+        questions: {
+            type: Type.ARRAY, items: {
+                type: Type.OBJECT,
+                properties: {
+                    ...mcqProperties,
+                    specialty: { type: Type.STRING },
+                    competency: { type: Type.STRING, enum: COMPETENCY_CODES },
+                    cognitiveSkill: { type: Type.STRING, enum: COGNITIVE_SKILLS },
+                },
+                required: ["question", "options", "correctAnswerIndex", "explanation", "specialty", "competency", "cognitiveSkill"]
+            },
+        },
+    },
+    required: ["questions"],
+};
+
+const MAX_CASE_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
 export async function generateCase(filters: GenerationFilters): Promise<DiagnosticCase> {
-    const aiInstance = getAi();
+    const provider = getLlmProvider();
     
-    const { trainingPhase, specialties, epas, challengeMode } = filters;
+    const { trainingPhase, specialties, epas, competencies, challengeMode } = filters;
     
     let prompt = `
         You are an expert medical educator specializing in the Indian MBBS curriculum. Your task is to create a clinical case simulation that is strictly aligned with the CBME framework and prepares students for the NExT/FMGE exams.
@@ -147,113 +323,247 @@ export async function generateCase(filters: GenerationFilters): Promise<Diagnost
     if (epas && epas.length > 0) {
         prompt += `\n- The case MUST primarily test these Entrustable Professional Activities (EPAs): ${epas.join(', ')}.`;
     }
+    if (competencies && competencies.length > 0) {
+        prompt += `\n- The case MUST address one of these NMC competencies: ${competencies.map(c => `${c} (${getCompetency(c)?.description ?? 'unknown'})`).join('; ')}.`;
+    }
     if (challengeMode) {
         prompt += `\n- **Challenge Mode Active:** Create a complex, interdisciplinary case that may span multiple systems or present with atypical symptoms.`;
     }
+    // The validator requires a trajectory for any Emergency Medicine case, whatever was requested,
+    // so the rule is always stated.
+    const requireTrajectory = !!challengeMode;
+    prompt += `
+        **Deterioration Instructions:**
+        - ${requireTrajectory ? "You MUST" : "If the case's specialty is Emergency Medicine, you MUST"} include a 'trajectory' describing how the patient deteriorates without treatment.${requireTrajectory ? '' : " Otherwise, leave 'trajectory' out."}
+        - 'stages' lists 2-3 progressively worse states in increasing 'atMinute' order (within the first 45 simulated minutes), each with updated vitals and a short description of the symptoms.
+        - 'interventions' lists the 1-3 time-critical treatments that would stabilise the patient, each with a realistic 'deadlineMinute'. Its 'keywords' MUST include the formulary id of every item that delivers it, chosen from: ${FORMULARY_ITEM_IDS.join(', ')}. Interventions that can't be ordered from this formulary must not be listed.
+        `;
 
      prompt += `
         **Curriculum Alignment Instructions:**
-        1.  After creating the case details, you MUST map it to a specific competency from the official NMC competency list for the Indian MBBS curriculum.
+        1.  After creating the case details, you MUST map it to the single best-fitting competency from the NMC competency list below, and set 'competency' to its code alone (e.g. "IM2.6"). The competency MUST be listed for the case's specialty.
         2.  The 'framework' tag must be 'CBME/NExT'.
         3.  The 'cognitiveSkill' tag should be assigned based on the primary thinking process required for the case (Recall, Application, or Analysis).
 
+        **NMC Competencies (${COMPETENCY_CATALOG_VERSION}):**
+        ${competenciesForSpecialties(specialties).map(c => `- ${c.code} [${c.specialties.join(', ')}]: ${c.description}`).join('\n        ')}
+
+        **Findings Instructions:**
+        - 'vitals' MUST hold the patient's vital signs at presentation, consistent with the physical exam text.
+        - 'labPanels' MUST group the quantitative lab results into panels (e.g. Complete Blood Count, Renal Function). Give each result a numeric value, its unit and the age-appropriate reference range.
+        - Keep 'physicalExam' and 'labResults' as readable text summaries; put qualitative findings (imaging, ECG, cultures) in 'labResults'.
+
+        **Checklist Instructions:**
+        - 'historyChecklist' MUST list the 6-10 key history and examination items a competent student should cover with this patient, including the red flags and risk factors that discriminate between the potential diagnoses.
+        - Give each item several short 'keywords' (word stems are fine) that would appear in the student's question, and a one-sentence 'rationale' explaining why it matters here.
+
         **Final Instructions:**
         - Ensure exactly one diagnosis in the potentialDiagnoses array is marked as correct.
         - Generate 3 distinct and relevant multiple-choice questions (MCQs).
         - Provide all required fields in the specified JSON format.
     `;
 
-    const response = await aiInstance.models.generateContent({
-        model: "gemini-2.5-flash",
-        contents: prompt,
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: caseSchema,
+    let responseText: string | null = null;
+    let errors: CaseFieldError[] = [];
+    let requestError: unknown = null;
+
+    for (let attempt = 1; attempt <= MAX_CASE_ATTEMPTS; attempt++) {
+        if (attempt > 1) await delay(RETRY_BASE_DELAY_MS * 2 ** (attempt - 2));
+        try {
+            // Repair in place when the model only got some fields wrong; start over when the response is unusable.
+            responseText = responseText !== null && errors.length > 0 && errors.every(e => e.fixable)
+                ? await provider.generateStructured({ task: 'repairCase', prompt: buildRepairPrompt(responseText, errors), schema: caseSchema })
+                : await provider.generateStructured({ task: 'generateCase', prompt, schema: caseSchema });
+        } catch (error) {
+            // A failed request (timeout, rate limit, dropped connection) uses up an attempt like an invalid case does.
+            requestError = error;
+            console.warn(`Case generation request failed (attempt ${attempt}/${MAX_CASE_ATTEMPTS}):`, error);
+            continue;
         }
-    });
 
-    try {
-        const jsonText = response.text.trim();
-        const parsedCase = JSON.parse(jsonText) as DiagnosticCase;
-        if (!parsedCase.patientProfile || !parsedCase.patientProfile.ethnicity || parsedCase.potentialDiagnoses.filter(d => d.isCorrect).length !== 1 || !parsedCase.mcqs || parsedCase.mcqs.length < 1 || !parsedCase.tags || !parsedCase.tags.curriculum) {
-             throw new Error("The patient case data is malformed or invalid.");
+        const { caseData, errors: validationErrors } = parseAndValidateCase(responseText, { requireTrajectory, competencies });
+        if (caseData) {
+            const curriculum = { ...caseData.tags.curriculum, catalogVersion: COMPETENCY_CATALOG_VERSION };
+            return { ...caseData, id: crypto.randomUUID(), tags: { ...caseData.tags, curriculum } };
         }
-        return parsedCase;
-    } catch (e) {
-        console.error("Failed to parse or validate generated case:", response.text, e);
-        throw new Error(`The AI returned an invalid data structure for the patient. Please try again.`);
+        errors = validationErrors;
+        console.warn(`Generated case failed validation (attempt ${attempt}/${MAX_CASE_ATTEMPTS}): ${formatValidationErrors(errors)}`, responseText);
     }
-}
-
-export async function pickSpecialtyForCase(trainingPhase: TrainingPhase): Promise<Specialty> {
-    const aiInstance = getAi();
-    const specialtiesList: Specialty[] = ['Internal Medicine', 'Pediatrics', 'Surgery', 'Obstetrics & Gynecology', 'Psychiatry', 'Cardiology', 'Neurology', 'Dermatology', 'Emergency Medicine'];
 
-    const prompt = `
-        A medical student in the "${trainingPhase}" training phase needs a new case.
-        Pick one single medical specialty from the following list that is appropriate for their level:
-        ${specialtiesList.join(', ')}
+    // Report what went wrong with the model's answers if it ever gave one; otherwise the last request error.
+    if (errors.length === 0) throw requestError;
+    throw new CaseValidationError(errors, MAX_CASE_ATTEMPTS);
+}
 
-        Respond with ONLY the name of the specialty. For example: "Cardiology"
-    `;
+function buildRepairPrompt(invalidCaseJson: string, errors: CaseFieldError[]): string {
+    return `
+        You previously generated the following clinical case JSON, but it failed validation.
 
-    try {
-        const response = await aiInstance.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: prompt
-        });
+        **Case JSON:**
+        ${invalidCaseJson}
 
-        const specialty = response.text.trim();
+        **Problems found:**
+        ${errors.map(e => `- ${e.field}: ${e.message}`).join('\n        ')}
 
-        // Basic validation to ensure the model returned a valid specialty from our list
-        if (specialtiesList.includes(specialty as Specialty)) {
-            return specialty as Specialty;
-        }
-    } catch (error) {
-        console.error("Failed to pick a specialty, will fallback.", error);
-    }
-    
-    // Fallback if the model returns something weird or fails
-    console.warn("AI specialty picking failed or returned invalid response. Falling back to 'Internal Medicine'.");
-    return 'Internal Medicine'; 
+        **Instructions:**
+        - Fix ONLY the fields listed above. Keep every other field exactly as it is.
+        - The 'specialty' tag MUST be one of: ${SPECIALTIES.join(', ')}.
+        - The 'competency' tag MUST be a code from the NMC competency catalog that is listed for the case's specialty.
+        - Exactly one diagnosis in potentialDiagnoses must be marked as correct, and diagnoses must not repeat.
+        - Every MCQ must have distinct options and a correctAnswerIndex that points to one of them (0-based).
+        - Return the complete corrected case in the specified JSON format.
+    `;
 }
 
-export function createChatForCase(caseData: DiagnosticCase): Chat {
-    const aiInstance = getAi();
-    
-    // Determine if we're talking to the patient or a guardian
-    const patientPersona = caseData.patientProfile.age < 7
-        ? `${caseData.patientProfile.name}'s mother`
-        : caseData.patientProfile.name;
+// The instruction for whoever answers the history: the patient, or a young child's mother (see speakerFor).
+function buildRespondentInstruction(caseData: DiagnosticCase): string {
+    const speaker = speakerFor(caseData.patientProfile);
+    const patientPersona = speaker.name;
 
-    const systemInstruction = `
-You are role-playing as a patient (or their guardian) in a medical simulation. Your name is ${patientPersona}. You are a ${caseData.patientProfile.age}-year-old ${caseData.patientProfile.gender}.
+    return `
+You are role-playing as a patient (or their guardian) in a medical simulation. Your name is ${patientPersona}. You are a ${speaker.age}-year-old ${speaker.gender}.
 
 Your personality and knowledge are based ONLY on the following case information. Do not reveal this information unless the user (the 'doctor') asks a relevant question. Do not act like an AI. Your answers should be natural and conversational, reflecting how a real person would speak.
 
 - **Chief Complaint:** "${caseData.chiefComplaint}"
 - **History of Present Illness:** ${caseData.historyOfPresentIllness}
 - **Physical Exam Findings (only reveal if the doctor asks to perform a specific exam):** ${caseData.physicalExam}
-- **Lab Results (only reveal if the doctor asks for specific tests):** ${caseData.labResults}
+
+**Simulation notes:** A doctor's message may begin with bracketed notes that are not part of what the doctor says. Never mention or quote them.
+- [Treatments given] lists the treatments you have received so far. You know you were given them, and you may notice their usual effects (for example, pain easing after a painkiller).${caseData.trajectory ? `
+- [Patient status] describes how you are now; your condition changes over time. Stay consistent with the latest note: become more breathless, drowsy or distressed as it worsens, and calmer once it says you are responding to treatment.` : ''}
 
 **Rules of Engagement:**
 - Respond from the perspective of ${patientPersona}.
 - Answer only what is asked. Do not volunteer information from the case history unless prompted.
 - If asked a question that cannot be answered from the provided information, respond naturally, like "I don't know," or "The doctor didn't tell me about that."
-- If the user asks for a physical exam or lab test, provide ONLY the relevant finding from the case data. For example, if asked "How does your chest sound?", you can say "The doctor listened with a stethoscope and said... [provide auscultation findings]".
+- If the user asks for a physical exam, provide ONLY the relevant finding from the case data. For example, if asked "How does your chest sound?", you can say "The doctor listened with a stethoscope and said... [provide auscultation findings]".
+- You do not know any test results (blood tests, ECG, imaging). If asked, say that no results have been shared with you and the doctor will need to order the tests.
 - Keep your answers concise and human-like.
 - **Do not, under any circumstances, provide a diagnosis or medical advice.** Your role is to be the patient.
 `;
+}
+
+const childNoun = (gender: DiagnosticCase['patientProfile']['gender']) =>
+    gender === 'Male' ? 'boy' : gender === 'Female' ? 'girl' : 'child';
+
+// A young child whose mother is answering the history.
+function buildChildInstruction(caseData: DiagnosticCase, child: Participant): string {
+    return `
+You are role-playing as ${child.name}, a ${child.age}-year-old ${childNoun(child.gender)}, in a medical simulation. Your mother is with you and answers most of the doctor's questions.
+
+You only know how you feel. Your experience is based ONLY on the following case information:
 
-    const chat = aiInstance.chats.create({
-        model: 'gemini-2.5-flash',
-        config: { systemInstruction },
-    });
-    return chat;
+- **Chief Complaint:** "${caseData.chiefComplaint}"
+- **History of Present Illness:** ${caseData.historyOfPresentIllness}
+
+**Simulation notes:** A doctor's message may begin with bracketed notes that are not part of what the doctor says. Never mention or quote them.
+- [Treatments given] lists the treatments you have received so far. You may notice their usual effects (for example, hurting less after medicine).
+- [Patient status] describes how you are now. Stay consistent with the latest note.
+
+**Rules of Engagement:**
+- Speak like a ${child.age}-year-old: a few simple words at a time, no medical terms. You may be shy, tired or upset.
+- You can say where it hurts and how you feel. You don't know dates, medicines or anything about your past illnesses; for those, say something like "Ask Mummy."
+- Never give a diagnosis or medical advice. Do not act like an AI.
+`;
+}
+
+// A parent sitting in while their older child answers for themselves.
+function buildParentInstruction(caseData: DiagnosticCase, parent: Participant): string {
+    const { name, age, gender } = caseData.patientProfile;
+    return `
+You are role-playing as ${parent.name} in a medical simulation. Your ${age}-year-old ${childNoun(gender)}, ${name}, is the patient and answers most of the doctor's questions; you add what a parent would know, such as how the illness has looked at home, past illnesses, vaccinations and medicines.
+
+Your knowledge is based ONLY on the following case information. Do not reveal it unless the doctor asks a relevant question.
+
+- **Chief Complaint:** "${caseData.chiefComplaint}"
+- **History of Present Illness:** ${caseData.historyOfPresentIllness}
+
+**Simulation notes:** A doctor's message may begin with bracketed notes that are not part of what the doctor says. Never mention or quote them.
+- [Treatments given] lists the treatments your child has received so far.
+- [Patient status] describes how your child is now. React as a worried parent would if they are getting worse.
+
+**Rules of Engagement:**
+- Answer only what is asked, naturally and concisely, as a parent would.
+- If something can't be answered from the case information, say you don't know.
+- You do not know any test results. Never give a diagnosis or medical advice. Do not act like an AI.
+`;
+}
+
+function buildNurseInstruction(caseData: DiagnosticCase, nurse: Participant): string {
+    const { name, age, gender } = caseData.patientProfile;
+    return `
+You are role-playing as ${nurse.name}, the ward nurse looking after ${name}, a ${age}-year-old ${gender}, in a medical simulation. The user is the doctor on the ward.
+
+You know only the following:
+
+- **Reason for admission:** "${caseData.chiefComplaint}"
+- **Observations on arrival:** ${caseData.vitals ? describeVitals(caseData.vitals) : 'Not recorded.'}
+
+**Simulation notes:** A doctor's message may begin with bracketed notes that are not part of what the doctor says. Never mention or quote them.
+- [Treatments given] lists what the patient has been given so far.
+- [Patient status] gives the patient's latest observations. When it is present, report those instead of the observations on arrival.
+
+**Rules of Engagement:**
+- Report observations (heart rate, blood pressure, respiratory rate, oxygen saturation, temperature, GCS) accurately when asked, briefly, as in a nursing handover.
+- You can repeat a set of observations or carry out a routine nursing task when asked; confirm it in a sentence.
+- You do not know test results or the diagnosis. If asked, say the results aren't back and the doctor will need to order the tests.
+- Do not suggest a diagnosis or a management plan. Keep answers short and professional. Do not act like an AI.
+`;
+}
+
+function buildAttendingInstruction(caseData: DiagnosticCase, attending: Participant): string {
+    const { name, age, gender } = caseData.patientProfile;
+    return `
+You are role-playing as ${attending.name}, the attending physician supervising a medical student in a medical simulation. The student has been assessing ${name}, a ${age}-year-old ${gender}, and may present the case to you or ask for your advice.
+
+You know the full case:
+
+- **Chief Complaint:** "${caseData.chiefComplaint}"
+- **History of Present Illness:** ${caseData.historyOfPresentIllness}
+- **Physical Exam Findings:** ${caseData.physicalExam}
+- **Lab Results:** ${caseData.labResults}
+- **Final Diagnosis:** ${caseData.potentialDiagnoses.find(d => d.isCorrect)?.diagnosis}
+
+**Simulation notes:** The student's message may begin with bracketed notes that are not part of what they say. Never quote them.
+- [Treatments given] lists the treatments the student has ordered so far.
+- [Patient status] describes how the patient is now.
+
+**Rules of Engagement:**
+- Respond as a supportive but demanding senior clinician on a ward round.
+- When the student presents, acknowledge what was good, then ask one focused follow-up question at a time: a missing history point, an examination finding, the next investigation or the management priority.
+- Never state or confirm the final diagnosis. Guide the student towards it by questioning their reasoning.
+- If the student asks what to do, turn it back into a question about their own plan. If a treatment given is unsafe, say so at once.
+- Keep answers concise. Do not act like an AI.
+`;
+}
+
+function buildParticipantInstruction(caseData: DiagnosticCase, participant: Participant): string {
+    if (participant.id === primaryParticipant(caseData)) return buildRespondentInstruction(caseData);
+    switch (participant.id) {
+        case 'patient': return buildChildInstruction(caseData, participant);
+        case 'guardian': return buildParentInstruction(caseData, participant);
+        case 'nurse': return buildNurseInstruction(caseData, participant);
+        case 'attending': return buildAttendingInstruction(caseData, participant);
+    }
+}
+
+export function createChatForCase(caseData: DiagnosticCase): Chat {
+    return getLlmProvider().createChat({ systemInstruction: buildRespondentInstruction(caseData) });
+}
+
+export type EncounterChats = Partial<Record<ParticipantId, Chat>>;
+
+// One chat session per participant, each with its own instruction and history.
+export function createEncounterChats(caseData: DiagnosticCase): EncounterChats {
+    const provider = getLlmProvider();
+    return Object.fromEntries(encounterParticipants(caseData).map(participant =>
+        [participant.id, provider.createChat({ systemInstruction: buildParticipantInstruction(caseData, participant) })]
+    ));
 }
 
 export async function generateSoapNoteForCase(caseData: DiagnosticCase): Promise<string> {
-    const aiInstance = getAi();
+    const provider = getLlmProvider();
     const prompt = `
         Based on the following clinical case, please generate a comprehensive SOAP note.
         A SOAP note consists of four parts: Subjective, Objective, Assessment, and Plan.
@@ -276,17 +586,13 @@ export async function generateSoapNoteForCase(caseData: DiagnosticCase): Promise
         Please format the output clearly with headings for S, O, A, and P.
     `;
 
-    const response = await aiInstance.models.generateContent({
-        model: "gemini-2.5-flash",
-        contents: prompt
-    });
-
-    return response.text;
+    return provider.generateText({ task: 'generateSoapNote', prompt });
 }
 
 export async function generateHint(caseData: DiagnosticCase, chatHistory: ChatMessage[]): Promise<string> {
-    const aiInstance = getAi();
-    const history = chatHistory.map(m => `${m.sender}: ${m.text}`).join('\n');
+    const provider = getLlmProvider();
+    // Questions name who they were put to, since the student may be talking to several people.
+    const history = chatHistory.map(m => `${m.addressee ? `${m.sender} (to ${m.addressee})` : m.sender}: ${m.text}`).join('\n');
 
     const prompt = `
         You are a medical education assistant. A student is working through a clinical case and has asked for a hint.
@@ -297,7 +603,7 @@ export async function generateHint(caseData: DiagnosticCase, chatHistory: ChatMe
         - **Chief Complaint:** ${caseData.chiefComplaint}
         - **Correct Diagnosis:** ${caseData.potentialDiagnoses.find(d => d.isCorrect)?.diagnosis}
 
-        **Student's Conversation with Patient so far:**
+        **Student's Conversation so far:**
         ${history}
 
         **Instructions:**
@@ -309,113 +615,78 @@ export async function generateHint(caseData: DiagnosticCase, chatHistory: ChatMe
         Respond with ONLY the hint question.
     `;
 
-    const response = await aiInstance.models.generateContent({
-        model: "gemini-2.5-flash",
-        contents: prompt
-    });
+    const responseText = await provider.generateText({ task: 'generateHint', prompt });
 
-    return response.text.trim();
+    return responseText.trim();
 }
 
 
-// --- VIDEO SELECTION LOGIC ---
-interface AvatarData {
-    key: string;
-    description: string;
-    gender: 'Male' | 'Female';
-    ageRange: [number, number];
-    videos: {
-        idle: string; // video ID
-        talking: string; // video ID
-    };
+export async function generateQuestions(filters: QuestionGenerationFilters): Promise<GeneratedQuestion[]> {
+    const provider = getLlmProvider();
+    const { trainingPhase, specialty, competency, cognitiveSkill, count } = filters;
+    const competencies = competency ? [getCompetency(competency)].filter(Boolean) : competenciesForSpecialties(specialty ? [specialty] : undefined);
+
+    const prompt = `
+        You are an expert medical educator writing NExT/FMGE-style single-best-answer questions for the Indian MBBS curriculum.
+        Write ${count} distinct clinical vignette MCQs for a student in the **${trainingPhase}** phase.
+
+        **Constraints:**
+        - Specialty: ${specialty ?? `any of ${SPECIALTIES.join(', ')}`}. Set 'specialty' to the question's specialty; it MUST be one of: ${SPECIALTIES.join(', ')}.
+        - Cognitive skill: ${cognitiveSkill ?? 'a mix of Recall, Application and Analysis'}. Set 'cognitiveSkill' to the skill each question mainly tests.
+        - Map each question to one of these NMC competencies and set 'competency' to its code alone:
+        ${competencies.map(c => `- ${c.code} [${c.specialties.join(', ')}]: ${c.description}`).join('\n        ')}
+
+        **Instructions:**
+        - Each question has 4 or 5 options with exactly one correct answer; 'correctAnswerIndex' is 0-based.
+        - The 'explanation' says why the answer is right and why the strongest distractor is wrong.
+        - Provide all required fields in the specified JSON format.
+    `;
+
+    const responseText = await provider.generateStructured({ task: 'generateQuestions', prompt, schema: questionSetSchema });
+    const { questions, errors } = parseAndValidateQuestionSet(responseText);
+    if (errors.length > 0) console.warn(`Dropped invalid generated questions: ${formatValidationErrors(errors)}`, responseText);
+    if (questions.length === 0) throw new Error('The AI did not return any usable questions.');
+    return questions;
 }
 
+
+// --- VIDEO SELECTION LOGIC ---
 type AvatarResult = {
     idle: string | null;
     talking: string | null;
     gender: 'Male' | 'Female' | null;
 };
 
-// Data is now structured in pairs, ensuring idle/talking videos are from the same avatar.
-const AVATAR_DATA: AvatarData[] = [
-    { key: 'old_woman', description: 'An elderly woman (60-99 years)', gender: 'Female', ageRange: [60, 99], videos: { talking: '68948ea7aa43dddb5c4b08d8', idle: '68948ea5aa43dddb5c4b08c4' }},
-    { key: 'old_man', description: 'An elderly man (60-99 years)', gender: 'Male', ageRange: [60, 99], videos: { talking: '68948ea4aa43dddb5c4b08a2', idle: '68948e058d992eda26aeb7fe' }},
-    { key: 'middle_aged_man', description: 'A middle-aged man (45-60 years)', gender: 'Male', ageRange: [45, 60], videos: { talking: '68948e5bbcf5dc9e17266b7e', idle: '68948e058d992eda26aeb7fe' }},
-    { key: 'man_30s_40s', description: 'A man in his 30s-40s', gender: 'Male', ageRange: [30, 45], videos: { talking: '68948dfabcf5dc9e172664cf', idle: '68948da7aa43dddb5c4af70c' }},
-    { key: 'man_20s', description: 'A man in his 20s', gender: 'Male', ageRange: [23, 30], videos: { talking: '68948df28d992eda26aeb624', idle: '68948da5aa43dddb5c4af6e1' }},
-    { key: 'lady_30s_40s', description: 'A woman in her 30s-40s', gender: 'Female', ageRange: [30, 45], videos: { talking: '68948d9eaa43dddb5c4af667', idle: '68948d33bcf5dc9e172655ec' }},
-    { key: 'lady_20s', description: 'A woman in her 20s', gender: 'Female', ageRange: [23, 30], videos: { talking: '68948d98aa43dddb5c4af5ff', idle: '68948d0aaa43dddb5c4aeb10' }},
-    // The "girl" avatar was removed to prevent sharing a talking animation with this one.
-    { key: 'young_female', description: 'A young female (7-22 years)', gender: 'Female', ageRange: [7, 22], videos: { talking: '68948d09bcf5dc9e172652f0', idle: '68948d098d992eda26aea4c2' }},
-    { key: 'adolescent_boy', description: 'An adolescent boy (15-22 years)', gender: 'Male', ageRange: [15, 22], videos: { talking: '68948d098d992eda26aea4b2', idle: '68948d098d992eda26aea4c2' }},
-    { key: 'young_boy', description: 'A young boy (7-15 years)', gender: 'Male', ageRange: [7, 15], videos: { talking: '68948d098d992eda26aea4c4', idle: '68948d0aaa43dddb5c4aeae7' }},
-];
-
-// A deterministic fallback in case the LLM fails
-function findBestFallback(patientProfile: DiagnosticCase['patientProfile']): AvatarResult {
-    const { age, gender } = patientProfile;
-    
-    const candidates = AVATAR_DATA.filter(avatar => 
-        (avatar.gender === gender || gender === 'Other') &&
-        age >= avatar.ageRange[0] &&
-        age <= avatar.ageRange[1]
-    );
-
-    // Prioritize exact gender match
-    let bestMatch = candidates.find(c => c.gender === gender);
-    // If no exact match (e.g., for 'Other'), take the first candidate in the age range.
-    if (!bestMatch) {
-        bestMatch = candidates[0];
-    }
-    
-    // If still no match, find the one with the smallest age difference
-    if (!bestMatch) {
-        let minDiff = Infinity;
-        AVATAR_DATA.forEach(avatar => {
-            if (avatar.gender === gender || gender === 'Other') {
-                const diff = Math.min(Math.abs(age - avatar.ageRange[0]), Math.abs(age - avatar.ageRange[1]));
-                if (diff < minDiff) {
-                    minDiff = diff;
-                    bestMatch = avatar;
-                }
-            }
-        });
-    }
-
-    if (bestMatch) {
-        return {
-            idle: bestMatch.videos.idle,
-            talking: bestMatch.videos.talking,
-            gender: bestMatch.gender
-        };
-    }
-    
-    // Absolute fallback
-    return { idle: null, talking: null, gender: null };
-}
+const toAvatarResult = (avatar: Avatar | undefined): AvatarResult => avatar
+    ? { idle: avatar.videos.idle, talking: avatar.videos.talking, gender: avatar.gender }
+    : { idle: null, talking: null, gender: null };
 
+// Matching is deterministic (see services/avatars). When several avatars fit equally well, the
+// first in the catalog is used unless AVATAR_TIE_BREAK=llm asks the model to choose between them.
 export async function pickBestVideo(
     patientProfile: DiagnosticCase['patientProfile'],
 ): Promise<AvatarResult> {
-    const aiInstance = getAi();
-    
-    // Create a list of descriptions for the prompt.
-    const avatarChoices = AVATAR_DATA.map(avatar => `- key: ${avatar.key}, description: ${avatar.description}`).join('\n');
-    
+    const speaker = speakerFor(patientProfile);
+    const candidates = bestAvatarMatches(speaker);
+    if (candidates.length <= 1 || process.env.AVATAR_TIE_BREAK !== 'llm') {
+        return toAvatarResult(candidates[0]);
+    }
+
+    const avatarChoices = candidates.map(avatar => `- key: ${avatar.key}, description: ${avatar.description}`).join('\n');
     const prompt = `
-        You are a video selection expert. Based on the patient's profile, select the most appropriate avatar from the list below.
-        The patient is a ${patientProfile.age}-year-old ${patientProfile.gender}.
+        You are a video selection expert. Select the avatar that best suits the person below.
+        The person is a ${speaker.age}-year-old ${speaker.gender} of ${speaker.ethnicity} ethnicity${speaker.role === 'guardian' ? `, speaking for their ${patientProfile.age}-year-old child` : ''}.
 
         Available avatars:
         ${avatarChoices}
 
-        Select the single best avatar 'key' that matches the patient's age and gender. Your response must be a JSON object with a single key: "selected_key". The value should be the key of the selected avatar.
+        Your response must be a JSON object with a single key: "selected_key". The value should be the key of the selected avatar.
         For example:
         {
-          "selected_key": "man_30s_40s"
+          "selected_key": "${candidates[0].key}"
         }
     `;
-    
+
     const responseSchema = {
         type: Type.OBJECT,
         properties: {
@@ -425,32 +696,15 @@ export async function pickBestVideo(
     };
 
     try {
-        const response = await aiInstance.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: prompt,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema,
-            }
-        });
-
-        const jsonText = response.text.trim();
-        const parsed = JSON.parse(jsonText) as { selected_key: string };
-        
-        const selectedAvatar = AVATAR_DATA.find(avatar => avatar.key === parsed.selected_key);
-        
-        if (selectedAvatar) {
-            return {
-                idle: selectedAvatar.videos.idle,
-                talking: selectedAvatar.videos.talking,
-                gender: selectedAvatar.gender
-            };
-        } else {
-             console.warn(`AI selected an invalid avatar key: ${parsed.selected_key}. Falling back.`);
-             return findBestFallback(patientProfile);
+        const responseText = await getLlmProvider().generateStructured({ task: 'pickAvatar', prompt, schema: responseSchema });
+        const parsed = JSON.parse(responseText.trim()) as { selected_key: string };
+        const selectedAvatar = candidates.find(avatar => avatar.key === parsed.selected_key);
+        if (!selectedAvatar) {
+            console.warn(`AI selected an avatar that isn't one of the candidates: ${parsed.selected_key}. Using ${candidates[0].key}.`);
         }
-    } catch(e) {
-        console.error("Failed to parse avatar selection from AI:", e);
-        return findBestFallback(patientProfile);
+        return toAvatarResult(selectedAvatar ?? candidates[0]);
+    } catch (e) {
+        console.error("Failed to get an avatar tie-break from AI:", e);
+        return toAvatarResult(candidates[0]);
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,41 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { ChatMessage, ChecklistItem, DiagnosticCase } from "./geminiService";
+import { matchesKeyword } from "./investigations";
+
+// OSCE-style coverage of the case's hidden history and examination checklist. Only the
+// student's own messages count: an item is covered by the first question that mentions one of
+// its keywords, whatever the patient happened to volunteer. Presenting to the attending isn't
+// enquiry, so messages addressed to them are left out.
+
+export interface CoveredItem {
+    item: ChecklistItem;
+    question: string; // the student's message that covered it
+}
+
+export interface CoverageReport {
+    asked: CoveredItem[];
+    missed: ChecklistItem[];
+    score: number; // 0-100
+}
+
+export const hasHistoryChecklist = (caseData: DiagnosticCase): boolean =>
+    !!caseData.historyChecklist && caseData.historyChecklist.length > 0;
+
+export function trackCoverage(caseData: DiagnosticCase, messages: ChatMessage[]): CoverageReport {
+    const questions = messages.filter(m => m.sender === 'user' && m.addressee !== 'attending').map(m => m.text);
+    const report: CoverageReport = { asked: [], missed: [], score: 0 };
+    const checklist = caseData.historyChecklist ?? [];
+
+    checklist.forEach(item => {
+        // Keywords may be stems ('radiat'), but must start a word: 'eat' shouldn't match "breathing".
+        const question = questions.find(q => matchesKeyword(q, item.keywords, true));
+        if (question) report.asked.push({ item, question });
+        else report.missed.push(item);
+    });
+
+    report.score = checklist.length > 0 ? Math.round((report.asked.length / checklist.length) * 100) : 0;
+    return report;
+}
@@ -0,0 +1,129 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { DiagnosticCase, LabPanel } from "./geminiService";
+import { flagLabResult } from "./clinicalRanges";
+
+// Investigation catalog and ordering logic. Results are drawn from the case itself: an order
+// returns the lab panels and report lines whose names match the test's keywords, so students
+// only ever see what they asked for.
+
+export type InvestigationCategory = 'Bedside' | 'Laboratory' | 'Imaging';
+
+export interface Investigation {
+    id: string;
+    name: string;
+    category: InvestigationCategory;
+    turnaroundMinutes: number; // simulated
+    cost: number; // INR
+    keywords: string[];
+}
+
+export interface InvestigationOrder {
+    investigationId: string;
+    orderedAt: number; // epoch ms
+    readyAt: number; // epoch ms
+}
+
+export interface InvestigationResult {
+    panels: LabPanel[];
+    findings: string[];
+}
+
+export const INVESTIGATION_BUDGET = 5000; // INR per case
+
+// Lab time runs on its own, faster clock than the patient (see simulationClock): an hour's
+// turnaround takes 12 real seconds. Long turnarounds (cultures) are capped so results still
+// arrive within a session.
+const TURNAROUND_MS_PER_MINUTE = 200;
+const MAX_REAL_WAIT_MS = 90_000;
+
+export const INVESTIGATION_CATALOG: Investigation[] = [
+    { id: 'glucose', name: 'Capillary Blood Glucose', category: 'Bedside', turnaroundMinutes: 5, cost: 50, keywords: ['glucose', 'sugar', 'hba1c'] },
+    { id: 'ecg', name: '12-lead ECG', category: 'Bedside', turnaroundMinutes: 10, cost: 250, keywords: ['ecg', 'ekg', 'electrocardiogram'] },
+    { id: 'abg', name: 'Arterial Blood Gas', category: 'Bedside', turnaroundMinutes: 10, cost: 800, keywords: ['blood gas', 'abg', 'pao2', 'paco2', 'lactate', 'bicarbonate'] },
+    { id: 'urine', name: 'Urine Routine & Microscopy', category: 'Bedside', turnaroundMinutes: 30, cost: 150, keywords: ['urine', 'urinalysis'] },
+    { id: 'cbc', name: 'Complete Blood Count', category: 'Laboratory', turnaroundMinutes: 30, cost: 300, keywords: ['blood count', 'cbc', 'haemoglobin', 'hemoglobin', 'leucocyte', 'leukocyte', 'wbc', 'platelet', 'hematocrit', 'haematocrit'] },
+    { id: 'electrolytes', name: 'Serum Electrolytes', category: 'Laboratory', turnaroundMinutes: 45, cost: 400, keywords: ['electrolyte', 'sodium', 'potassium', 'chloride'] },
+    { id: 'rft', name: 'Renal Function Tests', category: 'Laboratory', turnaroundMinutes: 60, cost: 500, keywords: ['renal', 'creatinine', 'urea', 'kidney'] },
+    { id: 'lft', name: 'Liver Function Tests', category: 'Laboratory', turnaroundMinutes: 60, cost: 600, keywords: ['liver', 'bilirubin', 'sgpt', 'sgot', 'alt', 'ast', 'albumin', 'alkaline phosphatase'] },
+    { id: 'inflammatory', name: 'CRP & ESR', category: 'Laboratory', turnaroundMinutes: 45, cost: 400, keywords: ['crp', 'c-reactive', 'esr', 'procalcitonin'] },
+    { id: 'cardiac', name: 'Cardiac Markers', category: 'Laboratory', turnaroundMinutes: 60, cost: 1200, keywords: ['cardiac', 'troponin', 'ck-mb', 'bnp'] },
+    { id: 'coagulation', name: 'Coagulation Profile', category: 'Laboratory', turnaroundMinutes: 60, cost: 700, keywords: ['coagulation', 'inr', 'prothrombin', 'aptt'] },
+    { id: 'lipid', name: 'Lipid Profile', category: 'Laboratory', turnaroundMinutes: 120, cost: 500, keywords: ['lipid', 'cholesterol', 'triglyceride', 'ldl', 'hdl'] },
+    { id: 'thyroid', name: 'Thyroid Function Tests', category: 'Laboratory', turnaroundMinutes: 120, cost: 600, keywords: ['thyroid', 'tsh', 't3', 't4'] },
+    { id: 'culture', name: 'Blood Culture & Sensitivity', category: 'Laboratory', turnaroundMinutes: 2880, cost: 900, keywords: ['culture', 'sensitivity'] },
+    { id: 'cxr', name: 'Chest X-ray', category: 'Imaging', turnaroundMinutes: 45, cost: 400, keywords: ['chest x-ray', 'cxr', 'chest radiograph'] },
+    { id: 'xray', name: 'X-ray (Other Region)', category: 'Imaging', turnaroundMinutes: 45, cost: 400, keywords: ['x-ray', 'radiograph'] },
+    { id: 'usg', name: 'Ultrasound Abdomen', category: 'Imaging', turnaroundMinutes: 90, cost: 1200, keywords: ['ultrasound', 'usg', 'sonograph'] },
+    { id: 'echo', name: 'Echocardiogram', category: 'Imaging', turnaroundMinutes: 90, cost: 2000, keywords: ['echo', 'echocardiogram', 'echocardiography', 'ejection fraction'] },
+    { id: 'ct', name: 'CT Scan', category: 'Imaging', turnaroundMinutes: 60, cost: 3000, keywords: ['ct', 'ct scan', 'computed tomography'] },
+];
+
+export const getInvestigation = (investigationId: string): Investigation | undefined =>
+    INVESTIGATION_CATALOG.find(i => i.id === investigationId);
+
+export function createInvestigationOrder(investigation: Investigation, now: number = Date.now()): InvestigationOrder {
+    const wait = Math.min(investigation.turnaroundMinutes * TURNAROUND_MS_PER_MINUTE, MAX_REAL_WAIT_MS);
+    return { investigationId: investigation.id, orderedAt: now, readyAt: now + wait };
+}
+
+// Remaining simulated minutes, scaled back up from the real wait.
+export function simulatedMinutesRemaining(order: InvestigationOrder, now: number): number {
+    const investigation = getInvestigation(order.investigationId);
+    if (!investigation || now >= order.readyAt) return 0;
+    const fraction = (order.readyAt - now) / (order.readyAt - order.orderedAt);
+    return Math.max(1, Math.ceil(investigation.turnaroundMinutes * fraction));
+}
+
+// Whole-word match (allowing a plural 's') so short codes like 'ast' or 'inr' don't fire inside other words.
+// With `allowStems`, a keyword only has to start a word ('radiat' matches "radiates").
+export const matchesKeyword = (text: string, keywords: string[], allowStems = false): boolean =>
+    keywords.some(k => new RegExp(`\\b${k.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}${allowStems ? '' : 's?\\b'}`, 'i').test(text));
+
+export function getInvestigationResult(caseData: DiagnosticCase, investigation: Investigation): InvestigationResult {
+    const panels = (caseData.labPanels ?? [])
+        .map(panel => matchesKeyword(panel.name, investigation.keywords)
+            ? panel
+            : { ...panel, results: panel.results.filter(r => matchesKeyword(r.test, investigation.keywords)) })
+        .filter(panel => panel.results.length > 0);
+
+    // Free-text reports (ECG, imaging, cultures) only live in labResults; return the matching lines.
+    const findings = caseData.labResults
+        .split(/\n|(?<=\.)\s+/)
+        .map(line => line.trim())
+        .filter(line => line.length > 0 && matchesKeyword(line, investigation.keywords));
+
+    return { panels, findings };
+}
+
+export interface OrderingFeedback {
+    totalCost: number;
+    budget: number;
+    informative: string[]; // ordered, and returned something abnormal or reportable
+    lowYield: string[]; // ordered, but added nothing to the case
+    missedPanels: string[]; // lab panels in the case that no order covered
+}
+
+export function summarizeOrdering(caseData: DiagnosticCase, orders: InvestigationOrder[]): OrderingFeedback {
+    const ordered = orders.map(o => getInvestigation(o.investigationId)).filter((i): i is Investigation => !!i);
+    const informative: string[] = [];
+    const lowYield: string[] = [];
+    const coveredPanels = new Set<string>();
+
+    ordered.forEach(investigation => {
+        const { panels, findings } = getInvestigationResult(caseData, investigation);
+        panels.forEach(p => coveredPanels.add(p.name));
+        const hasAbnormal = panels.some(p => p.results.some(r => flagLabResult(r) !== 'normal'));
+        (hasAbnormal || findings.length > 0 ? informative : lowYield).push(investigation.name);
+    });
+
+    return {
+        totalCost: ordered.reduce((sum, i) => sum + i.cost, 0),
+        budget: INVESTIGATION_BUDGET,
+        informative,
+        lowYield,
+        missedPanels: (caseData.labPanels ?? []).map(p => p.name).filter(name => !coveredPanels.has(name)),
+    };
+}
@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { GoogleGenAI } from "@google/genai";
+import { LlmProvider, TextRequest, StructuredRequest, ChatOptions, ChatSession } from "./types";
+
+const DEFAULT_GEMINI_MODEL = "gemini-2.5-flash";
+
+export function createGeminiProvider(model: string = process.env.LLM_MODEL || DEFAULT_GEMINI_MODEL): LlmProvider {
+    const getAi = (): GoogleGenAI => {
+        // As per the platform's execution environment, we can expect process.env.API_KEY to be available.
+        const apiKey = process.env.API_KEY;
+
+        if (!apiKey) {
+            // Throw a specific error if the API key is not configured.
+            throw new Error("Gemini API key not found. Please ensure the API_KEY environment variable is set.");
+        }
+
+        // Create a new instance for each call to ensure statelessness.
+        return new GoogleGenAI({ apiKey });
+    };
+
+    return {
+        name: 'gemini',
+
+        async generateText({ prompt }: TextRequest): Promise<string> {
+            const response = await getAi().models.generateContent({
+                model,
+                contents: prompt,
+            });
+            return response.text ?? '';
+        },
+
+        async generateStructured({ prompt, schema }: StructuredRequest): Promise<string> {
+            const response = await getAi().models.generateContent({
+                model,
+                contents: prompt,
+                config: {
+                    responseMimeType: "application/json",
+                    responseSchema: schema,
+                }
+            });
+            return response.text ?? '';
+        },
+
+        createChat({ systemInstruction }: ChatOptions): ChatSession {
+            const chat = getAi().chats.create({
+                model,
+                config: { systemInstruction },
+            });
+            return {
+                async sendMessage({ message }) {
+                    const response = await chat.sendMessage({ message });
+                    return { text: response.text ?? '' };
+                },
+                async sendMessageStream({ message, signal }) {
+                    // A per-request config replaces the chat's, so the persona has to be passed again.
+                    const stream = await chat.sendMessageStream({ message, config: { systemInstruction, abortSignal: signal } });
+                    return (async function* () {
+                        for await (const chunk of stream) yield { text: chunk.text ?? '' };
+                    })();
+                },
+            };
+        },
+    };
+}
@@ -0,0 +1,39 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { LlmProvider } from "./types";
+import { createGeminiProvider } from "./geminiProvider";
+import { createOpenAiCompatibleProvider } from "./openAiCompatibleProvider";
+import { createMockProvider } from "./mockProvider";
+
+export * from "./types";
+export * from "./recordReplay";
+export { createGeminiProvider, createOpenAiCompatibleProvider, createMockProvider };
+
+export type LlmProviderName = 'gemini' | 'openai' | 'mock';
+
+let providerOverride: LlmProvider | null = null;
+
+export function createLlmProvider(name: string | undefined): LlmProvider {
+    switch (name) {
+        case 'openai': return createOpenAiCompatibleProvider();
+        case 'mock': return createMockProvider();
+        case 'gemini':
+        case undefined:
+        case '':
+            return createGeminiProvider();
+        default:
+            throw new Error(`Unknown LLM provider "${name}". Expected one of: gemini, openai, mock.`);
+    }
+}
+
+// The active provider is chosen by the LLM_PROVIDER environment variable (default: gemini),
+// unless a test or dev tool has installed one explicitly with setLlmProvider.
+export function getLlmProvider(): LlmProvider {
+    return providerOverride ?? createLlmProvider(process.env.LLM_PROVIDER);
+}
+
+export function setLlmProvider(provider: LlmProvider | null): void {
+    providerOverride = provider;
+}
@@ -0,0 +1,209 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { DiagnosticCase } from "../geminiService";
+
+// Canned data for the offline mock provider. Everything here is static so a given
+// sequence of calls always produces the same output, in development and in tests.
+
+export interface ChatReplyRule {
+    keywords: string[];
+    reply: string;
+}
+
+export interface MockCaseFixture {
+    caseData: DiagnosticCase;
+    chatReplies: ChatReplyRule[];
+}
+
+export const MOCK_CASE_FIXTURES: MockCaseFixture[] = [
+    {
+        caseData: {
+            title: 'A Middle-Aged Man with Crushing Chest Pain',
+            patientProfile: { name: 'Rajesh Kumar', age: 52, gender: 'Male', ethnicity: 'South Asian' },
+            tags: {
+                trainingPhase: 'Clinical',
+                specialty: 'Cardiology',
+                cognitiveSkill: 'Application',
+                epas: ['History-taking', 'Diagnosis'],
+                curriculum: { framework: 'CBME/NExT', competency: 'IM2.6' },
+            },
+            chiefComplaint: 'I have a heavy pain in my chest since this morning.',
+            historyOfPresentIllness: 'A 52-year-old man presents with central, crushing chest pain that began 2 hours ago while climbing stairs. The pain radiates to his left arm and jaw and is associated with sweating and nausea. He is a smoker of 20 pack-years with poorly controlled type 2 diabetes.',
+            physicalExam: 'Anxious and diaphoretic. HR 104/min, BP 150/92 mmHg, RR 22/min, SpO2 95% on room air. Heart sounds S1 S2 normal, no murmurs. Chest clear.',
+            labResults: 'ECG: ST elevation in leads II, III and aVF. Troponin I: 2.4 ng/mL (raised). Random blood glucose: 248 mg/dL.',
+            vitals: { heartRate: 104, systolicBP: 150, diastolicBP: 92, respiratoryRate: 22, spo2: 95, temperature: 37.0, gcs: 15 },
+            labPanels: [
+                {
+                    name: 'Cardiac Markers',
+                    results: [
+                        { test: 'Troponin I', value: 2.4, unit: 'ng/mL', referenceLow: 0, referenceHigh: 0.04 },
+                        { test: 'CK-MB', value: 38, unit: 'U/L', referenceLow: 0, referenceHigh: 25 },
+                    ],
+                },
+                {
+                    name: 'Biochemistry',
+                    results: [
+                        { test: 'Random blood glucose', value: 248, unit: 'mg/dL', referenceLow: 70, referenceHigh: 140 },
+                        { test: 'Serum potassium', value: 4.2, unit: 'mmol/L', referenceLow: 3.5, referenceHigh: 5.1 },
+                        { test: 'Serum creatinine', value: 1.0, unit: 'mg/dL', referenceLow: 0.7, referenceHigh: 1.3 },
+                    ],
+                },
+            ],
+            historyChecklist: [
+                { item: 'Site and radiation of the pain', category: 'History', keywords: ['where', 'radiat', 'spread', 'arm', 'jaw'], rationale: 'Central pain spreading to the left arm and jaw is typical of cardiac ischaemia.' },
+                { item: 'Onset and relation to exertion', category: 'History', keywords: ['when', 'start', 'began', 'exert', 'stairs', 'walk'], rationale: 'Pain that began on exertion two hours ago places him within the reperfusion window.' },
+                { item: 'Character of the pain', category: 'History', keywords: ['describe', 'character', 'heavy', 'sharp', 'tearing', 'feel like'], rationale: 'Heavy, crushing pain suggests ischaemia, while tearing pain points to aortic dissection.' },
+                { item: 'Associated sweating, nausea or breathlessness', category: 'History', keywords: ['sweat', 'nausea', 'vomit', 'breath'], rationale: 'Autonomic symptoms accompany a large infarct and raise the pre-test probability.' },
+                { item: 'Smoking history', category: 'History', keywords: ['smoke', 'cigarette', 'tobacco', 'bidi'], rationale: 'A 20 pack-year smoking history is a major coronary risk factor.' },
+                { item: 'Diabetes and other cardiovascular risk factors', category: 'History', keywords: ['diabetes', 'sugar', 'blood pressure', 'cholesterol', 'family'], rationale: 'Poorly controlled diabetes increases coronary risk and can blunt anginal pain.' },
+                { item: 'Pulses and blood pressure in both arms', category: 'Examination', keywords: ['pulse', 'both arms', 'blood pressure'], rationale: 'A difference between the arms is a clue to aortic dissection, which must be excluded before antithrombotic treatment.' },
+                { item: 'Auscultation of the heart and lungs', category: 'Examination', keywords: ['listen', 'auscultat', 'heart sound', 'chest', 'murmur'], rationale: 'A new murmur or crackles would signal mechanical complications or heart failure.' },
+            ],
+            potentialDiagnoses: [
+                { diagnosis: 'Acute inferior wall myocardial infarction', isCorrect: true },
+                { diagnosis: 'Unstable angina', isCorrect: false },
+                { diagnosis: 'Acute pericarditis', isCorrect: false },
+                { diagnosis: 'Aortic dissection', isCorrect: false },
+            ],
+            mcqs: [
+                {
+                    question: 'Which coronary artery is most commonly occluded in an inferior wall MI?',
+                    options: ['Left anterior descending', 'Left circumflex', 'Right coronary artery', 'Left main'],
+                    correctAnswerIndex: 2,
+                    explanation: 'The right coronary artery supplies the inferior wall in most (right-dominant) individuals.',
+                },
+                {
+                    question: 'What is the preferred reperfusion strategy if a PCI-capable centre is available within 120 minutes?',
+                    options: ['Thrombolysis with streptokinase', 'Primary PCI', 'Conservative management', 'CABG'],
+                    correctAnswerIndex: 1,
+                    explanation: 'Primary PCI is preferred over fibrinolysis when it can be delivered within 120 minutes of first medical contact.',
+                },
+                {
+                    question: 'Which drug should be given immediately to all patients with suspected STEMI unless contraindicated?',
+                    options: ['Aspirin', 'Furosemide', 'Digoxin', 'Amiodarone'],
+                    correctAnswerIndex: 0,
+                    explanation: 'A loading dose of aspirin reduces mortality in acute MI and should be given as early as possible.',
+                },
+            ],
+            correctDiagnosisExplanation: 'Typical ischaemic chest pain with ST elevation in the inferior leads and a raised troponin confirm an acute inferior wall STEMI.',
+        },
+        chatReplies: [
+            { keywords: ['where', 'location', 'radiat', 'spread'], reply: 'It is right in the middle of my chest, doctor, and it goes down my left arm and up into my jaw.' },
+            { keywords: ['when', 'start', 'began', 'long'], reply: 'It started about two hours ago when I was climbing the stairs to my office.' },
+            { keywords: ['sweat', 'nausea', 'vomit'], reply: 'Yes, I have been sweating a lot and I feel like I might vomit.' },
+            { keywords: ['smoke', 'cigarette', 'tobacco'], reply: 'I smoke about a packet a day. I have been smoking for twenty years.' },
+            { keywords: ['diabetes', 'sugar', 'medicine', 'medication'], reply: 'I have sugar problems. I am supposed to take metformin but I often forget.' },
+            { keywords: ['ecg', 'troponin', 'test', 'blood', 'lab'], reply: 'Nobody has told me about any test results yet, doctor. Will you be ordering some tests?' },
+            { keywords: ['pain', 'hurt', 'feel'], reply: 'It feels like someone is sitting on my chest. It is very heavy.' },
+        ],
+    },
+    {
+        caseData: {
+            title: 'A Young Child with Fever and Barking Cough',
+            patientProfile: { name: 'Aarav Sharma', age: 3, gender: 'Male', ethnicity: 'South Asian' },
+            tags: {
+                trainingPhase: 'Clinical',
+                specialty: 'Pediatrics',
+                cognitiveSkill: 'Analysis',
+                epas: ['History-taking', 'Physical Exam', 'Diagnosis'],
+                curriculum: { framework: 'CBME/NExT', competency: 'PE28.6' },
+            },
+            chiefComplaint: 'My son has a strange barking cough and noisy breathing since last night.',
+            historyOfPresentIllness: 'A 3-year-old boy with a two-day history of runny nose and low-grade fever developed a barking cough and hoarse voice last night. His mother noticed noisy breathing when he cries. He is drinking fluids and is fully immunised.',
+            physicalExam: 'Temperature 38.2 C, HR 128/min, RR 34/min, SpO2 97% on room air. Inspiratory stridor when agitated, mild suprasternal retractions. No drooling.',
+            labResults: 'No investigations are routinely required. Neck X-ray (if done): subglottic narrowing (steeple sign).',
+            vitals: { heartRate: 128, systolicBP: 96, diastolicBP: 60, respiratoryRate: 34, spo2: 97, temperature: 38.2, gcs: 15 },
+            labPanels: [
+                {
+                    name: 'Complete Blood Count',
+                    results: [
+                        { test: 'Haemoglobin', value: 11.8, unit: 'g/dL', referenceLow: 11, referenceHigh: 14 },
+                        { test: 'Total leucocyte count', value: 9.6, unit: 'x10^9/L', referenceLow: 5.5, referenceHigh: 15.5 },
+                        { test: 'Platelets', value: 310, unit: 'x10^9/L', referenceLow: 150, referenceHigh: 450 },
+                    ],
+                },
+            ],
+            trajectory: {
+                stages: [
+                    {
+                        atMinute: 10,
+                        vitals: { heartRate: 142, systolicBP: 94, diastolicBP: 58, respiratoryRate: 40, spo2: 94, temperature: 38.3, gcs: 15 },
+                        symptoms: 'Stridor is now heard at rest and he is working harder to breathe, with deeper chest retractions. He is restless and clinging to his mother.',
+                    },
+                    {
+                        atMinute: 25,
+                        vitals: { heartRate: 160, systolicBP: 90, diastolicBP: 56, respiratoryRate: 48, spo2: 90, temperature: 38.4, gcs: 14 },
+                        symptoms: 'He is tired and drowsy, with loud stridor at rest, marked retractions and pale lips.',
+                    },
+                ],
+                interventions: [
+                    { intervention: 'Oral dexamethasone', keywords: ['dexamethasone', 'steroid'], deadlineMinute: 20 },
+                    { intervention: 'Nebulised adrenaline', keywords: ['adrenaline', 'epinephrine', 'nebulis', 'nebuliz'], deadlineMinute: 20 },
+                ],
+            },
+            historyChecklist: [
+                { item: 'Character of the cough', category: 'History', keywords: ['cough', 'sound', 'bark'], rationale: 'A barking cough is the hallmark of croup.' },
+                { item: 'Preceding viral symptoms and fever', category: 'History', keywords: ['fever', 'temperature', 'cold', 'runny'], rationale: 'A coryzal prodrome with low-grade fever supports a viral cause rather than bacterial tracheitis.' },
+                { item: 'Drooling or difficulty swallowing', category: 'History', keywords: ['drool', 'swallow', 'drink', 'eat'], rationale: 'Drooling and refusal to swallow are red flags for epiglottitis.' },
+                { item: 'Possible choking episode', category: 'History', keywords: ['choke', 'swallowed', 'toy', 'object', 'sudden'], rationale: 'A witnessed choking episode would point to an inhaled foreign body.' },
+                { item: 'Immunisation status', category: 'History', keywords: ['vaccin', 'immunis', 'immuniz'], rationale: 'Hib immunisation makes epiglottitis much less likely.' },
+                { item: 'Stridor and work of breathing', category: 'Examination', keywords: ['breath', 'stridor', 'noisy', 'retraction', 'chest'], rationale: 'Stridor at rest and retractions grade the severity and decide the need for nebulised adrenaline.' },
+                { item: 'Oxygen saturation and colour', category: 'Examination', keywords: ['oxygen', 'saturation', 'spo2', 'blue', 'colour', 'color'], rationale: 'Hypoxia or cyanosis indicates impending respiratory failure.' },
+            ],
+            potentialDiagnoses: [
+                { diagnosis: 'Croup (laryngotracheobronchitis)', isCorrect: true },
+                { diagnosis: 'Acute epiglottitis', isCorrect: false },
+                { diagnosis: 'Foreign body aspiration', isCorrect: false },
+                { diagnosis: 'Bacterial tracheitis', isCorrect: false },
+            ],
+            mcqs: [
+                {
+                    question: 'What is the most common causative organism of croup?',
+                    options: ['Respiratory syncytial virus', 'Parainfluenza virus', 'Haemophilus influenzae type b', 'Streptococcus pneumoniae'],
+                    correctAnswerIndex: 1,
+                    explanation: 'Parainfluenza virus (types 1 and 3) causes the majority of croup cases.',
+                },
+                {
+                    question: 'Which single drug is the mainstay of treatment for mild to moderate croup?',
+                    options: ['Oral dexamethasone', 'Amoxicillin', 'Salbutamol nebulisation', 'Oral antihistamine'],
+                    correctAnswerIndex: 0,
+                    explanation: 'A single dose of oral dexamethasone reduces airway oedema and the need for hospital admission.',
+                },
+                {
+                    question: 'Which X-ray sign is classically associated with croup?',
+                    options: ['Thumb sign', 'Steeple sign', 'Sail sign', 'Double bubble sign'],
+                    correctAnswerIndex: 1,
+                    explanation: 'Subglottic narrowing produces the steeple sign on a frontal neck radiograph.',
+                },
+            ],
+            correctDiagnosisExplanation: 'A barking cough, hoarse voice and inspiratory stridor following a viral prodrome in a toddler is classic croup.',
+        },
+        chatReplies: [
+            { keywords: ['cough', 'sound'], reply: 'It sounds like a seal barking, doctor. It is worse at night.' },
+            { keywords: ['fever', 'temperature'], reply: 'He has had a mild fever for two days, and a runny nose before that.' },
+            { keywords: ['drool', 'swallow', 'eat', 'drink'], reply: 'He is drinking juice and water. He is not drooling.' },
+            { keywords: ['vaccin', 'immunis', 'immuniz'], reply: 'Yes, all his vaccines are up to date. I have the card with me.' },
+            { keywords: ['breath', 'noisy', 'stridor'], reply: 'When he cries his breathing becomes very noisy, like a whistle when he breathes in.' },
+            { keywords: ['choke', 'swallowed', 'toy', 'object'], reply: 'No, he did not choke on anything. He was just playing normally.' },
+        ],
+    },
+];
+
+export const DEFAULT_CHAT_REPLY = "I'm not sure, doctor. Nobody told me about that.";
+
+export const MOCK_ATTENDING_REPLY = 'Good. What is your leading diagnosis, and what would you do first?';
+
+export const MOCK_HINT = 'Have you asked about the character of the symptoms and what makes them better or worse?';
+
+export function buildMockSoapNote(title: string): string {
+    return [
+        `SOAP Note: ${title}`,
+        '',
+        'S: Patient history as described in the case presentation.',
+        'O: Findings from the physical examination and investigations as listed in the case.',
+        'A: Working diagnosis as per the case.',
+        'P: Stabilise, confirm the diagnosis with targeted investigations and start evidence-based treatment.',
+    ].join('\n');
+}
@@ -0,0 +1,85 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { LlmProvider, TextRequest, StructuredRequest, ChatOptions, ChatSession } from "./types";
+import { streamText } from "./streaming";
+import { MOCK_CASE_FIXTURES, MockCaseFixture, DEFAULT_CHAT_REPLY, MOCK_ATTENDING_REPLY, MOCK_HINT, buildMockSoapNote } from "./mockFixtures";
+
+// A deterministic, network-free provider backed by the fixtures in mockFixtures.ts.
+// It answers by task rather than by understanding the prompt, so identical inputs
+// always yield identical outputs.
+
+// Case and question prompts name the requested specialty in their constraints, but also list
+// other specialties alongside the competency catalog, so that line is checked first.
+function findFixtureForPrompt(prompt: string): MockCaseFixture {
+    const requested = prompt.match(/(?:primary specialty MUST be one of the following|- Specialty): ([^.\n]*)/)?.[1];
+    const byText = (text: string) => MOCK_CASE_FIXTURES.find(f => text.includes(f.caseData.tags.specialty));
+    return (requested && byText(requested)) ?? byText(prompt) ?? MOCK_CASE_FIXTURES[0];
+}
+
+export function createMockProvider(): LlmProvider {
+    return {
+        name: 'mock',
+
+        async generateText({ task, prompt }: TextRequest): Promise<string> {
+            switch (task) {
+                case 'generateHint':
+                    return MOCK_HINT;
+                case 'generateSoapNote': {
+                    const title = prompt.match(/\*\*Title:\*\*\s*(.+)/)?.[1]?.trim() ?? 'Clinical Case';
+                    return buildMockSoapNote(title);
+                }
+                default:
+                    throw new Error(`Mock provider has no text fixture for task "${task}".`);
+            }
+        },
+
+        async generateStructured({ task, prompt }: StructuredRequest): Promise<string> {
+            switch (task) {
+                case 'generateCase':
+                case 'repairCase': {
+                    // Only challenge-mode and Emergency Medicine cases need a trajectory; leave it out otherwise.
+                    const { trajectory, ...caseData } = findFixtureForPrompt(prompt).caseData;
+                    const wantsTrajectory = prompt.includes("You MUST include a 'trajectory'") || caseData.tags.specialty === 'Emergency Medicine';
+                    return JSON.stringify(trajectory && wantsTrajectory ? { ...caseData, trajectory } : caseData);
+                }
+                case 'generateQuestions': {
+                    const { mcqs, tags } = findFixtureForPrompt(prompt).caseData;
+                    const { specialty, cognitiveSkill, curriculum: { competency } } = tags;
+                    return JSON.stringify({ questions: mcqs.map(mcq => ({ ...mcq, specialty, competency, cognitiveSkill })) });
+                }
+                case 'pickAvatar':
+                    // No preference: an unknown key keeps the first of the tied candidates.
+                    return JSON.stringify({ selected_key: '' });
+                default:
+                    throw new Error(`Mock provider has no structured fixture for task "${task}".`);
+            }
+        },
+
+        createChat({ systemInstruction }: ChatOptions): ChatSession {
+            const fixture = MOCK_CASE_FIXTURES.find(f => systemInstruction.includes(f.caseData.chiefComplaint));
+            const rules = fixture?.chatReplies ?? [];
+            // Ward staff give the same answer to everything; the nurse reads out the observations she was given.
+            const observations = systemInstruction.match(/\*\*Observations on arrival:\*\* (.+)/)?.[1];
+            const staffReply = systemInstruction.includes('the ward nurse') ? `Latest observations: ${observations ?? 'not recorded.'}`
+                : systemInstruction.includes('the attending physician') ? MOCK_ATTENDING_REPLY
+                : null;
+            const reply = (message: string) => {
+                if (staffReply) return staffReply;
+                // Ignore the bracketed simulation notes ([Treatments given], [Patient status]) prefixed to messages.
+                const normalized = message.replace(/^(\[[^\]]*\]\s*)+/, '').toLowerCase();
+                const rule = rules.find(r => r.keywords.some(k => normalized.includes(k)));
+                return rule?.reply ?? DEFAULT_CHAT_REPLY;
+            };
+            return {
+                async sendMessage({ message }) {
+                    return { text: reply(message) };
+                },
+                async sendMessageStream({ message, signal }) {
+                    return streamText(reply(message), signal);
+                },
+            };
+        },
+    };
+}
@@ -0,0 +1,136 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { LlmProvider, TextRequest, StructuredRequest, ChatOptions, ChatSession, ResponseSchema } from "./types";
+
+// Works against the OpenAI API and any server that speaks its chat-completions dialect
+// (Ollama, vLLM, LM Studio, llama.cpp server, ...).
+const DEFAULT_BASE_URL = "https://api.openai.com/v1";
+const DEFAULT_OPENAI_MODEL = "gpt-4o-mini";
+
+interface OpenAiMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+interface OpenAiCompatibleConfig {
+    baseUrl?: string;
+    apiKey?: string;
+    model?: string;
+}
+
+// Gemini schemas use upper-case type names ("OBJECT", "STRING"); JSON Schema wants lower-case.
+function toJsonSchema(schema: ResponseSchema): Record<string, unknown> {
+    const { type, properties, items, required, enum: enumValues, description } = schema;
+    const jsonSchema: Record<string, unknown> = {};
+    if (type) jsonSchema.type = String(type).toLowerCase();
+    if (description) jsonSchema.description = description;
+    if (enumValues) jsonSchema.enum = enumValues;
+    if (properties) {
+        jsonSchema.properties = Object.fromEntries(
+            Object.entries(properties).map(([key, value]) => [key, toJsonSchema(value)])
+        );
+        jsonSchema.additionalProperties = false;
+    }
+    if (required) jsonSchema.required = required;
+    if (items) jsonSchema.items = toJsonSchema(items);
+    return jsonSchema;
+}
+
+export function createOpenAiCompatibleProvider({
+    baseUrl = process.env.OPENAI_BASE_URL || DEFAULT_BASE_URL,
+    apiKey = process.env.OPENAI_API_KEY,
+    model = process.env.LLM_MODEL || DEFAULT_OPENAI_MODEL,
+}: OpenAiCompatibleConfig = {}): LlmProvider {
+    const post = async (body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> => {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        // Local model servers usually run without auth, so the key is optional.
+        if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+
+        const response = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify({ model, ...body }),
+            signal,
+        });
+
+        if (!response.ok) {
+            const errorBody = await response.text().catch(() => '');
+            throw new Error(`LLM request failed (${response.status} ${response.statusText}): ${errorBody.slice(0, 200)}`);
+        }
+        return response;
+    };
+
+    const complete = async (messages: OpenAiMessage[], responseFormat?: Record<string, unknown>): Promise<string> => {
+        const response = await post({
+            messages,
+            ...(responseFormat ? { response_format: responseFormat } : {}),
+        });
+        const data = await response.json();
+        return data?.choices?.[0]?.message?.content ?? '';
+    };
+
+    // Reads the server-sent events of a streamed completion, yielding each content delta.
+    async function* completeStream(messages: OpenAiMessage[], signal?: AbortSignal): AsyncGenerator<string> {
+        const response = await post({ messages, stream: true }, signal);
+        const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+        let buffer = '';
+        while (true) {
+            const { value, done } = await reader.read();
+            if (done) return;
+            buffer += value;
+            const lines = buffer.split('\n');
+            buffer = lines.pop() ?? '';
+            for (const line of lines) {
+                if (!line.startsWith('data:')) continue;
+                const data = line.slice('data:'.length).trim();
+                if (data === '[DONE]') return;
+                const delta = JSON.parse(data)?.choices?.[0]?.delta?.content;
+                if (delta) yield delta;
+            }
+        }
+    }
+
+    return {
+        name: 'openai',
+
+        generateText({ prompt }: TextRequest): Promise<string> {
+            return complete([{ role: 'user', content: prompt }]);
+        },
+
+        generateStructured({ task, prompt, schema }: StructuredRequest): Promise<string> {
+            return complete([{ role: 'user', content: prompt }], {
+                type: 'json_schema',
+                json_schema: { name: task, schema: toJsonSchema(schema) },
+            });
+        },
+
+        createChat({ systemInstruction }: ChatOptions): ChatSession {
+            // Chat-completions is stateless, so the session keeps its own transcript.
+            const history: OpenAiMessage[] = [{ role: 'system', content: systemInstruction }];
+            return {
+                async sendMessage({ message }) {
+                    const text = await complete([...history, { role: 'user', content: message }]);
+                    history.push({ role: 'user', content: message }, { role: 'assistant', content: text });
+                    return { text };
+                },
+                async sendMessageStream({ message, signal }) {
+                    const chunks = completeStream([...history, { role: 'user', content: message }], signal);
+                    return (async function* () {
+                        let text = '';
+                        try {
+                            for await (const delta of chunks) {
+                                text += delta;
+                                yield { text: delta };
+                            }
+                        } finally {
+                            // An interrupted reply is kept as far as it got, so the next turn follows on from what was shown.
+                            if (text) history.push({ role: 'user', content: message }, { role: 'assistant', content: text });
+                        }
+                    })();
+                },
+            };
+        },
+    };
+}
@@ -0,0 +1,149 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { LlmProvider, LlmTask, TextRequest, StructuredRequest, ChatOptions, ChatSession } from "./types";
+import { streamText } from "./streaming";
+
+// Record/replay wrappers for any provider. Recording passes calls through to a real provider
+// and reports every prompt/response pair; replay serves those pairs back without a network.
+// Neither touches the filesystem, so they are safe to import in the browser; the scripts in
+// /scripts handle reading and writing recordings to disk.
+
+export type RecordedCallKind = 'text' | 'structured' | 'chat';
+
+export interface LlmRecording {
+    key: string;
+    kind: RecordedCallKind;
+    task: LlmTask | 'chat';
+    prompt: string;
+    response: string;
+    provider: string;
+    recordedAt: string;
+}
+
+// 32-bit FNV-1a, hex encoded. Stable across runs and platforms, which is all a lookup key needs.
+function hashString(input: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < input.length; i++) {
+        hash ^= input.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+export function recordingKey(kind: RecordedCallKind, task: LlmTask | 'chat', prompt: string): string {
+    return `${kind}:${task}:${hashString(prompt)}`;
+}
+
+// A chat turn is identified by the system instruction plus the whole transcript up to and
+// including the new message, so the same question asked at a different point replays separately.
+function chatPrompt(systemInstruction: string, transcript: string[], message: string): string {
+    return [systemInstruction, ...transcript, `user: ${message}`].join('\n');
+}
+
+export function createRecordingProvider(inner: LlmProvider, onRecord: (recording: LlmRecording) => void): LlmProvider {
+    const record = (kind: RecordedCallKind, task: LlmTask | 'chat', prompt: string, response: string) => {
+        onRecord({
+            key: recordingKey(kind, task, prompt),
+            kind, task, prompt, response,
+            provider: inner.name,
+            recordedAt: new Date().toISOString(),
+        });
+    };
+
+    return {
+        name: `recording(${inner.name})`,
+
+        async generateText(request: TextRequest): Promise<string> {
+            const response = await inner.generateText(request);
+            record('text', request.task, request.prompt, response);
+            return response;
+        },
+
+        async generateStructured(request: StructuredRequest): Promise<string> {
+            const response = await inner.generateStructured(request);
+            record('structured', request.task, request.prompt, response);
+            return response;
+        },
+
+        createChat(options: ChatOptions): ChatSession {
+            const session = inner.createChat(options);
+            const transcript: string[] = [];
+            return {
+                async sendMessage({ message }) {
+                    const prompt = chatPrompt(options.systemInstruction, transcript, message);
+                    const response = await session.sendMessage({ message });
+                    record('chat', 'chat', prompt, response.text);
+                    transcript.push(`user: ${message}`, `model: ${response.text}`);
+                    return response;
+                },
+                async sendMessageStream(params) {
+                    const prompt = chatPrompt(options.systemInstruction, transcript, params.message);
+                    const stream = await session.sendMessageStream(params);
+                    // Only a reply that streamed to the end is recorded; an aborted one rethrows first.
+                    return (async function* () {
+                        let text = '';
+                        for await (const chunk of stream) {
+                            text += chunk.text;
+                            yield chunk;
+                        }
+                        record('chat', 'chat', prompt, text);
+                        transcript.push(`user: ${params.message}`, `model: ${text}`);
+                    })();
+                },
+            };
+        },
+    };
+}
+
+export function createReplayProvider(recordings: LlmRecording[], fallback?: LlmProvider): LlmProvider {
+    const byKey = new Map(recordings.map(r => [r.key, r.response]));
+
+    const lookup = (kind: RecordedCallKind, task: LlmTask | 'chat', prompt: string): string | undefined => {
+        const response = byKey.get(recordingKey(kind, task, prompt));
+        if (response === undefined && !fallback) {
+            throw new Error(`No recording for ${kind} call "${task}". The prompt has changed since it was recorded; re-record to update it.`);
+        }
+        return response;
+    };
+
+    return {
+        name: 'replay',
+
+        async generateText(request: TextRequest): Promise<string> {
+            return lookup('text', request.task, request.prompt) ?? fallback!.generateText(request);
+        },
+
+        async generateStructured(request: StructuredRequest): Promise<string> {
+            return lookup('structured', request.task, request.prompt) ?? fallback!.generateStructured(request);
+        },
+
+        createChat(options: ChatOptions): ChatSession {
+            const fallbackSession = fallback?.createChat(options);
+            const transcript: string[] = [];
+            return {
+                async sendMessage({ message }) {
+                    const prompt = chatPrompt(options.systemInstruction, transcript, message);
+                    const recorded = lookup('chat', 'chat', prompt);
+                    const text = recorded ?? (await fallbackSession!.sendMessage({ message })).text;
+                    transcript.push(`user: ${message}`, `model: ${text}`);
+                    return { text };
+                },
+                async sendMessageStream({ message, signal }) {
+                    const prompt = chatPrompt(options.systemInstruction, transcript, message);
+                    const recorded = lookup('chat', 'chat', prompt);
+                    const stream = recorded !== undefined ? streamText(recorded, signal) : await fallbackSession!.sendMessageStream({ message, signal });
+                    return (async function* () {
+                        let text = '';
+                        for await (const chunk of stream) {
+                            text += chunk.text;
+                            yield chunk;
+                        }
+                        transcript.push(`user: ${message}`, `model: ${text}`);
+                    })();
+                },
+            };
+        },
+    };
+}
@@ -0,0 +1,15 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { ChatResponse } from "./types";
+
+// For sessions that only ever have a whole reply (the mock, replayed recordings): hands it out a
+// word at a time, yielding to the event loop in between so callers see it arrive incrementally.
+export async function* streamText(text: string, signal?: AbortSignal): AsyncGenerator<ChatResponse> {
+    for (const word of text.split(/(?<=\s)(?=\S)/)) {
+        await new Promise(resolve => setTimeout(resolve, 0));
+        signal?.throwIfAborted();
+        yield { text: word };
+    }
+}
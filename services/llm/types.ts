@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { Schema } from "@google/genai";
+
+// Every call site tags its request with a task, so providers that don't read the prompt
+// (the mock, and later record/replay) can still tell what kind of answer is expected.
+export type LlmTask = 'generateCase' | 'repairCase' | 'generateSoapNote' | 'generateHint' | 'generateQuestions' | 'pickAvatar';
+
+export type ResponseSchema = Schema;
+
+export interface TextRequest {
+    task: LlmTask;
+    prompt: string;
+}
+
+export interface StructuredRequest extends TextRequest {
+    schema: ResponseSchema;
+}
+
+export interface ChatOptions {
+    systemInstruction: string;
+}
+
+export interface ChatResponse {
+    text: string;
+}
+
+export interface ChatStreamParams {
+    message: string;
+    // Aborting ends the stream early: the pending `next()` rejects with an AbortError.
+    signal?: AbortSignal;
+}
+
+// The subset of a chat session the simulation relies on. Mirrors the shape of Gemini's `Chat`
+// so existing callers (`chat.sendMessage({ message })`) keep working unchanged.
+export interface ChatSession {
+    sendMessage(params: { message: string }): Promise<ChatResponse>;
+    // Like Gemini's `sendMessageStream`, each chunk carries only the text added since the last one.
+    sendMessageStream(params: ChatStreamParams): Promise<AsyncGenerator<ChatResponse>>;
+}
+
+export interface LlmProvider {
+    readonly name: string;
+    generateText(request: TextRequest): Promise<string>;
+    // Returns the raw JSON text so callers can log it verbatim when validation fails.
+    generateStructured(request: StructuredRequest): Promise<string>;
+    createChat(options: ChatOptions): ChatSession;
+}
@@ -0,0 +1,187 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { DiagnosticCase, Specialty } from "./geminiService";
+import type { Json, NewExamAttempt } from "./supabaseService";
+
+// Timed NExT/FMGE mock exams. An exam is a fixed set of generated cases drawn from a specialty
+// blueprint, each turned into a diagnosis question plus its MCQs. One clock runs for the whole
+// exam; an answer is locked as soon as it is submitted, and nothing is marked until the exam
+// ends. The state is plain JSON so an exam in progress can be stored and resumed after a reload.
+
+export interface ExamBlueprintEntry {
+    specialty: Specialty;
+    cases: number;
+}
+
+export interface ExamBlueprint {
+    version: string;
+    entries: ExamBlueprintEntry[];
+    // One extra case is drawn from these, so each sitting also touches a smaller subject.
+    electives: Specialty[];
+    secondsPerQuestion: number;
+}
+
+export const MOCK_EXAM_BLUEPRINT: ExamBlueprint = {
+    version: 'next-mock-1',
+    entries: [
+        { specialty: 'Internal Medicine', cases: 2 },
+        { specialty: 'Surgery', cases: 1 },
+        { specialty: 'Obstetrics & Gynecology', cases: 1 },
+        { specialty: 'Pediatrics', cases: 1 },
+    ],
+    electives: ['Cardiology', 'Neurology', 'Psychiatry', 'Dermatology', 'Emergency Medicine'],
+    secondsPerQuestion: 72,
+};
+
+export interface ExamQuestion {
+    caseIndex: number;
+    kind: 'diagnosis' | 'mcq';
+    question: string;
+    options: string[];
+    correctAnswerIndex: number;
+    explanation: string;
+}
+
+export interface MockExam {
+    id: string;
+    blueprintVersion: string;
+    cases: DiagnosticCase[];
+    questions: ExamQuestion[];
+    answers: Record<number, number>; // question index -> locked option index
+    startedAt: string;
+    durationMs: number;
+    submittedAt: string | null;
+}
+
+export interface SpecialtyResult {
+    specialty: Specialty;
+    correct: number;
+    total: number;
+}
+
+export interface ExamReport {
+    correct: number;
+    answered: number;
+    total: number;
+    score: number; // 0-100
+    elapsedMs: number;
+    bySpecialty: SpecialtyResult[];
+}
+
+// Fisher-Yates, in place.
+function shuffle<T>(items: T[], random: () => number): T[] {
+    for (let i = items.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [items[i], items[j]] = [items[j], items[i]];
+    }
+    return items;
+}
+
+// The specialties to generate cases for, in the order they appear in the exam.
+export function planExamCases(blueprint: ExamBlueprint = MOCK_EXAM_BLUEPRINT, random: () => number = Math.random): Specialty[] {
+    const planned = blueprint.entries.flatMap(({ specialty, cases }) => Array<Specialty>(cases).fill(specialty));
+    if (blueprint.electives.length > 0) {
+        planned.push(blueprint.electives[Math.floor(random() * blueprint.electives.length)]);
+    }
+    // Shuffled so the subjects don't arrive in blocks.
+    return shuffle(planned, random);
+}
+
+export function buildExamQuestions(cases: DiagnosticCase[], random: () => number = Math.random): ExamQuestion[] {
+    return cases.flatMap((caseData, caseIndex) => {
+        // Models tend to list the correct diagnosis first, so the options are shuffled for each exam.
+        const diagnoses = shuffle([...caseData.potentialDiagnoses], random);
+        const diagnosisQuestion: ExamQuestion = {
+            caseIndex,
+            kind: 'diagnosis',
+            question: 'What is the most likely diagnosis?',
+            options: diagnoses.map(d => d.diagnosis),
+            correctAnswerIndex: diagnoses.findIndex(d => d.isCorrect),
+            explanation: caseData.correctDiagnosisExplanation,
+        };
+        const mcqs: ExamQuestion[] = caseData.mcqs.map(mcq => ({
+            caseIndex,
+            kind: 'mcq',
+            question: mcq.question,
+            options: mcq.options,
+            correctAnswerIndex: mcq.correctAnswerIndex,
+            explanation: mcq.explanation,
+        }));
+        return [diagnosisQuestion, ...mcqs];
+    });
+}
+
+export function createMockExam(cases: DiagnosticCase[], blueprint: ExamBlueprint = MOCK_EXAM_BLUEPRINT, now = new Date(), random: () => number = Math.random): MockExam {
+    const questions = buildExamQuestions(cases, random);
+    return {
+        id: crypto.randomUUID(),
+        blueprintVersion: blueprint.version,
+        cases,
+        questions,
+        answers: {},
+        startedAt: now.toISOString(),
+        durationMs: questions.length * blueprint.secondsPerQuestion * 1000,
+        submittedAt: null,
+    };
+}
+
+export const examRemainingMs = (exam: MockExam, now = new Date()): number =>
+    Math.max(0, new Date(exam.startedAt).getTime() + exam.durationMs - now.getTime());
+
+export const isExamOver = (exam: MockExam, now = new Date()): boolean =>
+    exam.submittedAt !== null || examRemainingMs(exam, now) === 0;
+
+// Returns the exam unchanged when the answer is already locked or time has run out.
+export function lockExamAnswer(exam: MockExam, questionIndex: number, optionIndex: number, now = new Date()): MockExam {
+    if (isExamOver(exam, now) || exam.answers[questionIndex] !== undefined) return exam;
+    return { ...exam, answers: { ...exam.answers, [questionIndex]: optionIndex } };
+}
+
+// An exam that ran out of time is submitted as of its deadline, not when it was next opened.
+export function submitExam(exam: MockExam, now = new Date()): MockExam {
+    if (exam.submittedAt) return exam;
+    const deadline = new Date(new Date(exam.startedAt).getTime() + exam.durationMs);
+    return { ...exam, submittedAt: (now < deadline ? now : deadline).toISOString() };
+}
+
+export function scoreExam(exam: MockExam): ExamReport {
+    const bySpecialty = new Map<Specialty, SpecialtyResult>();
+    let correct = 0;
+    exam.questions.forEach((question, index) => {
+        const specialty = exam.cases[question.caseIndex].tags.specialty;
+        const result = bySpecialty.get(specialty) ?? { specialty, correct: 0, total: 0 };
+        result.total++;
+        if (exam.answers[index] === question.correctAnswerIndex) {
+            result.correct++;
+            correct++;
+        }
+        bySpecialty.set(specialty, result);
+    });
+    const total = exam.questions.length;
+    const endedAt = exam.submittedAt ? new Date(exam.submittedAt).getTime() : Date.now();
+    return {
+        correct,
+        answered: Object.keys(exam.answers).length,
+        total,
+        score: total > 0 ? Math.round((correct / total) * 100) : 0,
+        elapsedMs: Math.min(exam.durationMs, endedAt - new Date(exam.startedAt).getTime()),
+        bySpecialty: [...bySpecialty.values()].sort((a, b) => a.specialty.localeCompare(b.specialty)),
+    };
+}
+
+const specialtyScoresToJson = (results: SpecialtyResult[]): Json =>
+    results.map(({ specialty, correct, total }) => ({ specialty, correct, total }));
+
+export function buildExamAttempt(exam: MockExam, report: ExamReport): NewExamAttempt {
+    return {
+        exam_id: exam.id,
+        blueprint_version: exam.blueprintVersion,
+        question_count: report.total,
+        correct_count: report.correct,
+        score: report.score,
+        duration_seconds: Math.round(report.elapsedMs / 1000),
+        specialty_scores: specialtyScoresToJson(report.bySpecialty),
+    };
+}
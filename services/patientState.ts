@@ -0,0 +1,139 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { DiagnosticCase, Vitals, DeteriorationStage } from "./geminiService";
+import type { ChatSession } from "./llm";
+import { TreatmentOrder, describeOrder } from "./treatmentOrders";
+import { matchesKeyword } from "./investigations";
+
+// Patient-state engine for cases with a trajectory. Given the simulated minute and the
+// interventions performed so far, it works out the patient's current vitals and condition:
+// untreated patients move through the trajectory's stages, and once every stabilising
+// intervention has been given the deterioration stops. If they were all on time, the
+// patient recovers back towards the presenting vitals.
+
+export type PatientStatus = 'stable' | 'deteriorating' | 'improving' | 'stabilised';
+
+export interface PerformedIntervention {
+    intervention: string;
+    atMinute: number;
+}
+
+export interface PatientState {
+    minute: number;
+    vitals: Vitals;
+    symptoms: string | null; // null while the patient is as described at presentation
+    status: PatientStatus;
+}
+
+export interface InterventionSummary {
+    timely: string[];
+    late: string[];
+    missed: string[];
+}
+
+const RECOVERY_MINUTES = 10;
+
+export const isDynamicCase = (caseData: DiagnosticCase): boolean =>
+    !!caseData.trajectory && caseData.trajectory.stages.length > 0 && !!caseData.vitals;
+
+const blendVitals = (from: Vitals, to: Vitals, fraction: number): Vitals => {
+    const blend = (a: number, b: number) => a + (b - a) * fraction;
+    return {
+        heartRate: Math.round(blend(from.heartRate, to.heartRate)),
+        systolicBP: Math.round(blend(from.systolicBP, to.systolicBP)),
+        diastolicBP: Math.round(blend(from.diastolicBP, to.diastolicBP)),
+        respiratoryRate: Math.round(blend(from.respiratoryRate, to.respiratoryRate)),
+        spo2: Math.round(blend(from.spo2, to.spo2)),
+        temperature: Math.round(blend(from.temperature, to.temperature) * 10) / 10,
+        gcs: Math.round(blend(from.gcs, to.gcs)),
+    };
+};
+
+const stageAt = (stages: DeteriorationStage[], minute: number): DeteriorationStage | undefined =>
+    [...stages].reverse().find(stage => stage.atMinute <= minute);
+
+export function computePatientState(caseData: DiagnosticCase, minute: number, performed: PerformedIntervention[]): PatientState {
+    const { stages, interventions } = caseData.trajectory!;
+    const baseline = caseData.vitals!;
+
+    const performedAt = interventions.map(i => performed.find(p => p.intervention === i.intervention)?.atMinute);
+    const allDone = performedAt.every(at => at !== undefined);
+    const doneAt = allDone ? Math.max(0, ...performedAt) : Infinity;
+    const allTimely = allDone && interventions.every((i, idx) => performedAt[idx] <= i.deadlineMinute);
+
+    const stage = stageAt(stages, Math.min(minute, doneAt));
+    const stageVitals = stage?.vitals ?? baseline;
+    const symptoms = stage?.symptoms ?? null;
+
+    if (!allDone) {
+        return { minute, vitals: stageVitals, symptoms, status: stage ? 'deteriorating' : 'stable' };
+    }
+    if (!allTimely || !stage) {
+        return { minute, vitals: stageVitals, symptoms, status: stage ? 'stabilised' : 'stable' };
+    }
+
+    const recovery = Math.min(1, (minute - doneAt) / RECOVERY_MINUTES);
+    return {
+        minute,
+        vitals: blendVitals(stageVitals, baseline, recovery),
+        symptoms: recovery < 0.5 ? symptoms : null,
+        status: recovery < 1 ? 'improving' : 'stabilised',
+    };
+}
+
+// Interventions delivered by a treatment order that haven't already been given. An order matches
+// by its formulary id, or by a keyword appearing as a whole word or phrase in its description.
+export function detectInterventions(caseData: DiagnosticCase, order: TreatmentOrder, performed: PerformedIntervention[]): PerformedIntervention[] {
+    const description = describeOrder(order);
+    return (caseData.trajectory?.interventions ?? [])
+        .filter(i => !performed.some(p => p.intervention === i.intervention))
+        .filter(i => i.keywords.includes(order.itemId) || matchesKeyword(description, i.keywords))
+        .map(i => ({ intervention: i.intervention, atMinute: order.atMinute }));
+}
+
+export function summarizeInterventions(caseData: DiagnosticCase, performed: PerformedIntervention[]): InterventionSummary {
+    const summary: InterventionSummary = { timely: [], late: [], missed: [] };
+    (caseData.trajectory?.interventions ?? []).forEach(i => {
+        const given = performed.find(p => p.intervention === i.intervention);
+        if (!given) summary.missed.push(i.intervention);
+        else if (given.atMinute <= i.deadlineMinute) summary.timely.push(i.intervention);
+        else summary.late.push(i.intervention);
+    });
+    return summary;
+}
+
+export const describeVitals = (v: Vitals) =>
+    `HR ${v.heartRate}/min, BP ${v.systolicBP}/${v.diastolicBP} mmHg, RR ${v.respiratoryRate}/min, SpO2 ${v.spo2}%, temperature ${v.temperature} °C, GCS ${v.gcs}`;
+
+// The note the persona is told to follow (see createChatForCase). Null while nothing has changed.
+export function buildPatientStatusNote(state: PatientState): string | null {
+    switch (state.status) {
+        case 'stable':
+            return null;
+        case 'deteriorating':
+            return `[Patient status: getting worse. ${state.symptoms} Vitals now: ${describeVitals(state.vitals)}.]`;
+        case 'improving':
+            return `[Patient status: responding to treatment and starting to feel better. Vitals now: ${describeVitals(state.vitals)}.]`;
+        case 'stabilised':
+            return state.symptoms
+                ? `[Patient status: no longer getting worse, but still unwell. ${state.symptoms} Vitals now: ${describeVitals(state.vitals)}.]`
+                : `[Patient status: stable after treatment. Vitals now: ${describeVitals(state.vitals)}.]`;
+    }
+}
+
+// Prefixes every outgoing message with the current status notes so the persona keeps up with the clock
+// and with the treatments given.
+export function withPatientStatus(chat: ChatSession, getStatusNote: () => string | null): ChatSession {
+    return {
+        sendMessage({ message }) {
+            const note = getStatusNote();
+            return chat.sendMessage({ message: note ? `${note}\n${message}` : message });
+        },
+        sendMessageStream({ message, signal }) {
+            const note = getStatusNote();
+            return chat.sendMessageStream({ message: note ? `${note}\n${message}` : message, signal });
+        },
+    };
+}
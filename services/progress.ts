@@ -0,0 +1,128 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { DiagnosticCase, EPA } from "./geminiService";
+import type { CaseAttempt, NewCaseAttempt, Json } from "./supabaseService";
+import { CaseDebrief } from "./debrief";
+
+// Learner progress over stored case attempts: accuracy per Specialty, EPA, training phase or
+// NMC competency, bucketed by week so growth can be charted over time.
+
+export type ProgressDimension = 'specialty' | 'epa' | 'trainingPhase' | 'competency';
+
+export interface ProgressPoint {
+    weekStart: string; // ISO date of the Monday starting the week
+    accuracy: number; // 0-100
+    attempts: number;
+}
+
+export interface ProgressGroup {
+    label: string;
+    attempts: number;
+    accuracy: number; // 0-100, averaged over every attempt in the group
+    trend: ProgressPoint[];
+}
+
+export interface ProgressOverview {
+    attempts: number;
+    averageScore: number;
+    diagnosisAccuracy: number;
+    trend: ProgressPoint[];
+}
+
+// Score maps as JSON columns. Keys become strings, as they would in any JSON document.
+const scoresToJson = (scores: { [key: string]: number | null | undefined }): { [key: string]: Json } => {
+    const json: { [key: string]: Json } = {};
+    Object.entries(scores).forEach(([key, value]) => {
+        if (value !== undefined) json[key] = value;
+    });
+    return json;
+};
+
+export function buildCaseAttempt(caseData: DiagnosticCase, debrief: CaseDebrief, selectedDiagnosis: string | null, mcqAnswers: Record<number, number>, assignmentId: string | null = null): NewCaseAttempt {
+    const epaScores: Partial<Record<EPA, number | null>> = {};
+    debrief.epaResults.forEach(r => { epaScores[r.epa] = r.score; });
+    return {
+        case_id: caseData.id ?? null,
+        assignment_id: assignmentId,
+        case_title: caseData.title,
+        specialty: caseData.tags.specialty,
+        training_phase: caseData.tags.trainingPhase,
+        cognitive_skill: caseData.tags.cognitiveSkill,
+        epas: caseData.tags.epas,
+        competency: caseData.tags.curriculum?.competency ?? null,
+        selected_diagnosis: selectedDiagnosis,
+        diagnosis_correct: debrief.diagnosisCorrect,
+        mcq_answers: scoresToJson(mcqAnswers),
+        mcq_correct: debrief.mcqCorrect,
+        mcq_total: debrief.mcqTotal,
+        hints_used: debrief.hintsUsed,
+        duration_seconds: Math.round(debrief.elapsedMs / 1000),
+        score: debrief.overallScore,
+        epa_scores: scoresToJson(epaScores),
+    };
+}
+
+const weekStart = (isoDate: string): string => {
+    const date = new Date(isoDate);
+    date.setUTCHours(0, 0, 0, 0);
+    date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+    return date.toISOString().slice(0, 10);
+};
+
+const mean = (values: number[]) => Math.round(values.reduce((sum, v) => sum + v, 0) / values.length);
+
+const toTrend = (scored: { createdAt: string; score: number }[]): ProgressPoint[] => {
+    const weeks = new Map<string, number[]>();
+    scored.forEach(({ createdAt, score }) => {
+        const week = weekStart(createdAt);
+        weeks.set(week, [...(weeks.get(week) ?? []), score]);
+    });
+    return [...weeks.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([week, scores]) => ({ weekStart: week, accuracy: mean(scores), attempts: scores.length }));
+};
+
+// The scores one attempt contributes to a dimension. An attempt counts towards each EPA it assessed.
+const scoresFor = (attempt: CaseAttempt, dimension: ProgressDimension): { label: string; score: number }[] => {
+    switch (dimension) {
+        case 'specialty':
+            return [{ label: attempt.specialty, score: attempt.score }];
+        case 'trainingPhase':
+            return [{ label: attempt.training_phase, score: attempt.score }];
+        case 'competency':
+            return [{ label: attempt.competency ?? 'Unmapped', score: attempt.score }];
+        case 'epa': {
+            const epaScores = (attempt.epa_scores ?? {}) as Partial<Record<EPA, number | null>>;
+            return attempt.epas
+                .filter(epa => typeof epaScores[epa] === 'number')
+                .map(epa => ({ label: epa, score: epaScores[epa] as number }));
+        }
+    }
+};
+
+export function summarizeProgress(attempts: CaseAttempt[], dimension: ProgressDimension): ProgressGroup[] {
+    const groups = new Map<string, { createdAt: string; score: number }[]>();
+    attempts.forEach(attempt => scoresFor(attempt, dimension).forEach(({ label, score }) => {
+        groups.set(label, [...(groups.get(label) ?? []), { createdAt: attempt.created_at, score }]);
+    }));
+    return [...groups.entries()]
+        .map(([label, scored]) => ({
+            label,
+            attempts: scored.length,
+            accuracy: mean(scored.map(s => s.score)),
+            trend: toTrend(scored),
+        }))
+        .sort((a, b) => b.attempts - a.attempts || a.label.localeCompare(b.label));
+}
+
+export function summarizeOverview(attempts: CaseAttempt[]): ProgressOverview | null {
+    if (attempts.length === 0) return null;
+    return {
+        attempts: attempts.length,
+        averageScore: mean(attempts.map(a => a.score)),
+        diagnosisAccuracy: Math.round((attempts.filter(a => a.diagnosis_correct).length / attempts.length) * 100),
+        trend: toTrend(attempts.map(a => ({ createdAt: a.created_at, score: a.score }))),
+    };
+}
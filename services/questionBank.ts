@@ -0,0 +1,160 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { CognitiveSkill, GeneratedQuestion, MCQ, Specialty } from "./geminiService";
+import type { NewQuestionBankItem, QuestionBankItem, QuestionSource, SavedCase } from "./supabaseService";
+
+// Standalone MCQ practice. The pool is every MCQ from the user's stored cases plus any generated
+// question they have answered or flagged before; questions are identified by their text, which
+// is also how their stored statistics and flags are keyed.
+
+export type QuestionBankMode = 'tutor' | 'test';
+
+export interface BankQuestion extends MCQ {
+    source: QuestionSource;
+    caseId: string | null;
+    caseTitle: string | null;
+    specialty: Specialty;
+    competency: string | null;
+    cognitiveSkill: CognitiveSkill;
+}
+
+export interface QuestionBankFilters {
+    specialty?: Specialty;
+    competency?: string;
+    cognitiveSkill?: CognitiveSkill;
+    flaggedOnly?: boolean;
+}
+
+export interface QuestionStats {
+    answered: number;
+    correct: number;
+    accuracy: number | null; // 0-100, null until answered
+}
+
+export const questionsFromCases = (cases: SavedCase[]): BankQuestion[] => cases.flatMap(caseData =>
+    caseData.mcqs.map(mcq => ({
+        ...mcq,
+        source: 'case' as const,
+        caseId: caseData.id,
+        caseTitle: caseData.title,
+        specialty: caseData.tags.specialty,
+        competency: caseData.tags.curriculum?.competency ?? null,
+        cognitiveSkill: caseData.tags.cognitiveSkill,
+    }))
+);
+
+export const questionFromGenerated = (question: GeneratedQuestion): BankQuestion => ({
+    question: question.question,
+    options: question.options,
+    correctAnswerIndex: question.correctAnswerIndex,
+    explanation: question.explanation,
+    source: 'generated',
+    caseId: null,
+    caseTitle: null,
+    specialty: question.specialty,
+    competency: question.competency,
+    cognitiveSkill: question.cognitiveSkill,
+});
+
+export const questionFromItem = (item: QuestionBankItem): BankQuestion => ({
+    question: item.question,
+    options: item.options,
+    correctAnswerIndex: item.correct_answer_index,
+    explanation: item.explanation,
+    source: item.source,
+    caseId: item.case_id,
+    caseTitle: null,
+    specialty: item.specialty,
+    competency: item.competency,
+    cognitiveSkill: item.cognitive_skill,
+});
+
+// Earlier sources win, so a case question keeps its case title when it is also stored as an item.
+export function mergeQuestionPool(...sources: BankQuestion[][]): BankQuestion[] {
+    const pool = new Map<string, BankQuestion>();
+    sources.flat().forEach(q => { if (!pool.has(q.question)) pool.set(q.question, q); });
+    return [...pool.values()];
+}
+
+export const filterQuestions = (
+    questions: BankQuestion[],
+    filters: QuestionBankFilters,
+    items: Map<string, QuestionBankItem>
+): BankQuestion[] => questions.filter(q =>
+    (!filters.specialty || q.specialty === filters.specialty) &&
+    (!filters.competency || q.competency === filters.competency) &&
+    (!filters.cognitiveSkill || q.cognitiveSkill === filters.cognitiveSkill) &&
+    (!filters.flaggedOnly || items.get(q.question)?.flagged)
+);
+
+// Questions not yet answered come first, then the ones answered least accurately; ties are shuffled.
+export function buildPracticeSet(
+    questions: BankQuestion[],
+    items: Map<string, QuestionBankItem>,
+    size: number,
+    random: () => number = Math.random
+): BankQuestion[] {
+    const priority = (q: BankQuestion) => statsFor(items.get(q.question)).accuracy ?? -1;
+    return questions
+        .map(q => ({ q, priority: priority(q), tieBreak: random() }))
+        .sort((a, b) => a.priority - b.priority || a.tieBreak - b.tieBreak)
+        .slice(0, size)
+        .map(({ q }) => q);
+}
+
+export const statsFor = (item: QuestionBankItem | undefined): QuestionStats => ({
+    answered: item?.times_answered ?? 0,
+    correct: item?.correct_count ?? 0,
+    accuracy: item && item.times_answered > 0 ? Math.round((item.correct_count / item.times_answered) * 100) : null,
+});
+
+const toItem = (question: BankQuestion, existing: QuestionBankItem | undefined): NewQuestionBankItem => ({
+    question: question.question,
+    options: question.options,
+    correct_answer_index: question.correctAnswerIndex,
+    explanation: question.explanation,
+    source: question.source,
+    case_id: question.caseId,
+    specialty: question.specialty,
+    competency: question.competency,
+    cognitive_skill: question.cognitiveSkill,
+    flagged: existing?.flagged ?? false,
+    times_answered: existing?.times_answered ?? 0,
+    correct_count: existing?.correct_count ?? 0,
+    last_answered_at: existing?.last_answered_at ?? null,
+});
+
+export function recordAnswer(question: BankQuestion, existing: QuestionBankItem | undefined, selectedIndex: number, now = new Date()): NewQuestionBankItem {
+    const item = toItem(question, existing);
+    return {
+        ...item,
+        times_answered: item.times_answered + 1,
+        correct_count: item.correct_count + (selectedIndex === question.correctAnswerIndex ? 1 : 0),
+        last_answered_at: now.toISOString(),
+    };
+}
+
+export const toggleFlag = (question: BankQuestion, existing: QuestionBankItem | undefined): NewQuestionBankItem =>
+    ({ ...toItem(question, existing), flagged: !existing?.flagged });
+
+// The local copy of an item while it is being saved; replaced by the stored row once the save returns.
+export const optimisticItem = (item: NewQuestionBankItem, existing: QuestionBankItem | undefined, userId: string, now = new Date()): QuestionBankItem => ({
+    id: existing?.id ?? crypto.randomUUID(),
+    user_id: userId,
+    created_at: existing?.created_at ?? now.toISOString(),
+    question: item.question,
+    options: item.options,
+    correct_answer_index: item.correct_answer_index,
+    explanation: item.explanation,
+    source: item.source,
+    case_id: item.case_id ?? null,
+    specialty: item.specialty,
+    competency: item.competency ?? null,
+    cognitive_skill: item.cognitive_skill,
+    flagged: item.flagged ?? false,
+    times_answered: item.times_answered ?? 0,
+    correct_count: item.correct_count ?? 0,
+    last_answered_at: item.last_answered_at ?? null,
+});
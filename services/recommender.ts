@@ -0,0 +1,129 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { EPA, EPAS, Specialty, SPECIALTIES } from "./geminiService";
+import type { CaseAttempt } from "./supabaseService";
+
+// Adaptive case selection. The next case's specialty is drawn at random, weighted towards the
+// learner's weakest specialties, with a share of purely random picks and a penalty on recent
+// specialties so the same weakness isn't drilled case after case. The EPA focus goes to the
+// weakest EPA, and Challenge Mode is switched on once recent scores are consistently high.
+
+export interface CaseRecommendation {
+    specialty: Specialty;
+    epas: EPA[];
+    challengeMode: boolean;
+    reasons: string[];
+}
+
+// Unseen specialties are treated as if already attempted PRIOR_WEIGHT times at PRIOR_SCORE.
+const PRIOR_SCORE = 50;
+const PRIOR_WEIGHT = 2;
+const VARIETY_RATE = 0.2;
+const RECENT_WINDOW = 2;
+const RECENT_PENALTY = 0.3;
+const DIFFICULTY_WINDOW = 5;
+const MIN_ATTEMPTS_FOR_CHALLENGE = 3;
+const CHALLENGE_THRESHOLD = 75;
+const STRUGGLING_THRESHOLD = 50;
+
+interface SpecialtyStats {
+    specialty: Specialty;
+    attempts: number;
+    average: number | null;
+    smoothed: number;
+}
+
+const mean = (values: number[]) => Math.round(values.reduce((sum, v) => sum + v, 0) / values.length);
+
+const specialtyStats = (attempts: CaseAttempt[]): SpecialtyStats[] => SPECIALTIES.map(specialty => {
+    const scores = attempts.filter(a => a.specialty === specialty).map(a => a.score);
+    const total = scores.reduce((sum, s) => sum + s, 0);
+    return {
+        specialty,
+        attempts: scores.length,
+        average: scores.length > 0 ? mean(scores) : null,
+        smoothed: (total + PRIOR_SCORE * PRIOR_WEIGHT) / (scores.length + PRIOR_WEIGHT),
+    };
+});
+
+const weightedPick = <T>(items: T[], weights: number[], random: () => number): T => {
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    let target = random() * total;
+    for (let i = 0; i < items.length; i++) {
+        target -= weights[i];
+        if (target < 0) return items[i];
+    }
+    return items[items.length - 1];
+};
+
+const pickSpecialty = (attempts: CaseAttempt[], random: () => number): { specialty: Specialty; reason: string } => {
+    const stats = specialtyStats(attempts);
+    const recent = attempts.slice(-RECENT_WINDOW).map(a => a.specialty);
+
+    if (attempts.length === 0 || random() < VARIETY_RATE) {
+        const { specialty, attempts: count } = stats[Math.floor(random() * stats.length)];
+        return {
+            specialty,
+            reason: attempts.length === 0
+                ? `${specialty} was picked at random; recommendations adapt once you finish a few cases.`
+                : count === 0
+                    ? `${specialty} was picked for variety: you haven't tried any cases in it yet.`
+                    : `${specialty} was picked for variety, to keep your practice broad.`,
+        };
+    }
+
+    const weights = stats.map(s => (100 - s.smoothed) ** 2 * (recent.includes(s.specialty) ? RECENT_PENALTY : 1));
+    const picked = weightedPick(stats, weights, random);
+    const weakest = [...stats].filter(s => s.average !== null).sort((a, b) => a.average - b.average)[0];
+    return {
+        specialty: picked.specialty,
+        reason: picked.average === null
+            ? `You haven't tried any ${picked.specialty} cases yet.`
+            : `Your average in ${picked.specialty} is ${picked.average}% over ${picked.attempts} case${picked.attempts === 1 ? '' : 's'}, ${picked.specialty === weakest?.specialty ? 'your weakest specialty' : 'one of your weaker specialties'}.`,
+    };
+};
+
+const pickEpa = (attempts: CaseAttempt[], random: () => number): { epa: EPA; reason: string } => {
+    const averages = EPAS.map(epa => {
+        const scores = attempts
+            .map(a => (a.epa_scores as Partial<Record<EPA, number | null>> | null)?.[epa])
+            .filter((s): s is number => typeof s === 'number');
+        return { epa, average: scores.length > 0 ? mean(scores) : null };
+    });
+
+    const unassessed = averages.filter(a => a.average === null);
+    if (unassessed.length > 0) {
+        const { epa } = unassessed[Math.floor(random() * unassessed.length)];
+        return { epa, reason: `${epa} hasn't been assessed in any of your cases yet.` };
+    }
+    const weakest = [...averages].sort((a, b) => a.average - b.average)[0];
+    return { epa: weakest.epa, reason: `${weakest.epa} is your weakest EPA, averaging ${weakest.average}%.` };
+};
+
+const pickDifficulty = (attempts: CaseAttempt[]): { challengeMode: boolean; reason: string | null } => {
+    const recent = attempts.slice(-DIFFICULTY_WINDOW);
+    if (recent.length < MIN_ATTEMPTS_FOR_CHALLENGE) return { challengeMode: false, reason: null };
+    const average = mean(recent.map(a => a.score));
+    if (average >= CHALLENGE_THRESHOLD) {
+        return { challengeMode: true, reason: `Your last ${recent.length} cases averaged ${average}%, so this one is in Challenge Mode.` };
+    }
+    if (average < STRUGGLING_THRESHOLD) {
+        return { challengeMode: false, reason: `Your last ${recent.length} cases averaged ${average}%, so this one is at standard difficulty.` };
+    }
+    return { challengeMode: false, reason: null };
+};
+
+// attempts must be oldest first, as returned by getCaseAttempts.
+export function recommendCase(attempts: CaseAttempt[], random: () => number = Math.random): CaseRecommendation {
+    const { specialty, reason: specialtyReason } = pickSpecialty(attempts, random);
+    const { epa, reason: epaReason } = pickEpa(attempts, random);
+    const { challengeMode, reason: difficultyReason } = pickDifficulty(attempts);
+    return {
+        specialty,
+        epas: [epa],
+        challengeMode,
+        reasons: [specialtyReason, epaReason, difficultyReason].filter(Boolean),
+    };
+}
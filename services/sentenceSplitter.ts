@@ -0,0 +1,49 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Cuts a streamed patient reply into sentences as it arrives, so speech for the first sentence
+// can start while the rest is still being generated. A sentence ends at terminal punctuation
+// (with any closing quotes or brackets) followed by whitespace, or at a line break; the text
+// after the last boundary is held back until more arrives or the stream ends.
+
+export interface SentenceSplitter {
+    push(delta: string): string[];
+    flush(): string[];
+}
+
+const SENTENCE_END = /[.!?…]+["'”’)\]]*\s+|\n+/g;
+
+// Titles a patient is likely to use ("Dr. Sharma"), which shouldn't end a sentence.
+const ABBREVIATIONS = /\b(?:Dr|Mr|Mrs|Ms|Sr|Jr|St|vs|etc|approx|e\.g|i\.e)\.["'”’)\]]*\s+$/i;
+
+export function createSentenceSplitter(): SentenceSplitter {
+    let buffer = '';
+
+    const take = (): string[] => {
+        const sentences: string[] = [];
+        let start = 0;
+        for (const match of buffer.matchAll(SENTENCE_END)) {
+            const end = match.index! + match[0].length;
+            if (ABBREVIATIONS.test(buffer.slice(start, end))) continue;
+            const sentence = buffer.slice(start, end).trim();
+            if (sentence) sentences.push(sentence);
+            start = end;
+        }
+        buffer = buffer.slice(start);
+        return sentences;
+    };
+
+    return {
+        push(delta) {
+            buffer += delta;
+            return take();
+        },
+        flush() {
+            const rest = buffer.trim();
+            buffer = '';
+            return rest ? [rest] : [];
+        },
+    };
+}
@@ -0,0 +1,10 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// The patient's simulated clock. Patient time runs ten times faster than real time, so a 30-minute
+// deterioration unfolds over three minutes of play. Investigation turnaround is scaled separately.
+export const SIMULATED_MS_PER_MINUTE = 6000;
+
+export const toSimulatedMinutes = (elapsedMs: number): number => elapsedMs / SIMULATED_MS_PER_MINUTE;
@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { DiagnosticCase, MCQ } from "./geminiService";
+import type { NewReviewCard, ReviewCard, ReviewCardSchedule } from "./supabaseService";
+
+// SM-2 scheduling for the MCQ review deck. Each review is graded 0-5: anything below 3 is a
+// lapse and the card starts over at a one-day interval; otherwise the interval grows by the
+// card's ease factor, which itself drifts up for easy recalls and down for hard ones.
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export const REVIEW_GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+
+const GRADE_QUALITY: Record<ReviewGrade, number> = { again: 1, hard: 3, good: 4, easy: 5 };
+
+export const REVIEW_SESSION_SIZE = 20;
+
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const addDays = (from: Date, days: number) => new Date(from.getTime() + days * DAY_MS).toISOString();
+
+// A newly added card is first due the next day, so the explanation just read isn't tested straight away.
+export function createReviewCard(caseData: DiagnosticCase, mcq: MCQ, now = new Date()): NewReviewCard {
+    const { patientProfile, chiefComplaint } = caseData;
+    const diagnosis = caseData.potentialDiagnoses.find(d => d.isCorrect)?.diagnosis;
+    return {
+        case_id: caseData.id ?? null,
+        case_title: caseData.title,
+        case_context: `A ${patientProfile.age}-year-old ${patientProfile.gender.toLowerCase()} presenting with "${chiefComplaint}"${diagnosis ? `, diagnosed with ${diagnosis}` : ''}.`,
+        specialty: caseData.tags.specialty,
+        question: mcq.question,
+        options: mcq.options,
+        correct_answer_index: mcq.correctAnswerIndex,
+        explanation: mcq.explanation,
+        ease_factor: INITIAL_EASE,
+        interval_days: 0,
+        repetitions: 0,
+        due_at: addDays(now, 1),
+        last_reviewed_at: null,
+    };
+}
+
+export function scheduleReview(card: ReviewCard, grade: ReviewGrade, now = new Date()): ReviewCardSchedule {
+    const quality = GRADE_QUALITY[grade];
+    const easeFactor = Math.max(MIN_EASE, card.ease_factor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+
+    if (quality < 3) {
+        return { ease_factor: easeFactor, interval_days: 1, repetitions: 0, due_at: addDays(now, 1), last_reviewed_at: now.toISOString() };
+    }
+
+    const repetitions = card.repetitions + 1;
+    const intervalDays = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(card.interval_days * easeFactor);
+    return {
+        ease_factor: easeFactor,
+        interval_days: intervalDays,
+        repetitions,
+        due_at: addDays(now, intervalDays),
+        last_reviewed_at: now.toISOString(),
+    };
+}
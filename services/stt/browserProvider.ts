@@ -0,0 +1,87 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { SttProvider, RecognitionOptions, RecognitionSession, joinTranscript } from "./types";
+
+// The Web Speech API's recogniser (Chrome, Edge and Safari; Chrome sends the audio to Google).
+// TypeScript's DOM library doesn't declare the recogniser itself, only its result types, so the
+// part used here is declared locally.
+interface BrowserSpeechRecognition {
+    lang: string;
+    continuous: boolean;
+    interimResults: boolean;
+    onresult: ((event: { resultIndex: number; results: SpeechRecognitionResultList }) => void) | null;
+    onerror: ((event: { error: string; message?: string }) => void) | null;
+    onend: (() => void) | null;
+    start(): void;
+    stop(): void;
+    abort(): void;
+}
+
+type RecognitionConstructor = new () => BrowserSpeechRecognition;
+
+const getRecognitionConstructor = (): RecognitionConstructor | undefined => {
+    if (typeof window === 'undefined') return undefined;
+    const speechWindow = window as unknown as { SpeechRecognition?: RecognitionConstructor; webkitSpeechRecognition?: RecognitionConstructor };
+    return speechWindow.SpeechRecognition ?? speechWindow.webkitSpeechRecognition;
+};
+
+const ERROR_MESSAGES: Record<string, string> = {
+    'not-allowed': "Microphone access was blocked. Allow it in your browser's site settings to ask questions by voice.",
+    'service-not-allowed': "Speech recognition isn't available in this browser.",
+    'audio-capture': "No microphone was found.",
+    'network': "Speech recognition needs an internet connection.",
+    'language-not-supported': "This language isn't supported for speech recognition in this browser.",
+};
+
+export function createBrowserSttProvider(): SttProvider {
+    return {
+        name: 'browser',
+
+        isSupported: () => getRecognitionConstructor() !== undefined,
+
+        start({ language, onTranscript, onError }: RecognitionOptions): RecognitionSession {
+            const Recognition = getRecognitionConstructor();
+            if (!Recognition) throw new Error("Speech recognition is not supported in this browser.");
+
+            const recognition = new Recognition();
+            recognition.lang = language;
+            recognition.continuous = true;
+            recognition.interimResults = true;
+
+            let transcript = { final: '', interim: '' };
+            let resolveEnded: () => void;
+            const ended = new Promise<void>(resolve => { resolveEnded = resolve; });
+
+            recognition.onresult = ({ results }) => {
+                const final: string[] = [];
+                const interim: string[] = [];
+                for (const result of Array.from(results)) {
+                    (result.isFinal ? final : interim).push(result[0].transcript);
+                }
+                transcript = { final: final.join(' '), interim: interim.join(' ') };
+                onTranscript(transcript);
+            };
+            recognition.onerror = ({ error, message }) => {
+                // 'aborted' follows cancel(), and 'no-speech' just means the student stayed quiet.
+                if (error === 'aborted' || error === 'no-speech') return;
+                onError(new Error(ERROR_MESSAGES[error] ?? message ?? `Speech recognition failed (${error}).`));
+            };
+            recognition.onend = () => resolveEnded();
+            recognition.start();
+
+            return {
+                async stop() {
+                    recognition.stop();
+                    await ended;
+                    return joinTranscript(transcript);
+                },
+                cancel() {
+                    recognition.onresult = null;
+                    recognition.abort();
+                },
+            };
+        },
+    };
+}
@@ -0,0 +1,35 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { SttProvider } from "./types";
+import { createBrowserSttProvider } from "./browserProvider";
+import { createMockSttProvider } from "./mockProvider";
+
+export * from "./types";
+export { createBrowserSttProvider, createMockSttProvider };
+
+export type SttProviderName = 'browser' | 'mock';
+
+let providerOverride: SttProvider | null = null;
+
+export function createSttProvider(name: string | undefined): SttProvider {
+    switch (name) {
+        case 'mock': return createMockSttProvider();
+        case 'browser':
+        case undefined:
+        case '':
+            return createBrowserSttProvider();
+        default:
+            throw new Error(`Unknown speech recognition provider "${name}". Expected one of: browser, mock.`);
+    }
+}
+
+// Chosen by STT_PROVIDER (default: the browser's recogniser).
+export function getSttProvider(): SttProvider {
+    return providerOverride ?? createSttProvider(process.env.STT_PROVIDER);
+}
+
+export function setSttProvider(provider: SttProvider | null): void {
+    providerOverride = provider;
+}
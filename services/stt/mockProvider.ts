@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { SttProvider, RecognitionOptions, RecognitionSession, joinTranscript } from "./types";
+
+// A microphone-free recogniser that "hears" a fixed utterance, one word per tick as interim text,
+// and settles it when stopped. Deterministic, for development and automated tests.
+export const MOCK_UTTERANCES: Record<RecognitionOptions['language'], string> = {
+    'en-IN': 'When did the pain start',
+    'hi-IN': 'दर्द कब शुरू हुआ',
+};
+
+export function createMockSttProvider(utterances: Record<RecognitionOptions['language'], string> = MOCK_UTTERANCES, tickMs = 150): SttProvider {
+    return {
+        name: 'mock',
+
+        isSupported: () => true,
+
+        start({ language, onTranscript }: RecognitionOptions): RecognitionSession {
+            const words = utterances[language].split(' ');
+            let heard = 0;
+            const timer = setInterval(() => {
+                if (heard >= words.length) return;
+                heard++;
+                onTranscript({ final: '', interim: words.slice(0, heard).join(' ') });
+            }, tickMs);
+
+            return {
+                async stop() {
+                    clearInterval(timer);
+                    const transcript = { final: words.slice(0, heard).join(' '), interim: '' };
+                    onTranscript(transcript);
+                    return joinTranscript(transcript);
+                },
+                cancel() {
+                    clearInterval(timer);
+                },
+            };
+        },
+    };
+}
@@ -0,0 +1,38 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export type RecognitionLanguage = 'en-IN' | 'hi-IN';
+
+export const RECOGNITION_LANGUAGES: { code: RecognitionLanguage; label: string }[] = [
+    { code: 'en-IN', label: 'English (India)' },
+    { code: 'hi-IN', label: 'हिन्दी' },
+];
+
+export interface Transcript {
+    final: string; // settled text; the recogniser won't revise it
+    interim: string; // the current best guess for speech still in progress
+}
+
+export interface RecognitionOptions {
+    language: RecognitionLanguage;
+    onTranscript: (transcript: Transcript) => void;
+    onError: (error: Error) => void;
+}
+
+export interface RecognitionSession {
+    // Stops listening and resolves with the whole transcript, including any words still interim.
+    stop(): Promise<string>;
+    // Stops listening and discards what was heard.
+    cancel(): void;
+}
+
+export interface SttProvider {
+    readonly name: string;
+    isSupported(): boolean;
+    start(options: RecognitionOptions): RecognitionSession;
+}
+
+export const joinTranscript = ({ final, interim }: Transcript): string =>
+    [final, interim].map(part => part.trim()).filter(Boolean).join(' ');
@@ -3,7 +3,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 import { createClient, Session, User, AuthError } from '@supabase/supabase-js';
-import { TrainingPhase } from './geminiService';
+import { TrainingPhase, Specialty, CognitiveSkill, EPA, DiagnosticCase } from './geminiService';
 
 // Define the Json type locally, as it's no longer exported from supabase-js
 export type Json =
@@ -19,6 +19,10 @@ export type Json =
 
 // Define the enum type separately to avoid potential circular dependencies in the Database type.
 export type NotificationTypeEnum = "achievement" | "reminder" | "new_feature" | "system_message";
+export type QuestionSource = "case" | "generated";
+// Roles are granted in the database (the default is student); users can't change their own.
+export type UserRole = "student" | "faculty";
+export type InviteStatus = "pending" | "accepted" | "declined";
 
 // To fix TypeScript errors like "Type instantiation is excessively deep", the schema must be
 // structured correctly for the Supabase client's type inference. We define enums within the
@@ -26,8 +30,153 @@ export type NotificationTypeEnum = "achievement" | "reminder" | "new_feature" |
 export type Database = {
   public: {
     Tables: {
+      cases: {
+        Row: {
+          case_data: Json
+          cognitive_skill: CognitiveSkill
+          competency: string | null
+          created_at: string
+          epas: EPA[]
+          id: string
+          specialty: Specialty
+          title: string
+          training_phase: TrainingPhase
+          user_id: string
+        }
+        Insert: {
+          case_data: Json
+          cognitive_skill: CognitiveSkill
+          competency?: string | null
+          created_at?: string
+          epas?: EPA[]
+          id?: string
+          specialty: Specialty
+          title: string
+          training_phase: TrainingPhase
+          user_id: string
+        }
+        Update: {
+          case_data?: Json
+          cognitive_skill?: CognitiveSkill
+          competency?: string | null
+          created_at?: string
+          epas?: EPA[]
+          id?: string
+          specialty?: Specialty
+          title?: string
+          training_phase?: TrainingPhase
+          user_id?: string
+        }
+      }
+      case_attempts: {
+        Row: {
+          assignment_id: string | null
+          case_id: string | null
+          case_title: string
+          cognitive_skill: CognitiveSkill
+          competency: string | null
+          created_at: string
+          diagnosis_correct: boolean
+          duration_seconds: number
+          epa_scores: Json
+          epas: EPA[]
+          hints_used: number
+          id: string
+          mcq_answers: Json
+          mcq_correct: number
+          mcq_total: number
+          score: number
+          selected_diagnosis: string | null
+          specialty: Specialty
+          training_phase: TrainingPhase
+          user_id: string
+        }
+        Insert: {
+          assignment_id?: string | null
+          case_id?: string | null
+          case_title: string
+          cognitive_skill: CognitiveSkill
+          competency?: string | null
+          created_at?: string
+          diagnosis_correct: boolean
+          duration_seconds: number
+          epa_scores?: Json
+          epas?: EPA[]
+          hints_used?: number
+          id?: string
+          mcq_answers?: Json
+          mcq_correct: number
+          mcq_total: number
+          score: number
+          selected_diagnosis?: string | null
+          specialty: Specialty
+          training_phase: TrainingPhase
+          user_id: string
+        }
+        Update: {
+          assignment_id?: string | null
+          case_id?: string | null
+          case_title?: string
+          cognitive_skill?: CognitiveSkill
+          competency?: string | null
+          created_at?: string
+          diagnosis_correct?: boolean
+          duration_seconds?: number
+          epa_scores?: Json
+          epas?: EPA[]
+          hints_used?: number
+          id?: string
+          mcq_answers?: Json
+          mcq_correct?: number
+          mcq_total?: number
+          score?: number
+          selected_diagnosis?: string | null
+          specialty?: Specialty
+          training_phase?: TrainingPhase
+          user_id?: string
+        }
+      }
+      exam_attempts: {
+        Row: {
+          blueprint_version: string
+          correct_count: number
+          created_at: string
+          duration_seconds: number
+          exam_id: string
+          id: string
+          question_count: number
+          score: number
+          specialty_scores: Json
+          user_id: string
+        }
+        Insert: {
+          blueprint_version: string
+          correct_count: number
+          created_at?: string
+          duration_seconds: number
+          exam_id: string
+          id?: string
+          question_count: number
+          score: number
+          specialty_scores: Json
+          user_id: string
+        }
+        Update: {
+          blueprint_version?: string
+          correct_count?: number
+          created_at?: string
+          duration_seconds?: number
+          exam_id?: string
+          id?: string
+          question_count?: number
+          score?: number
+          specialty_scores?: Json
+          user_id?: string
+        }
+      }
       notifications: {
         Row: {
+          archived_at: string | null
           created_at: string
           id: number
           is_read: boolean
@@ -38,6 +187,7 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          archived_at?: string | null
           created_at?: string
           id?: number
           is_read?: boolean
@@ -48,6 +198,7 @@ export type Database = {
           user_id: string
         }
         Update: {
+          archived_at?: string | null
           created_at?: string
           id?: number
           is_read?: boolean
@@ -58,16 +209,248 @@ export type Database = {
           user_id?: string
         }
       }
+      question_bank_items: {
+        Row: {
+          case_id: string | null
+          cognitive_skill: CognitiveSkill
+          competency: string | null
+          correct_answer_index: number
+          correct_count: number
+          created_at: string
+          explanation: string
+          flagged: boolean
+          id: string
+          last_answered_at: string | null
+          options: string[]
+          question: string
+          source: QuestionSource
+          specialty: Specialty
+          times_answered: number
+          user_id: string
+        }
+        Insert: {
+          case_id?: string | null
+          cognitive_skill: CognitiveSkill
+          competency?: string | null
+          correct_answer_index: number
+          correct_count?: number
+          created_at?: string
+          explanation: string
+          flagged?: boolean
+          id?: string
+          last_answered_at?: string | null
+          options: string[]
+          question: string
+          source: QuestionSource
+          specialty: Specialty
+          times_answered?: number
+          user_id: string
+        }
+        Update: {
+          case_id?: string | null
+          cognitive_skill?: CognitiveSkill
+          competency?: string | null
+          correct_answer_index?: number
+          correct_count?: number
+          created_at?: string
+          explanation?: string
+          flagged?: boolean
+          id?: string
+          last_answered_at?: string | null
+          options?: string[]
+          question?: string
+          source?: QuestionSource
+          specialty?: Specialty
+          times_answered?: number
+          user_id?: string
+        }
+      }
+      review_cards: {
+        Row: {
+          case_context: string
+          case_id: string | null
+          case_title: string
+          correct_answer_index: number
+          created_at: string
+          due_at: string
+          ease_factor: number
+          explanation: string
+          id: string
+          interval_days: number
+          last_reviewed_at: string | null
+          options: string[]
+          question: string
+          repetitions: number
+          specialty: Specialty
+          user_id: string
+        }
+        Insert: {
+          case_context: string
+          case_id?: string | null
+          case_title: string
+          correct_answer_index: number
+          created_at?: string
+          due_at: string
+          ease_factor?: number
+          explanation: string
+          id?: string
+          interval_days?: number
+          last_reviewed_at?: string | null
+          options: string[]
+          question: string
+          repetitions?: number
+          specialty: Specialty
+          user_id: string
+        }
+        Update: {
+          case_context?: string
+          case_id?: string | null
+          case_title?: string
+          correct_answer_index?: number
+          created_at?: string
+          due_at?: string
+          ease_factor?: number
+          explanation?: string
+          id?: string
+          interval_days?: number
+          last_reviewed_at?: string | null
+          options?: string[]
+          question?: string
+          repetitions?: number
+          specialty?: Specialty
+          user_id?: string
+        }
+      }
+      cohorts: {
+        Row: {
+          created_at: string
+          description: string | null
+          faculty_id: string
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          faculty_id: string
+          id?: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          faculty_id?: string
+          id?: string
+          name?: string
+        }
+      }
+      cohort_members: {
+        Row: {
+          cohort_id: string
+          joined_at: string
+          student_id: string
+        }
+        Insert: {
+          cohort_id: string
+          joined_at?: string
+          student_id: string
+        }
+        Update: {
+          cohort_id?: string
+          joined_at?: string
+          student_id?: string
+        }
+      }
+      cohort_invites: {
+        Row: {
+          cohort_id: string
+          cohort_name: string
+          created_at: string
+          email: string
+          id: string
+          status: InviteStatus
+        }
+        Insert: {
+          cohort_id: string
+          cohort_name: string
+          created_at?: string
+          email: string
+          id?: string
+          status?: InviteStatus
+        }
+        Update: {
+          cohort_id?: string
+          cohort_name?: string
+          created_at?: string
+          email?: string
+          id?: string
+          status?: InviteStatus
+        }
+      }
+      assignments: {
+        Row: {
+          case_id: string | null
+          cohort_id: string
+          created_at: string
+          created_by: string
+          due_at: string
+          id: string
+          instructions: string | null
+          preset: Json | null
+          title: string
+        }
+        Insert: {
+          case_id?: string | null
+          cohort_id: string
+          created_at?: string
+          created_by: string
+          due_at: string
+          id?: string
+          instructions?: string | null
+          preset?: Json | null
+          title: string
+        }
+        Update: {
+          case_id?: string | null
+          cohort_id?: string
+          created_at?: string
+          created_by?: string
+          due_at?: string
+          id?: string
+          instructions?: string | null
+          preset?: Json | null
+          title?: string
+        }
+      }
+      user_achievements: {
+        Row: {
+          achievement_id: string
+          earned_at: string
+          user_id: string
+        }
+        Insert: {
+          achievement_id: string
+          earned_at?: string
+          user_id: string
+        }
+        Update: {
+          achievement_id?: string
+          earned_at?: string
+          user_id?: string
+        }
+      }
       profiles: {
         Row: {
           email: string
           full_name: string | null
           id: string
+          role: UserRole
         }
         Insert: {
           email: string
           full_name?: string | null
           id: string
+          role?: UserRole
         }
         Update: {
           email?: string
@@ -77,9 +460,18 @@ export type Database = {
       }
     }
     Views: {}
-    Functions: {}
+    Functions: {
+      // Share (0-100) of all users' exam attempts that scored below exam_score. Runs as a
+      // security definer so percentiles can be computed without exposing other users' rows.
+      exam_percentile: {
+        Args: { exam_score: number }
+        Returns: number
+      }
+    }
     Enums: {
+      invite_status: InviteStatus
       notification_type: NotificationTypeEnum
+      user_role: UserRole
     }
     CompositeTypes: {}
   }
@@ -103,6 +495,40 @@ export type Profile = Database['public']['Tables']['profiles']['Row'] & {
   training_phase: TrainingPhase | null;
 };
 export type Notification = Database['public']['Tables']['notifications']['Row'];
+export type NewNotification = Omit<Database['public']['Tables']['notifications']['Insert'], 'user_id'>;
+export type EarnedAchievement = Database['public']['Tables']['user_achievements']['Row'];
+export type CaseRecord = Database['public']['Tables']['cases']['Row'];
+// One finished run through a case. epa_scores maps each of the case's EPAs to its 0-100 score (null if not assessed).
+export type CaseAttempt = Database['public']['Tables']['case_attempts']['Row'];
+export type NewCaseAttempt = Omit<Database['public']['Tables']['case_attempts']['Insert'], 'user_id'>;
+export type QuestionBankItem = Database['public']['Tables']['question_bank_items']['Row'];
+export type NewQuestionBankItem = Omit<Database['public']['Tables']['question_bank_items']['Insert'], 'user_id'>;
+
+// An MCQ in the learner's spaced-repetition deck, with its SM-2 scheduling state. One card per question per user.
+export type ReviewCard = Database['public']['Tables']['review_cards']['Row'];
+export type NewReviewCard = Omit<Database['public']['Tables']['review_cards']['Insert'], 'user_id'>;
+export type ReviewCardSchedule = Pick<ReviewCard, 'ease_factor' | 'interval_days' | 'repetitions' | 'due_at' | 'last_reviewed_at'>;
+// A submitted mock exam. specialty_scores lists the correct and total answers for each specialty in the exam.
+export type ExamAttempt = Database['public']['Tables']['exam_attempts']['Row'];
+export type NewExamAttempt = Omit<Database['public']['Tables']['exam_attempts']['Insert'], 'user_id'>;
+// A faculty member's group of students, the invites sent to join it, and the cases assigned to it.
+export type Cohort = Database['public']['Tables']['cohorts']['Row'];
+export type CohortInvite = Database['public']['Tables']['cohort_invites']['Row'];
+export type Assignment = Database['public']['Tables']['assignments']['Row'];
+export type NewAssignment = Omit<Database['public']['Tables']['assignments']['Insert'], 'created_by'>;
+export type CohortStudent = Pick<Database['public']['Tables']['profiles']['Row'], 'id' | 'full_name' | 'email'> & { joined_at: string };
+export type AssignmentAttempt = Pick<CaseAttempt, 'assignment_id' | 'user_id' | 'score' | 'created_at'>;
+
+// A case from the library, hydrated back into the shape the simulation expects.
+export type SavedCase = DiagnosticCase & { id: string; created_at: string };
+
+export interface CaseLibraryFilters {
+    specialties?: Specialty[];
+    trainingPhases?: TrainingPhase[];
+    cognitiveSkills?: CognitiveSkill[];
+    epas?: EPA[];
+    competencies?: string[];
+}
 // This type is derived from the enum inside the Database schema for a single source of truth.
 export type NotificationType = NotificationTypeEnum;
 
@@ -137,7 +563,7 @@ export const signOut = async () => {
 export const getUserProfile = async (userId: string): Promise<Database['public']['Tables']['profiles']['Row'] | null> => {
     const { data, error } = await supabase
         .from('profiles')
-        .select('id, full_name, email')
+        .select('id, full_name, email, role')
         .eq('id', userId)
         .single();
     if (error) {
@@ -152,7 +578,7 @@ export const updateUserProfile = async (userId: string, updates: Database['publi
         .from('profiles')
         .update(updates)
         .eq('id', userId)
-        .select('id, full_name, email')
+        .select('id, full_name, email, role')
         .single();
 
     if (error) {
@@ -170,13 +596,28 @@ export const updateUserProfile = async (userId: string, updates: Database['publi
 };
 
 // --- NOTIFICATION FUNCTIONS ---
-export const getNotifications = async (userId: string): Promise<Notification[]> => {
-    const { data, error } = await supabase
+export const NOTIFICATION_PAGE_SIZE = 20;
+
+export interface NotificationQuery {
+    types?: NotificationType[];
+    archived?: boolean;
+    beforeId?: number; // keyset cursor: the smallest id already loaded
+    limit?: number;
+}
+
+// Newest first. Ids are assigned in insert order, so paging on id stays stable while new
+// notifications keep arriving at the top of the list.
+export const getNotifications = async (userId: string, { types, archived = false, beforeId, limit = NOTIFICATION_PAGE_SIZE }: NotificationQuery = {}): Promise<Notification[]> => {
+    let query = supabase
         .from('notifications')
         .select('*')
-        .eq('user_id', userId)
-        .order('created_at', { ascending: false })
-        .limit(50); // Limit to last 50 notifications for performance
+        .eq('user_id', userId);
+    query = archived ? query.not('archived_at', 'is', null) : query.is('archived_at', null);
+    if (types && types.length > 0) query = query.in('type', types);
+    if (beforeId !== undefined) query = query.lt('id', beforeId);
+    const { data, error } = await query
+        .order('id', { ascending: false })
+        .limit(limit);
     if (error) {
         console.error('Error fetching notifications:', error.message);
         return [];
@@ -184,6 +625,39 @@ export const getNotifications = async (userId: string): Promise<Notification[]>
     return data || [];
 };
 
+export const countUnreadNotifications = async (userId: string): Promise<number> => {
+    const { count, error } = await supabase
+        .from('notifications')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .eq('is_read', false)
+        .is('archived_at', null);
+    if (error) {
+        console.error('Error counting notifications:', error.message);
+        return 0;
+    }
+    return count ?? 0;
+};
+
+export interface NotificationChangeHandlers {
+    onInsert: (notification: Notification) => void;
+    onUpdate: (notification: Notification) => void;
+    onDelete: (notificationId: number) => void;
+}
+
+// Streams changes to the user's notifications. Returns a function that closes the channel.
+export const subscribeToNotifications = (userId: string, handlers: NotificationChangeHandlers): (() => void) => {
+    const channel = supabase
+        .channel(`notifications:${userId}`)
+        .on<Notification>('postgres_changes', { event: '*', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` }, payload => {
+            if (payload.eventType === 'INSERT') handlers.onInsert(payload.new);
+            else if (payload.eventType === 'UPDATE') handlers.onUpdate(payload.new);
+            else if (payload.eventType === 'DELETE' && payload.old.id !== undefined) handlers.onDelete(payload.old.id);
+        })
+        .subscribe();
+    return () => { supabase.removeChannel(channel); };
+};
+
 export const markNotificationAsRead = async (notificationId: number, userId: string): Promise<boolean> => {
     const { error } = await supabase
         .from('notifications')
@@ -209,3 +683,488 @@ export const markAllNotificationsAsRead = async (userId: string): Promise<boolea
     }
     return true;
 };
+
+export const setNotificationArchived = async (notificationId: number, userId: string, archived: boolean): Promise<boolean> => {
+    const { error } = await supabase
+        .from('notifications')
+        .update({ archived_at: archived ? new Date().toISOString() : null })
+        .eq('id', notificationId)
+        .eq('user_id', userId);
+    if (error) {
+        console.error('Error archiving notification:', error.message);
+        return false;
+    }
+    return true;
+};
+
+export const deleteNotification = async (notificationId: number, userId: string): Promise<boolean> => {
+    const { error } = await supabase
+        .from('notifications')
+        .delete()
+        .eq('id', notificationId)
+        .eq('user_id', userId);
+    if (error) {
+        console.error('Error deleting notification:', error.message);
+        return false;
+    }
+    return true;
+};
+
+
+// --- ACHIEVEMENT FUNCTIONS ---
+export const getEarnedAchievements = async (userId: string): Promise<EarnedAchievement[]> => {
+    const { data, error } = await supabase
+        .from('user_achievements')
+        .select('*')
+        .eq('user_id', userId)
+        .order('earned_at', { ascending: true });
+    if (error) {
+        console.error('Error fetching achievements:', error.message);
+        return [];
+    }
+    return data || [];
+};
+
+// Records newly earned achievements and sends one notification for each. The (user_id,
+// achievement_id) key makes this idempotent: when two tabs finish cases at once, only the
+// insert that actually created the row sends a notification.
+export const awardAchievements = async (userId: string, awards: { achievementId: string; notification: NewNotification }[]): Promise<Notification[]> => {
+    if (awards.length === 0) return [];
+    const { data: inserted, error } = await supabase
+        .from('user_achievements')
+        .upsert(awards.map(a => ({ user_id: userId, achievement_id: a.achievementId })), { onConflict: 'user_id,achievement_id', ignoreDuplicates: true })
+        .select('achievement_id');
+    if (error) {
+        console.error('Error saving achievements:', error.message);
+        return [];
+    }
+    const newIds = new Set((inserted || []).map(row => row.achievement_id));
+    const notifications = awards.filter(a => newIds.has(a.achievementId)).map(a => ({ ...a.notification, user_id: userId }));
+    if (notifications.length === 0) return [];
+    const { data, error: notificationError } = await supabase
+        .from('notifications')
+        .insert(notifications)
+        .select('*');
+    if (notificationError) {
+        console.error('Error creating achievement notifications:', notificationError.message);
+        return [];
+    }
+    return data || [];
+};
+
+
+// --- CASE LIBRARY FUNCTIONS ---
+const toSavedCase = (record: CaseRecord): SavedCase => ({
+    ...(record.case_data as unknown as DiagnosticCase),
+    id: record.id,
+    created_at: record.created_at,
+});
+
+export const saveCase = async (userId: string, caseData: DiagnosticCase): Promise<SavedCase> => {
+    const id = caseData.id ?? crypto.randomUUID();
+    const { data, error } = await supabase
+        .from('cases')
+        .upsert({
+            id,
+            user_id: userId,
+            title: caseData.title,
+            specialty: caseData.tags.specialty,
+            training_phase: caseData.tags.trainingPhase,
+            cognitive_skill: caseData.tags.cognitiveSkill,
+            epas: caseData.tags.epas,
+            competency: caseData.tags.curriculum?.competency ?? null,
+            case_data: { ...caseData, id } as unknown as Json,
+        })
+        .select('*')
+        .single();
+
+    if (error) {
+        console.error('Error saving case:', error.message);
+        throw error;
+    }
+    return toSavedCase(data);
+};
+
+export const getCases = async (userId: string, filters: CaseLibraryFilters = {}): Promise<SavedCase[]> => {
+    let query = supabase
+        .from('cases')
+        .select('*')
+        .eq('user_id', userId);
+
+    if (filters.specialties && filters.specialties.length > 0) query = query.in('specialty', filters.specialties);
+    if (filters.trainingPhases && filters.trainingPhases.length > 0) query = query.in('training_phase', filters.trainingPhases);
+    if (filters.cognitiveSkills && filters.cognitiveSkills.length > 0) query = query.in('cognitive_skill', filters.cognitiveSkills);
+    if (filters.epas && filters.epas.length > 0) query = query.overlaps('epas', filters.epas);
+    if (filters.competencies && filters.competencies.length > 0) query = query.in('competency', filters.competencies);
+
+    const { data, error } = await query
+        .order('created_at', { ascending: false })
+        .limit(100);
+    if (error) {
+        console.error('Error fetching cases:', error.message);
+        return [];
+    }
+    return (data || []).map(toSavedCase);
+};
+
+export const getCaseById = async (caseId: string, userId: string): Promise<SavedCase | null> => {
+    const { data, error } = await supabase
+        .from('cases')
+        .select('*')
+        .eq('id', caseId)
+        .eq('user_id', userId)
+        .single();
+    if (error) {
+        console.error('Error fetching case:', error.message);
+        return null;
+    }
+    return data ? toSavedCase(data) : null;
+};
+
+export const deleteCase = async (caseId: string, userId: string): Promise<boolean> => {
+    const { error } = await supabase
+        .from('cases')
+        .delete()
+        .eq('id', caseId)
+        .eq('user_id', userId); // Ensure user can only delete their own
+    if (error) {
+        console.error('Error deleting case:', error.message);
+        return false;
+    }
+    return true;
+};
+
+
+// --- CASE ATTEMPT FUNCTIONS ---
+export const saveCaseAttempt = async (userId: string, attempt: NewCaseAttempt): Promise<CaseAttempt> => {
+    const { data, error } = await supabase
+        .from('case_attempts')
+        .insert({ ...attempt, user_id: userId })
+        .select('*')
+        .single();
+
+    if (error) {
+        console.error('Error saving case attempt:', error.message);
+        throw error;
+    }
+    return data;
+};
+
+// The most recent 500 attempts, oldest first so the result can be charted as a time series directly.
+export const getCaseAttempts = async (userId: string): Promise<CaseAttempt[]> => {
+    const { data, error } = await supabase
+        .from('case_attempts')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(500);
+    if (error) {
+        console.error('Error fetching case attempts:', error.message);
+        return [];
+    }
+    return (data || []).reverse();
+};
+
+
+// --- MOCK EXAM FUNCTIONS ---
+// Keyed on exam_id, so saving again after a reload doesn't record the same sitting twice.
+export const saveExamAttempt = async (userId: string, attempt: NewExamAttempt): Promise<ExamAttempt> => {
+    const { data, error } = await supabase
+        .from('exam_attempts')
+        .upsert({ ...attempt, user_id: userId }, { onConflict: 'exam_id' })
+        .select('*')
+        .single();
+
+    if (error) {
+        console.error('Error saving exam attempt:', error.message);
+        throw error;
+    }
+    return data;
+};
+
+export const getExamPercentile = async (score: number): Promise<number | null> => {
+    const { data, error } = await supabase.rpc('exam_percentile', { exam_score: score });
+    if (error) {
+        console.error('Error fetching exam percentile:', error.message);
+        return null;
+    }
+    return data;
+};
+
+
+// --- QUESTION BANK FUNCTIONS ---
+// One row per question the user has answered or flagged, holding the full question so
+// generated ones can be practised again.
+export const getQuestionBankItems = async (userId: string): Promise<QuestionBankItem[]> => {
+    const { data, error } = await supabase
+        .from('question_bank_items')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(1000);
+    if (error) {
+        console.error('Error fetching question bank items:', error.message);
+        return [];
+    }
+    return data || [];
+};
+
+export const saveQuestionBankItem = async (userId: string, item: NewQuestionBankItem): Promise<QuestionBankItem> => {
+    const { data, error } = await supabase
+        .from('question_bank_items')
+        .upsert({ ...item, user_id: userId }, { onConflict: 'user_id,question' })
+        .select('*')
+        .single();
+
+    if (error) {
+        console.error('Error saving question bank item:', error.message);
+        throw error;
+    }
+    return data;
+};
+
+
+// --- COHORT & ASSIGNMENT FUNCTIONS ---
+// Faculty own their cohorts and assignments; students see the cohorts they belong to and the
+// invites sent to their email. Each query filters on that owner column explicitly and reads one
+// table at a time.
+export const getFacultyCohorts = async (facultyId: string): Promise<Cohort[]> => {
+    const { data, error } = await supabase
+        .from('cohorts')
+        .select('*')
+        .eq('faculty_id', facultyId)
+        .order('created_at', { ascending: false });
+    if (error) {
+        console.error('Error fetching cohorts:', error.message);
+        return [];
+    }
+    return data || [];
+};
+
+export const createCohort = async (facultyId: string, name: string, description: string | null): Promise<Cohort> => {
+    const { data, error } = await supabase
+        .from('cohorts')
+        .insert({ faculty_id: facultyId, name, description })
+        .select('*')
+        .single();
+
+    if (error) {
+        console.error('Error creating cohort:', error.message);
+        throw error;
+    }
+    return data;
+};
+
+export const getCohortStudents = async (cohortId: string): Promise<CohortStudent[]> => {
+    const { data: members, error } = await supabase
+        .from('cohort_members')
+        .select('student_id, joined_at')
+        .eq('cohort_id', cohortId);
+    if (error) {
+        console.error('Error fetching cohort members:', error.message);
+        return [];
+    }
+    if (!members || members.length === 0) return [];
+
+    const { data: profiles, error: profileError } = await supabase
+        .from('profiles')
+        .select('id, full_name, email')
+        .in('id', members.map(m => m.student_id));
+    if (profileError) {
+        console.error('Error fetching cohort students:', profileError.message);
+        return [];
+    }
+    const joinedAt = new Map(members.map(m => [m.student_id, m.joined_at]));
+    return (profiles || []).flatMap(p => {
+        const joined_at = joinedAt.get(p.id);
+        return joined_at ? [{ ...p, joined_at }] : [];
+    });
+};
+
+// Emails are stored lowercased so they match however the student typed theirs at sign-up.
+export const inviteToCohort = async (cohort: Cohort, email: string): Promise<CohortInvite> => {
+    const { data, error } = await supabase
+        .from('cohort_invites')
+        .insert({ cohort_id: cohort.id, cohort_name: cohort.name, email: email.trim().toLowerCase() })
+        .select('*')
+        .single();
+
+    if (error) {
+        console.error('Error inviting student:', error.message);
+        throw error;
+    }
+    return data;
+};
+
+export const getCohortInvites = async (cohortId: string): Promise<CohortInvite[]> => {
+    const { data, error } = await supabase
+        .from('cohort_invites')
+        .select('*')
+        .eq('cohort_id', cohortId)
+        .eq('status', 'pending')
+        .order('created_at', { ascending: false });
+    if (error) {
+        console.error('Error fetching cohort invites:', error.message);
+        return [];
+    }
+    return data || [];
+};
+
+export const getPendingInvites = async (email: string): Promise<CohortInvite[]> => {
+    const { data, error } = await supabase
+        .from('cohort_invites')
+        .select('*')
+        .eq('email', email.toLowerCase())
+        .eq('status', 'pending');
+    if (error) {
+        console.error('Error fetching invites:', error.message);
+        return [];
+    }
+    return data || [];
+};
+
+export const respondToInvite = async (invite: CohortInvite, userId: string, accept: boolean): Promise<boolean> => {
+    if (accept) {
+        const { error } = await supabase
+            .from('cohort_members')
+            .insert({ cohort_id: invite.cohort_id, student_id: userId });
+        if (error) {
+            console.error('Error joining cohort:', error.message);
+            return false;
+        }
+    }
+    const { error } = await supabase
+        .from('cohort_invites')
+        .update({ status: accept ? 'accepted' : 'declined' })
+        .eq('id', invite.id);
+    if (error) {
+        console.error('Error updating invite:', error.message);
+        return false;
+    }
+    return true;
+};
+
+export const createAssignment = async (facultyId: string, assignment: NewAssignment): Promise<Assignment> => {
+    const { data, error } = await supabase
+        .from('assignments')
+        .insert({ ...assignment, created_by: facultyId })
+        .select('*')
+        .single();
+
+    if (error) {
+        console.error('Error creating assignment:', error.message);
+        throw error;
+    }
+    return data;
+};
+
+export const getCohortAssignments = async (cohortIds: string[]): Promise<Assignment[]> => {
+    if (cohortIds.length === 0) return [];
+    const { data, error } = await supabase
+        .from('assignments')
+        .select('*')
+        .in('cohort_id', cohortIds)
+        .order('due_at', { ascending: true });
+    if (error) {
+        console.error('Error fetching assignments:', error.message);
+        return [];
+    }
+    return data || [];
+};
+
+export const getStudentAssignments = async (userId: string): Promise<Assignment[]> => {
+    const { data, error } = await supabase
+        .from('cohort_members')
+        .select('cohort_id')
+        .eq('student_id', userId);
+    if (error) {
+        console.error('Error fetching cohort memberships:', error.message);
+        return [];
+    }
+    return getCohortAssignments((data || []).map(m => m.cohort_id));
+};
+
+export const getAssignmentAttempts = async (assignmentIds: string[]): Promise<AssignmentAttempt[]> => {
+    if (assignmentIds.length === 0) return [];
+    const { data, error } = await supabase
+        .from('case_attempts')
+        .select('assignment_id, user_id, score, created_at')
+        .in('assignment_id', assignmentIds);
+    if (error) {
+        console.error('Error fetching assignment attempts:', error.message);
+        return [];
+    }
+    return data || [];
+};
+
+// Not filtered by owner: a student may open a case their faculty assigned.
+export const getAssignedCase = async (caseId: string): Promise<SavedCase | null> => {
+    const { data, error } = await supabase
+        .from('cases')
+        .select('*')
+        .eq('id', caseId)
+        .single();
+    if (error) {
+        console.error('Error fetching assigned case:', error.message);
+        return null;
+    }
+    return data ? toSavedCase(data) : null;
+};
+
+
+// --- REVIEW DECK FUNCTIONS ---
+// Adding a question that is already in the deck resets its schedule, since it was missed again.
+export const addReviewCard = async (userId: string, card: NewReviewCard): Promise<ReviewCard> => {
+    const { data, error } = await supabase
+        .from('review_cards')
+        .upsert({ ...card, user_id: userId }, { onConflict: 'user_id,question' })
+        .select('*')
+        .single();
+
+    if (error) {
+        console.error('Error saving review card:', error.message);
+        throw error;
+    }
+    return data;
+};
+
+export const getDueReviewCards = async (userId: string, limit: number): Promise<ReviewCard[]> => {
+    const { data, error } = await supabase
+        .from('review_cards')
+        .select('*')
+        .eq('user_id', userId)
+        .lte('due_at', new Date().toISOString())
+        .order('due_at', { ascending: true })
+        .limit(limit);
+    if (error) {
+        console.error('Error fetching review cards:', error.message);
+        return [];
+    }
+    return data || [];
+};
+
+export const countDueReviewCards = async (userId: string): Promise<number> => {
+    const { count, error } = await supabase
+        .from('review_cards')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .lte('due_at', new Date().toISOString());
+    if (error) {
+        console.error('Error counting review cards:', error.message);
+        return 0;
+    }
+    return count ?? 0;
+};
+
+export const updateReviewSchedule = async (cardId: string, userId: string, schedule: ReviewCardSchedule): Promise<boolean> => {
+    const { error } = await supabase
+        .from('review_cards')
+        .update(schedule)
+        .eq('id', cardId)
+        .eq('user_id', userId); // Ensure user can only update their own
+    if (error) {
+        console.error('Error updating review card:', error.message);
+        return false;
+    }
+    return true;
+};
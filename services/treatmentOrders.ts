@@ -0,0 +1,139 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { DiagnosticCase } from "./geminiService";
+import {
+    DrugRoute, DoseFrequency, DOSES_PER_DAY, Contraindication,
+    FORMULARY_DRUGS, FORMULARY_FLUIDS, FORMULARY_PROCEDURES,
+} from "./formulary";
+import { matchesKeyword } from "./investigations";
+
+// Treatment orders placed during a case, and the safety review run against the formulary at
+// the end of it. Orders are never blocked: a student can prescribe anything, and unsafe
+// choices are only surfaced in the review.
+
+export type FluidRate = 'Bolus' | 'Over 1 hour' | 'Over 8 hours' | 'Over 24 hours';
+
+export const FLUID_RATES: FluidRate[] = ['Bolus', 'Over 1 hour', 'Over 8 hours', 'Over 24 hours'];
+
+export type TreatmentOrder =
+    | { kind: 'drug'; itemId: string; dose: number; route: DrugRoute; frequency: DoseFrequency; atMinute: number }
+    | { kind: 'fluid'; itemId: string; volumeMl: number; rate: FluidRate; atMinute: number }
+    | { kind: 'procedure'; itemId: string; atMinute: number };
+
+// An order as placed from the UI, before it is stamped with the simulated time.
+type WithoutTime<T> = T extends TreatmentOrder ? Omit<T, 'atMinute'> : never;
+export type NewTreatmentOrder = WithoutTime<TreatmentOrder>;
+
+export interface SafetyIssue {
+    severity: 'warning' | 'danger';
+    message: string;
+}
+
+export interface ReviewedOrder {
+    order: TreatmentOrder;
+    description: string;
+    issues: SafetyIssue[];
+}
+
+// Standard age-based weight estimates; cases don't record a weight.
+export function estimateWeightKg(age: number): number {
+    if (age < 1) return 7;
+    if (age <= 5) return 2 * age + 8;
+    if (age <= 12) return 3 * age + 7;
+    if (age < 16) return 50;
+    return 70;
+}
+
+export function describeOrder(order: TreatmentOrder): string {
+    switch (order.kind) {
+        case 'drug': {
+            const drug = FORMULARY_DRUGS.find(d => d.id === order.itemId);
+            return `${drug?.name ?? order.itemId} ${order.dose} ${drug?.unit ?? ''} ${order.route} ${order.frequency === 'Once' ? 'once' : order.frequency}`.replace(/\s+/g, ' ');
+        }
+        case 'fluid': {
+            const fluid = FORMULARY_FLUIDS.find(f => f.id === order.itemId);
+            return `${fluid?.name ?? order.itemId} ${order.volumeMl} mL ${order.rate.toLowerCase()}`;
+        }
+        case 'procedure':
+            return FORMULARY_PROCEDURES.find(p => p.id === order.itemId)?.name ?? order.itemId;
+    }
+}
+
+const CLAUSE_BREAK = /[.;:,\n]|\bbut\b/i;
+const NEGATION = /\b(?:no|not|denies|denied|without|negative for)\b/i;
+
+// What the case says the patient has. Each clause is cut at its first negation, so "no history of
+// peptic ulcer" doesn't count as a peptic ulcer.
+const caseText = (caseData: DiagnosticCase): string => [
+    caseData.chiefComplaint,
+    caseData.historyOfPresentIllness,
+    caseData.physicalExam,
+    caseData.labResults,
+    caseData.potentialDiagnoses.find(d => d.isCorrect)?.diagnosis ?? '',
+].join('\n').split(CLAUSE_BREAK).map(clause => clause.split(NEGATION)[0]).join('\n');
+
+const contraindicationIssues = (contraindications: Contraindication[], caseData: DiagnosticCase, name: string): SafetyIssue[] => {
+    const text = caseText(caseData);
+    const systolic = caseData.vitals?.systolicBP;
+    return contraindications
+        .filter(c =>
+            (c.keywords !== undefined && matchesKeyword(text, c.keywords))
+            || (c.underAge !== undefined && caseData.patientProfile.age < c.underAge)
+            || (c.systolicBelow !== undefined && systolic !== undefined && systolic < c.systolicBelow))
+        .map(c => ({ severity: 'danger' as const, message: `${name} is contraindicated: ${c.reason}.` }));
+};
+
+export function checkOrderSafety(order: TreatmentOrder, caseData: DiagnosticCase): SafetyIssue[] {
+    const weight = estimateWeightKg(caseData.patientProfile.age);
+
+    switch (order.kind) {
+        case 'drug': {
+            const drug = FORMULARY_DRUGS.find(d => d.id === order.itemId);
+            if (!drug) return [];
+            const issues = contraindicationIssues(drug.contraindications, caseData, drug.name);
+            const limit = drug.routes[order.route];
+            if (!limit) {
+                issues.push({ severity: 'warning', message: `${drug.name} is not given by the ${order.route} route.` });
+                return issues;
+            }
+            const maxSingle = limit.perKg ? Math.min(limit.perKg * weight, limit.maxSingle) : limit.maxSingle;
+            if (order.dose > maxSingle) {
+                issues.push({ severity: 'danger', message: `${order.dose} ${drug.unit} exceeds the maximum single dose of ${+maxSingle.toFixed(2)} ${drug.unit}${limit.perKg ? ` (${limit.perKg} ${drug.unit}/kg for ~${weight} kg)` : ''}.` });
+            }
+            const daily = order.dose * DOSES_PER_DAY[order.frequency];
+            if (drug.maxDaily && daily > drug.maxDaily) {
+                issues.push({ severity: 'danger', message: `${daily} ${drug.unit}/day exceeds the maximum daily dose of ${drug.maxDaily} ${drug.unit}.` });
+            }
+            return issues;
+        }
+        case 'fluid': {
+            const fluid = FORMULARY_FLUIDS.find(f => f.id === order.itemId);
+            if (!fluid) return [];
+            const issues = contraindicationIssues(fluid.contraindications, caseData, fluid.name);
+            if (order.rate === 'Bolus') {
+                if (fluid.maxBolusPerKg === undefined) {
+                    issues.push({ severity: 'danger', message: `${fluid.name} should not be given as a bolus.` });
+                } else if (order.volumeMl > fluid.maxBolusPerKg * weight) {
+                    issues.push({ severity: 'danger', message: `A ${order.volumeMl} mL bolus exceeds ${fluid.maxBolusPerKg} mL/kg (~${Math.round(fluid.maxBolusPerKg * weight)} mL for ~${weight} kg).` });
+                }
+            }
+            return issues;
+        }
+        case 'procedure': {
+            const procedure = FORMULARY_PROCEDURES.find(p => p.id === order.itemId);
+            return procedure ? contraindicationIssues(procedure.contraindications, caseData, procedure.name) : [];
+        }
+    }
+}
+
+export function reviewTreatmentOrders(caseData: DiagnosticCase, orders: TreatmentOrder[]): ReviewedOrder[] {
+    return orders.map(order => ({ order, description: describeOrder(order), issues: checkOrderSafety(order, caseData) }));
+}
+
+// The note the persona receives so replies can reflect what has been given (see createChatForCase).
+export function buildTreatmentNote(orders: TreatmentOrder[]): string | null {
+    if (orders.length === 0) return null;
+    return `[Treatments given: ${orders.map(o => `${describeOrder(o)} at ${Math.floor(o.atMinute)} min`).join('; ')}.]`;
+}
@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Synthesised audio, kept so a line the patient has already said (a repeated question, a
+// relaunched case) isn't paid for twice. Recent clips stay in memory; all clips go to IndexedDB
+// when the browser has it, capped at MAX_STORED_CLIPS with the oldest dropped first.
+
+export interface AudioCache {
+    get(key: string): Promise<Blob | null>;
+    put(key: string, audio: Blob): Promise<void>;
+}
+
+const DB_NAME = 'medanna-tts';
+const STORE = 'clips';
+const MAX_MEMORY_CLIPS = 50;
+const MAX_STORED_CLIPS = 300;
+
+interface StoredClip {
+    key: string;
+    audio: Blob;
+    storedAt: number;
+}
+
+const request = <T>(req: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+    });
+
+const openDatabase = (): Promise<IDBDatabase | null> => {
+    if (typeof indexedDB === 'undefined') return Promise.resolve(null);
+    const open = indexedDB.open(DB_NAME, 1);
+    open.onupgradeneeded = () => {
+        const store = open.result.createObjectStore(STORE, { keyPath: 'key' });
+        store.createIndex('storedAt', 'storedAt');
+    };
+    return request(open).catch(error => {
+        console.warn('Speech cache unavailable, keeping clips in memory only:', error);
+        return null;
+    });
+};
+
+export function createAudioCache(): AudioCache {
+    const memory = new Map<string, Blob>();
+    let database: Promise<IDBDatabase | null> | null = null;
+    const getDatabase = () => (database ??= openDatabase());
+
+    const remember = (key: string, audio: Blob) => {
+        memory.delete(key);
+        memory.set(key, audio);
+        if (memory.size > MAX_MEMORY_CLIPS) memory.delete(memory.keys().next().value!);
+    };
+
+    const prune = async (db: IDBDatabase) => {
+        const store = db.transaction(STORE, 'readwrite').objectStore(STORE);
+        const excess = (await request(store.count())) - MAX_STORED_CLIPS;
+        if (excess <= 0) return;
+        const oldest = await request(store.index('storedAt').getAllKeys(null, excess));
+        oldest.forEach(key => store.delete(key));
+    };
+
+    return {
+        async get(key) {
+            const cached = memory.get(key);
+            if (cached) {
+                remember(key, cached);
+                return cached;
+            }
+            const db = await getDatabase();
+            if (!db) return null;
+            try {
+                const stored: StoredClip | undefined = await request(db.transaction(STORE).objectStore(STORE).get(key));
+                if (!stored) return null;
+                remember(key, stored.audio);
+                return stored.audio;
+            } catch (error) {
+                console.warn('Failed to read from speech cache:', error);
+                return null;
+            }
+        },
+
+        async put(key, audio) {
+            remember(key, audio);
+            const db = await getDatabase();
+            if (!db) return;
+            try {
+                const clip: StoredClip = { key, audio, storedAt: Date.now() };
+                await request(db.transaction(STORE, 'readwrite').objectStore(STORE).put(clip));
+                await prune(db);
+            } catch (error) {
+                console.warn('Failed to write to speech cache:', error);
+            }
+        },
+    };
+}
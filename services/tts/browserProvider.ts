@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { TtsProvider, PreparedSpeech, VoiceProfile } from "./types";
+import { VoiceTraits, voiceTraits } from "./voices";
+
+// The browser's built-in speech synthesis. Free and offline, and the fallback whenever a hosted
+// provider fails. Installed voices differ by platform and rarely say what gender or age they
+// are, so the choice leans on the accent and on well-known voice names, and pitch stands in for age.
+
+const FEMALE_VOICE_NAMES = /female|woman|zira|susan|hazel|heera|kalpana|veena|lekha|samantha|victoria|karen|moira|tessa|fiona|serena/i;
+const MALE_VOICE_NAMES = /\bmale\b|\bman\b|david|mark|george|ravi|hemant|rishi|daniel|alex|fred|oliver|arthur/i;
+
+const AGE_PITCH = { child: 1.4, adult: 1, senior: 0.85 };
+
+// Chrome fills the voice list asynchronously, so wait briefly for it on first use.
+const loadVoices = (): Promise<SpeechSynthesisVoice[]> => {
+    const voices = speechSynthesis.getVoices();
+    if (voices.length > 0) return Promise.resolve(voices);
+    return new Promise(resolve => {
+        const timeout = setTimeout(() => resolve(speechSynthesis.getVoices()), 1000);
+        speechSynthesis.addEventListener('voiceschanged', () => {
+            clearTimeout(timeout);
+            resolve(speechSynthesis.getVoices());
+        }, { once: true });
+    });
+};
+
+function pickBrowserVoice(traits: VoiceTraits, voices: SpeechSynthesisVoice[]): SpeechSynthesisVoice | null {
+    const genderNames = traits.gender === 'Male' ? MALE_VOICE_NAMES : traits.gender === 'Female' ? FEMALE_VOICE_NAMES : null;
+    const language = traits.lang.split('-')[0];
+    const score = (voice: SpeechSynthesisVoice) =>
+        (voice.lang.replace('_', '-') === traits.lang ? 4 : voice.lang.startsWith(language) ? 2 : 0) +
+        (genderNames?.test(voice.name) ? 3 : 0) +
+        (voice.localService ? 1 : 0);
+    const ranked = voices.filter(v => v.lang.startsWith(language)).sort((a, b) => score(b) - score(a));
+    return ranked[0] ?? null;
+}
+
+export function createBrowserProvider(): TtsProvider {
+    return {
+        name: 'browser',
+
+        async prepare(text: string, voice: VoiceProfile): Promise<PreparedSpeech> {
+            if (typeof speechSynthesis === 'undefined') {
+                throw new Error("Speech synthesis is not supported in this browser.");
+            }
+            const traits = voiceTraits(voice);
+            const selected = pickBrowserVoice(traits, await loadVoices());
+            return {
+                play({ volume, speed }) {
+                    const utterance = new SpeechSynthesisUtterance(text);
+                    if (selected) utterance.voice = selected;
+                    utterance.lang = selected?.lang ?? traits.lang;
+                    utterance.pitch = AGE_PITCH[traits.ageGroup];
+                    utterance.volume = volume;
+                    utterance.rate = speed;
+                    let finish: () => void;
+                    const done = new Promise<void>(resolve => { finish = resolve; });
+                    utterance.onend = () => finish();
+                    utterance.onerror = event => {
+                        if (event.error !== 'interrupted' && event.error !== 'canceled') {
+                            console.error("Speech synthesis error:", event.error);
+                        }
+                        finish();
+                    };
+                    speechSynthesis.speak(utterance);
+                    return {
+                        done,
+                        // Speech synthesis fixes volume and rate when a line starts; changes apply from the next line.
+                        setPlayback() {},
+                        stop() {
+                            speechSynthesis.cancel();
+                            finish();
+                        },
+                    };
+                },
+                release() {},
+            };
+        },
+    };
+}
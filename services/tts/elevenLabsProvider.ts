@@ -0,0 +1,122 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { TtsProvider, PreparedSpeech, PlaybackSettings, Utterance, VoiceProfile } from "./types";
+import { CatalogVoice, pickCatalogVoice, voiceTraits } from "./voices";
+import { AudioCache, createAudioCache } from "./audioCache";
+
+const DEFAULT_MODEL = 'eleven_monolingual_v1';
+
+// ElevenLabs premade voices. Custom or cloned voices (an Indian English voice, for instance)
+// can be added here with their traits and will be picked up by voice selection.
+export const ELEVENLABS_VOICES: CatalogVoice[] = [
+    { id: '21m00Tcm4TlvDq8ikWAM', name: 'Rachel', gender: 'Female', ageGroup: 'adult', lang: 'en-US' },
+    { id: 'pNInz6obpgDQGcFmaJgB', name: 'Adam', gender: 'Male', ageGroup: 'adult', lang: 'en-US' },
+    { id: 'ThT5KcBeYPX3keUQqHPh', name: 'Dorothy', gender: 'Female', ageGroup: 'adult', lang: 'en-GB' },
+    { id: 'JBFqnCBsd6RMkjVDRZzb', name: 'George', gender: 'Male', ageGroup: 'adult', lang: 'en-GB' },
+    { id: 'jBpfuIE2acCO8z3wKNLl', name: 'Gigi', gender: 'Female', ageGroup: 'child', lang: 'en-US' },
+    { id: 'flq6f7yk4E4fJM5XTYuZ', name: 'Michael', gender: 'Male', ageGroup: 'senior', lang: 'en-US' },
+];
+
+interface ElevenLabsConfig {
+    apiKey?: string;
+    model?: string;
+    voices?: CatalogVoice[];
+    cache?: AudioCache;
+}
+
+const MEDIA_ERRORS: Record<number, string> = {
+    1: "Playback aborted.",
+    2: "A network error occurred.",
+    3: "The audio could not be decoded; it may be corrupted.",
+    4: "The audio format is not supported.",
+};
+
+function playAudio(audioUrl: string, settings: PlaybackSettings): Utterance {
+    const audio = new Audio(audioUrl);
+    const apply = ({ volume, speed }: PlaybackSettings) => {
+        audio.volume = volume;
+        audio.playbackRate = speed;
+    };
+    apply(settings);
+    let finish: () => void;
+    const done = new Promise<void>(resolve => { finish = resolve; });
+    audio.onended = () => finish();
+    audio.onerror = () => {
+        const code = audio.error?.code ?? 0;
+        console.error("Audio playback error:", MEDIA_ERRORS[code] ?? `An unknown error occurred (code: ${code}).`);
+        finish();
+    };
+    audio.play().catch(error => {
+        console.error("Audio play() failed. This might be due to browser autoplay restrictions.", error);
+        finish();
+    });
+    return {
+        done,
+        setPlayback: apply,
+        stop() {
+            audio.pause();
+            finish();
+        },
+    };
+}
+
+export function createElevenLabsProvider({
+    apiKey = process.env.ELEVENLABS_API_KEY,
+    model = DEFAULT_MODEL,
+    voices = ELEVENLABS_VOICES,
+    cache = createAudioCache(),
+}: ElevenLabsConfig = {}): TtsProvider {
+    const synthesize = async (text: string, voiceId: string): Promise<Blob> => {
+        if (!apiKey) {
+            throw new Error("ElevenLabs API key not found. Please ensure the ELEVENLABS_API_KEY environment variable is set.");
+        }
+        const response = await fetch(`https://api.elevenlabs.io/v1/text-to-speech/${voiceId}`, {
+            method: 'POST',
+            headers: {
+                'Accept': 'audio/mpeg',
+                'Content-Type': 'application/json',
+                'xi-api-key': apiKey,
+            },
+            body: JSON.stringify({
+                text,
+                model_id: model,
+                voice_settings: { stability: 0.5, similarity_boost: 0.5 },
+            }),
+        });
+        if (!response.ok) {
+            const errorBody = await response.text().catch(() => '');
+            throw new Error(`ElevenLabs request failed (${response.status} ${response.statusText}): ${errorBody.slice(0, 200)}`);
+        }
+        const contentType = response.headers.get('Content-Type') ?? '';
+        if (!contentType.startsWith('audio/')) {
+            const bodySnippet = await response.text().then(t => t.slice(0, 200)).catch(() => '');
+            throw new Error(`ElevenLabs returned ${contentType || 'no content type'} instead of audio: ${bodySnippet}`);
+        }
+        return response.blob();
+    };
+
+    return {
+        name: 'elevenlabs',
+
+        async prepare(text: string, voice: VoiceProfile): Promise<PreparedSpeech> {
+            const voiceId = pickCatalogVoice(voiceTraits(voice), voices).id;
+            const key = `${model}:${voiceId}:${text}`;
+            let audio = await cache.get(key);
+            if (!audio) {
+                audio = await synthesize(text, voiceId);
+                await cache.put(key, audio);
+            }
+            const audioUrl = URL.createObjectURL(audio);
+            return {
+                play(settings) {
+                    const utterance = playAudio(audioUrl, settings);
+                    utterance.done.then(() => URL.revokeObjectURL(audioUrl));
+                    return utterance;
+                },
+                release: () => URL.revokeObjectURL(audioUrl),
+            };
+        },
+    };
+}
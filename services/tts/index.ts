@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { TtsProvider } from "./types";
+import { createElevenLabsProvider } from "./elevenLabsProvider";
+import { createBrowserProvider } from "./browserProvider";
+import { createMockTtsProvider } from "./mockProvider";
+
+export * from "./types";
+export * from "./voices";
+export { createElevenLabsProvider, createBrowserProvider, createMockTtsProvider };
+
+export type TtsProviderName = 'elevenlabs' | 'browser' | 'mock';
+
+let providerOverride: TtsProvider | null = null;
+
+// Falls back line by line, so one failed request (quota, network) doesn't leave the patient silent.
+export function withFallback(primary: TtsProvider, fallback: TtsProvider): TtsProvider {
+    return {
+        name: `${primary.name}+${fallback.name}`,
+        async prepare(text, voice) {
+            try {
+                return await primary.prepare(text, voice);
+            } catch (error) {
+                console.warn(`${primary.name} speech failed, using ${fallback.name} instead:`, error);
+                return fallback.prepare(text, voice);
+            }
+        },
+    };
+}
+
+export function createTtsProvider(name: string | undefined): TtsProvider {
+    switch (name) {
+        case 'elevenlabs': return withFallback(createElevenLabsProvider(), createBrowserProvider());
+        case 'browser': return createBrowserProvider();
+        case 'mock': return createMockTtsProvider();
+        case undefined:
+        case '':
+            return process.env.ELEVENLABS_API_KEY
+                ? withFallback(createElevenLabsProvider(), createBrowserProvider())
+                : createBrowserProvider();
+        default:
+            throw new Error(`Unknown TTS provider "${name}". Expected one of: elevenlabs, browser, mock.`);
+    }
+}
+
+// Chosen by TTS_PROVIDER (default: ElevenLabs when ELEVENLABS_API_KEY is set, else the browser).
+// Created once, so the ElevenLabs audio cache lives as long as the page.
+let defaultProvider: TtsProvider | null = null;
+
+export function getTtsProvider(): TtsProvider {
+    return providerOverride ?? (defaultProvider ??= createTtsProvider(process.env.TTS_PROVIDER));
+}
+
+export function setTtsProvider(provider: TtsProvider | null): void {
+    providerOverride = provider;
+}
@@ -0,0 +1,27 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { TtsProvider, PreparedSpeech, VoiceProfile } from "./types";
+
+// A silent, network-free provider. Every line "finishes" on the next tick; pass `onSpeak` to see
+// what would have been said.
+export function createMockTtsProvider(onSpeak?: (text: string, voice: VoiceProfile) => void): TtsProvider {
+    return {
+        name: 'mock',
+
+        async prepare(text: string, voice: VoiceProfile): Promise<PreparedSpeech> {
+            return {
+                play() {
+                    onSpeak?.(text, voice);
+                    return {
+                        done: new Promise(resolve => setTimeout(resolve, 0)),
+                        setPlayback() {},
+                        stop() {},
+                    };
+                },
+                release() {},
+            };
+        },
+    };
+}
@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { DiagnosticCase } from "../geminiService";
+
+// The patient traits a voice is chosen from.
+export type VoiceProfile = Omit<DiagnosticCase['patientProfile'], 'name'>;
+
+export interface PlaybackSettings {
+    volume: number; // 0-1
+    speed: number; // playback rate, 1 = normal
+}
+
+export interface SpeechSettings extends PlaybackSettings {
+    muted: boolean;
+}
+
+export const DEFAULT_SPEECH_SETTINGS: SpeechSettings = { muted: false, volume: 1, speed: 1 };
+
+export const SPEECH_SPEEDS = [0.75, 1, 1.25, 1.5];
+
+// One line being spoken. `done` resolves when it finishes, fails or is stopped, so a queue of
+// lines can always move on to the next one.
+export interface Utterance {
+    done: Promise<void>;
+    setPlayback(settings: PlaybackSettings): void;
+    stop(): void;
+}
+
+// A line whose audio is ready (or, for engines that speak directly, ready to be spoken).
+// Lines are prepared ahead of time so the next one can start as soon as the last ends.
+export interface PreparedSpeech {
+    play(settings: PlaybackSettings): Utterance;
+    // Frees anything held for a line that is dropped without being played.
+    release(): void;
+}
+
+export interface TtsProvider {
+    readonly name: string;
+    prepare(text: string, voice: VoiceProfile): Promise<PreparedSpeech>;
+}
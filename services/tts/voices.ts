@@ -0,0 +1,53 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { VoiceProfile } from "./types";
+
+// Voice selection. A patient is reduced to the traits a voice can actually convey (gender, a
+// rough age group and an English accent), and each provider picks its closest available voice.
+
+export type VoiceAgeGroup = 'child' | 'adult' | 'senior';
+
+export interface VoiceTraits {
+    gender: 'Male' | 'Female' | null; // null: no preference
+    ageGroup: VoiceAgeGroup;
+    lang: string; // preferred BCP 47 tag, e.g. 'en-IN'
+}
+
+// Most cases are set in India, so patients without a clearer match get an Indian English voice.
+const ETHNICITY_LANGS: Record<VoiceProfile['ethnicity'], string> = {
+    'South Asian': 'en-IN',
+    'Asian': 'en-SG',
+    'Black': 'en-NG',
+    'Caucasian': 'en-GB',
+    'Hispanic': 'en-US',
+    'Middle Eastern': 'en-GB',
+    'Other': 'en-IN',
+};
+
+export function voiceTraits({ age, gender, ethnicity }: VoiceProfile): VoiceTraits {
+    return {
+        gender: gender === 'Other' ? null : gender,
+        ageGroup: age < 13 ? 'child' : age >= 60 ? 'senior' : 'adult',
+        lang: ETHNICITY_LANGS[ethnicity] ?? 'en-IN',
+    };
+}
+
+export interface CatalogVoice {
+    id: string;
+    name: string;
+    gender: 'Male' | 'Female';
+    ageGroup: VoiceAgeGroup;
+    lang: string;
+}
+
+// Gender outweighs age, which outweighs accent: a voice of the wrong gender is the most jarring
+// mismatch. Ties go to the earlier entry, so the choice is stable for a given patient.
+export function pickCatalogVoice(traits: VoiceTraits, catalog: CatalogVoice[]): CatalogVoice {
+    const score = (voice: CatalogVoice) =>
+        (traits.gender === null || voice.gender === traits.gender ? 4 : 0) +
+        (voice.ageGroup === traits.ageGroup ? 2 : 0) +
+        (voice.lang === traits.lang ? 1 : 0);
+    return catalog.reduce((best, voice) => (score(voice) > score(best) ? voice : best));
+}